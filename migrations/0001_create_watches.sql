@@ -0,0 +1,20 @@
+-- Saved searches re-run by the scheduled handler
+CREATE TABLE watches (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  chat_id INTEGER NOT NULL,
+  user_id INTEGER NOT NULL,
+  query TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('hourly', 'daily')),
+  created_at INTEGER NOT NULL,
+  last_run_at INTEGER
+);
+
+CREATE INDEX watches_chat_id ON watches (chat_id);
+
+-- Result URLs already sent (or present when the watch was created), per watch
+CREATE TABLE watch_seen_urls (
+  watch_id INTEGER NOT NULL REFERENCES watches (id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  first_seen_at INTEGER NOT NULL,
+  PRIMARY KEY (watch_id, url)
+);
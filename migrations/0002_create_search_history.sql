@@ -0,0 +1,15 @@
+-- Per-user search history for /history and /export
+CREATE TABLE search_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  chat_id INTEGER NOT NULL,
+  query TEXT NOT NULL,
+  search_type TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  overview TEXT NOT NULL DEFAULT '',
+  -- JSON array of the results shown, with their AI insights
+  results TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX search_history_user_id ON search_history (user_id, created_at);
@@ -0,0 +1,28 @@
+-- Users and chats admins have let in with /allow; everyone in a listed chat is a member
+CREATE TABLE access_list (
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('user', 'chat')),
+  subject_id INTEGER NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('member', 'admin')),
+  added_by INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  PRIMARY KEY (subject_type, subject_id)
+);
+
+-- Searches and commands access control turned away, and what admins decided about the ones
+-- held for approval
+CREATE TABLE access_audit (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL,
+  chat_id INTEGER, -- NULL for inline queries
+  chat_type TEXT,
+  message_id INTEGER, -- The message that asked, so an approved search can answer it
+  role TEXT NOT NULL,
+  query TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('blocked', 'pending', 'approved', 'rejected')),
+  decided_by INTEGER,
+  created_at INTEGER NOT NULL,
+  decided_at INTEGER
+);
+
+CREATE INDEX access_audit_created_at ON access_audit (created_at);
@@ -0,0 +1,12 @@
+-- Internal tools allowed to call /api/search, each with its own key
+CREATE TABLE api_clients (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE, -- SHA-256 of the key, which is only shown when the client is created
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER,
+  revoked_at INTEGER
+);
+
+-- A name can be reused once the client that had it is revoked
+CREATE UNIQUE INDEX api_clients_active_name ON api_clients (name) WHERE revoked_at IS NULL;
@@ -0,0 +1,7 @@
+-- Telegram update_ids already claimed by a webhook delivery, so redeliveries are skipped
+CREATE TABLE processed_updates (
+  update_id INTEGER PRIMARY KEY,
+  claimed_at INTEGER NOT NULL
+);
+
+CREATE INDEX processed_updates_claimed_at ON processed_updates (claimed_at);
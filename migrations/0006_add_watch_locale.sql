@@ -0,0 +1,3 @@
+-- The language alerts are written in, fixed when the watch is created; the scheduled run has no
+-- Telegram language_code to go by
+ALTER TABLE watches ADD COLUMN locale TEXT NOT NULL DEFAULT 'en';
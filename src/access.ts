@@ -0,0 +1,244 @@
+// Access control: roles, the allowlist and the audit log
+// Admins are the Telegram users listed in BOT_ADMINS plus anyone they promote with /allow admin.
+// Users on the allowlist, and everyone in a chat on it, are members; anyone else is a guest. What
+// each role may search for is up to the policy in policy.ts. Without BOT_ADMINS nobody could ever
+// be allowed in or approve a search, so access control stays off and every search may run.
+
+import type { Environment, TelegramMessage } from './types';
+import type { DorkQuery } from './dork';
+import { evaluatePolicy, parsePolicy, type PolicyDecision, type Role } from './policy';
+import type { InlineKeyboardMarkup } from './telegram';
+import { messages, type Locale } from './i18n';
+
+export type SubjectType = 'user' | 'chat';
+export type ListedRole = Exclude<Role, 'guest'>;
+export type AuditOutcome = 'blocked' | 'pending' | 'approved' | 'rejected';
+
+export interface AccessEntry {
+  subjectType: SubjectType;
+  subjectId: number;
+  role: ListedRole;
+  addedBy: number;
+  createdAt: number;
+}
+
+export interface AuditEntry {
+  id: number;
+  userId: number;
+  chatId: number | null; // null for inline queries
+  chatType: string | null;
+  messageId: number | null;
+  role: Role;
+  query: string;
+  reason: string;
+  outcome: AuditOutcome;
+  decidedBy: number | null;
+  createdAt: number;
+  decidedAt: number | null;
+}
+
+interface AccessRow {
+  subject_type: SubjectType;
+  subject_id: number;
+  role: ListedRole;
+  added_by: number;
+  created_at: number;
+}
+
+interface AuditRow {
+  id: number;
+  user_id: number;
+  chat_id: number | null;
+  chat_type: string | null;
+  message_id: number | null;
+  role: Role;
+  query: string;
+  reason: string;
+  outcome: AuditOutcome;
+  decided_by: number | null;
+  created_at: number;
+  decided_at: number | null;
+}
+
+export interface AccessTarget {
+  subjectType: SubjectType;
+  subjectId: number;
+  role: ListedRole;
+}
+
+const MAX_AUDIT_ENTRIES = 1000;
+export const AUDIT_PAGE_SIZE = 20;
+// Inline queries arrive for nearly every keystroke; one entry per user in this window is enough
+const INLINE_AUDIT_WINDOW_MS = 60_000;
+
+function toAccessEntry(row: AccessRow): AccessEntry {
+  return {
+    subjectType: row.subject_type,
+    subjectId: row.subject_id,
+    role: row.role,
+    addedBy: row.added_by,
+    createdAt: row.created_at
+  };
+}
+
+function toAuditEntry(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    chatId: row.chat_id,
+    chatType: row.chat_type,
+    messageId: row.message_id,
+    role: row.role,
+    query: row.query,
+    reason: row.reason,
+    outcome: row.outcome,
+    decidedBy: row.decided_by,
+    createdAt: row.created_at,
+    decidedAt: row.decided_at
+  };
+}
+
+// "123, 456": Telegram user ids
+export function configuredAdmins(env: Environment): Set<number> {
+  const ids = (env.BOT_ADMINS ?? '').split(',').map(id => Number(id.trim()));
+  return new Set(ids.filter(id => Number.isInteger(id) && id > 0));
+}
+
+export function accessControlEnabled(env: Environment): boolean {
+  return configuredAdmins(env).size > 0;
+}
+
+// The user's own entry decides over the one of the chat they are in; chats only ever make members
+export async function resolveRole(userId: number, chatId: number | undefined, env: Environment): Promise<Role> {
+  if (configuredAdmins(env).has(userId)) {
+    return 'admin';
+  }
+
+  const { results } = await env.DB.prepare(
+    `SELECT subject_type, role FROM access_list
+     WHERE (subject_type = 'user' AND subject_id = ?) OR (subject_type = 'chat' AND subject_id = ?)`
+  ).bind(userId, chatId ?? null).all<Pick<AccessRow, 'subject_type' | 'role'>>();
+
+  const user = results.find(row => row.subject_type === 'user');
+  if (user) {
+    return user.role;
+  }
+  return results.length > 0 ? 'member' : 'guest';
+}
+
+// Runs before a search reaches any provider; chatId is left out for inline queries
+export async function checkSearchAccess(dork: DorkQuery, userId: number, chatId: number | undefined, env: Environment): Promise<{ role: Role; decision: PolicyDecision }> {
+  if (!accessControlEnabled(env)) {
+    return { role: 'member', decision: { action: 'allow' } };
+  }
+
+  const role = await resolveRole(userId, chatId, env);
+  return { role, decision: evaluatePolicy(dork, role, parsePolicy(env.ACCESS_POLICY)) };
+}
+
+// Adds the user or chat, or changes the role of one already listed
+export async function grantAccess(target: AccessTarget, addedBy: number, db: D1Database, now: number = Date.now()): Promise<void> {
+  await db.prepare(
+    `INSERT INTO access_list (subject_type, subject_id, role, added_by, created_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT (subject_type, subject_id) DO UPDATE SET role = excluded.role, added_by = excluded.added_by, created_at = excluded.created_at`
+  ).bind(target.subjectType, target.subjectId, target.role, addedBy, now).run();
+}
+
+export async function revokeAccess(subjectType: SubjectType, subjectId: number, db: D1Database): Promise<boolean> {
+  const result = await db.prepare('DELETE FROM access_list WHERE subject_type = ? AND subject_id = ?').bind(subjectType, subjectId).run();
+  return result.meta.changes > 0;
+}
+
+export async function listAccess(db: D1Database): Promise<AccessEntry[]> {
+  const { results } = await db.prepare("SELECT * FROM access_list ORDER BY role = 'admin' DESC, subject_type DESC, created_at").all<AccessRow>();
+  return results.map(toAccessEntry);
+}
+
+// Everyone who gets asked about searches held for approval
+export async function listAdmins(env: Environment): Promise<number[]> {
+  const { results } = await env.DB.prepare("SELECT subject_id FROM access_list WHERE subject_type = 'user' AND role = 'admin'").all<{ subject_id: number }>();
+  return [...new Set([...configuredAdmins(env), ...results.map(row => row.subject_id)])];
+}
+
+// Only the most recent entries are kept
+export async function recordDenial(attempt: Omit<AuditEntry, 'id' | 'decidedBy' | 'decidedAt'>, db: D1Database): Promise<AuditEntry> {
+  const [inserted] = await db.batch<AuditRow>([
+    db.prepare(
+      `INSERT INTO access_audit (user_id, chat_id, chat_type, message_id, role, query, reason, outcome, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+    ).bind(attempt.userId, attempt.chatId, attempt.chatType, attempt.messageId, attempt.role, attempt.query, attempt.reason, attempt.outcome, attempt.createdAt),
+    db.prepare('DELETE FROM access_audit WHERE id NOT IN (SELECT id FROM access_audit ORDER BY id DESC LIMIT ?)').bind(MAX_AUDIT_ENTRIES)
+  ]);
+  return toAuditEntry(inserted.results[0]);
+}
+
+export async function recordInlineDenial(userId: number, role: Role, query: string, reason: string, db: D1Database, now: number = Date.now()): Promise<void> {
+  await db.prepare(
+    `INSERT INTO access_audit (user_id, role, query, reason, outcome, created_at)
+     SELECT ?, ?, ?, ?, 'blocked', ?
+     WHERE NOT EXISTS (SELECT 1 FROM access_audit WHERE user_id = ? AND chat_id IS NULL AND created_at > ?)`
+  ).bind(userId, role, query, reason, now, userId, now - INLINE_AUDIT_WINDOW_MS).run();
+}
+
+// Settles a held search once; null when it was already decided or never existed
+export async function decideApproval(entryId: number, approved: boolean, adminId: number, db: D1Database, now: number = Date.now()): Promise<AuditEntry | null> {
+  const row = await db.prepare(
+    "UPDATE access_audit SET outcome = ?, decided_by = ?, decided_at = ? WHERE id = ? AND outcome = 'pending' RETURNING *"
+  ).bind(approved ? 'approved' : 'rejected', adminId, now, entryId).first<AuditRow>();
+  return row ? toAuditEntry(row) : null;
+}
+
+// Newest first
+export async function recentDenials(limit: number, db: D1Database): Promise<AuditEntry[]> {
+  const { results } = await db.prepare('SELECT * FROM access_audit ORDER BY id DESC LIMIT ?').bind(limit).all<AuditRow>();
+  return results.map(toAuditEntry);
+}
+
+// "<user id>", "admin <user id>", "chat [chat id]", or a reply to the user's message with no id
+export function parseAccessArgs(args: string, message: TelegramMessage): AccessTarget | null {
+  const words = args.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  let subjectType: SubjectType = 'user';
+  let role: ListedRole = 'member';
+
+  if (words[0] === 'admin') {
+    role = 'admin';
+    words.shift();
+  } else if (words[0] === 'chat') {
+    subjectType = 'chat';
+    words.shift();
+  }
+
+  let subjectId: number;
+  if (words.length === 1 && /^-?\d+$/.test(words[0])) {
+    subjectId = Number(words[0]);
+  } else if (words.length > 0) {
+    return null;
+  } else if (subjectType === 'chat') {
+    subjectId = message.chat.id;
+  } else if (message.reply_to_message && !message.reply_to_message.from.is_bot) {
+    subjectId = message.reply_to_message.from.id;
+  } else {
+    return null;
+  }
+
+  // User ids are positive; negative ids belong to groups and channels
+  if (subjectType === 'user' && subjectId <= 0) {
+    return null;
+  }
+  return { subjectType, subjectId, role };
+}
+
+export function parseApprovalData(data: string): { entryId: number; approved: boolean } | null {
+  const match = data.match(/^ap:(\d+):([yn])$/);
+  return match ? { entryId: Number(match[1]), approved: match[2] === 'y' } : null;
+}
+
+export function buildApprovalKeyboard(entryId: number, locale: Locale = 'en'): InlineKeyboardMarkup {
+  const t = messages(locale);
+  return {
+    inline_keyboard: [[
+      { text: t.approve, callback_data: `ap:${entryId}:y` },
+      { text: t.decline, callback_data: `ap:${entryId}:n` }
+    ]]
+  };
+}
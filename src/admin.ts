@@ -0,0 +1,125 @@
+// Webhook management endpoints: /setup, /status and /teardown
+// They change or reveal how Telegram reaches the bot, so each needs the ADMIN_TOKEN secret as a
+// bearer token. The webhook URL is taken from the request's own origin, so setup works unchanged
+// on workers.dev, a custom domain or a preview deployment.
+
+import type { Environment } from './types';
+import * as telegram from './telegram';
+import { bearerToken, secretMatches } from './auth';
+import { LOCALES, messages } from './i18n';
+
+// Every update type processUpdate handles; Telegram does not deliver the others
+export const ALLOWED_UPDATES = ['message', 'callback_query', 'inline_query', 'chosen_inline_result'];
+
+const WEBHOOK_PATH = '/webhook';
+
+export type AdminRoute = '/setup' | '/status' | '/teardown';
+
+// Setup and teardown change state, so a link preview or crawler following a URL cannot trigger them
+const ROUTE_METHODS: Record<AdminRoute, string> = { '/setup': 'POST', '/status': 'GET', '/teardown': 'POST' };
+
+export function isAdminRoute(pathname: string): pathname is AdminRoute {
+  return Object.prototype.hasOwnProperty.call(ROUTE_METHODS, pathname);
+}
+
+export function json(body: object, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+export function webhookUrl(request: Request): string {
+  return `${new URL(request.url).origin}${WEBHOOK_PATH}`;
+}
+
+async function setup(request: Request, env: Environment): Promise<Response> {
+  const url = webhookUrl(request);
+  if (!url.startsWith('https://')) {
+    return json({ success: false, error: `Telegram only delivers to HTTPS, but this request came in at ${url}` }, 400);
+  }
+  if (!env.TELEGRAM_WEBHOOK_SECRET) {
+    return json({ success: false, error: 'TELEGRAM_WEBHOOK_SECRET is not configured, so every delivery would be rejected' }, 500);
+  }
+
+  const webhookSet = await telegram.setWebhook({
+    url,
+    secret_token: env.TELEGRAM_WEBHOOK_SECRET,
+    allowed_updates: ALLOWED_UPDATES
+  }, env);
+
+  // English is the default menu; the other catalogs are shown to apps set to their language
+  for (const locale of LOCALES) {
+    const commands = Object.entries(messages(locale).commands).map(([command, description]) => ({ command, description }));
+    await telegram.setMyCommands({ commands, language_code: locale === 'en' ? undefined : locale }, env);
+  }
+
+  return json({
+    success: true,
+    webhook_set: webhookSet,
+    webhook_url: url,
+    allowed_updates: ALLOWED_UPDATES,
+    command_languages: LOCALES,
+    message: 'Bot setup complete! Your AI Search Engine bot is ready.'
+  });
+}
+
+async function status(request: Request, env: Environment): Promise<Response> {
+  const info = await telegram.getWebhookInfo(env);
+  const expectedUrl = webhookUrl(request);
+  // Without a list Telegram sends every common update type, which includes the ones needed
+  const subscribed = info.allowed_updates;
+  const upToDate = info.url === expectedUrl && (!subscribed || ALLOWED_UPDATES.every(type => subscribed.includes(type)));
+
+  return json({ success: true, up_to_date: upToDate, expected_url: expectedUrl, webhook: info });
+}
+
+async function teardown(request: Request, env: Environment): Promise<Response> {
+  const dropPending = new URL(request.url).searchParams.get('drop_pending_updates') === 'true';
+  const deleted = await telegram.deleteWebhook({ drop_pending_updates: dropPending }, env);
+
+  return json({
+    success: true,
+    webhook_deleted: deleted,
+    pending_updates_dropped: dropPending,
+    message: 'Webhook removed. The bot receives no updates until /setup is run again.'
+  });
+}
+
+// The error response for requests without the admin token, or null when it was given
+export function rejectNonAdmin(request: Request, env: Environment): Response | null {
+  if (!env.ADMIN_TOKEN) {
+    console.error('ADMIN_TOKEN is not configured, rejecting admin request');
+    return json({ success: false, error: 'Admin endpoints are disabled until ADMIN_TOKEN is configured' }, 403);
+  }
+  if (!secretMatches(env.ADMIN_TOKEN, bearerToken(request))) {
+    return json({ success: false, error: 'Missing or wrong admin token' }, 401, { 'WWW-Authenticate': 'Bearer' });
+  }
+  return null;
+}
+
+export async function handleAdminRequest(request: Request, route: AdminRoute, env: Environment): Promise<Response> {
+  const method = ROUTE_METHODS[route];
+  if (request.method !== method) {
+    return json({ success: false, error: `Use ${method} for ${route}` }, 405, { Allow: method });
+  }
+
+  const rejected = rejectNonAdmin(request, env);
+  if (rejected) {
+    return rejected;
+  }
+
+  try {
+    switch (route) {
+      case '/setup':
+        return await setup(request, env);
+      case '/status':
+        return await status(request, env);
+      case '/teardown':
+        return await teardown(request, env);
+    }
+  } catch (error) {
+    console.error(`Admin request ${route} failed:`, error);
+    return json({ success: false, error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+}
@@ -0,0 +1,294 @@
+// JSON HTTP API for internal tools: /api/search, /api/clients and /api/openapi.json
+// Searches run through the same pipeline as in Telegram (results.ts) and the response is rendered
+// as JSON instead of messages. Every client calls with its own key from /api/clients, which only
+// the holder of ADMIN_TOKEN can create or revoke. The OpenAPI document describes all of it.
+
+import type { Environment } from './types';
+import { parseDork, detectSearchType, DorkSyntaxError, type DorkQuery } from './dork';
+import { runSearch, type SearchResponse } from './results';
+import { DEFAULT_SETTINGS, LANGUAGES, REGIONS, SAFE_SEARCH_LABELS, SUMMARY_LENGTH_LABELS, type SafeSearchLevel, type SummaryLength, type UserSettings } from './settings';
+import { resolveLanguage } from './i18n';
+import { checkClientAllowance } from './rate-limit';
+import { accessControlEnabled } from './access';
+import { evaluatePolicy, parsePolicy } from './policy';
+import { authenticateClient, createClient, isValidClientName, listClients, revokeClient, type ApiClient } from './clients';
+import { bearerToken } from './auth';
+import { json, rejectNonAdmin } from './admin';
+import { openApiDocument } from './openapi';
+
+const API_PREFIX = '/api/';
+const MAX_QUERY_LENGTH = 512;
+// A page of the provider's answer; reranking may leave fewer
+const MAX_LIMIT = 10;
+
+// Parameters of a search, from the query string of a GET or the JSON body of a POST
+export interface ApiSearchParameters {
+  query: string;
+  limit: number;
+  ai: boolean;
+  fresh: boolean;
+  language: string;
+  region: string;
+  safeSearch: SafeSearchLevel;
+  summaryLength: SummaryLength;
+}
+
+export class ApiRequestError extends Error {
+  constructor(message: string, readonly status: number = 400) {
+    super(message);
+    this.name = 'ApiRequestError';
+  }
+}
+
+export function isApiRoute(pathname: string): boolean {
+  return pathname.startsWith(API_PREFIX);
+}
+
+function hasOption(options: Record<string, string>, value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(options, value);
+}
+
+function readBoolean(value: unknown, name: string, fallback: boolean): boolean {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (value === 'true' || value === '1') {
+    return true;
+  }
+  if (value === 'false' || value === '0') {
+    return false;
+  }
+  throw new ApiRequestError(`${name} must be true or false`);
+}
+
+function readOption<T extends string>(value: unknown, name: string, options: Record<string, string>, fallback: T): T {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== 'string' || !hasOption(options, value)) {
+    throw new ApiRequestError(`${name} must be one of ${Object.keys(options).join(', ')}`);
+  }
+  return value as T;
+}
+
+// Validates what a client sent; names are the ones in the OpenAPI document
+export function parseSearchParameters(input: Record<string, unknown>): ApiSearchParameters {
+  const query = typeof input.query === 'string' ? input.query.trim() : '';
+  if (!query) {
+    throw new ApiRequestError('query is required');
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    throw new ApiRequestError(`query must be at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const limit = input.limit === undefined ? DEFAULT_SETTINGS.resultCount : Number(input.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new ApiRequestError(`limit must be a whole number from 1 to ${MAX_LIMIT}`);
+  }
+
+  return {
+    query,
+    limit,
+    ai: readBoolean(input.ai, 'ai', DEFAULT_SETTINGS.aiSummaries),
+    fresh: readBoolean(input.fresh, 'fresh', false),
+    language: readOption(input.language, 'language', LANGUAGES, DEFAULT_SETTINGS.language),
+    region: readOption(input.region, 'region', REGIONS, DEFAULT_SETTINGS.region),
+    safeSearch: readOption(input.safe_search, 'safe_search', SAFE_SEARCH_LABELS, DEFAULT_SETTINGS.safeSearch),
+    summaryLength: readOption(input.summary_length, 'summary_length', SUMMARY_LENGTH_LABELS, DEFAULT_SETTINGS.summaryLength)
+  };
+}
+
+// GET searches take the query as q, like a search engine's URL
+function queryStringInput(request: Request): Record<string, unknown> {
+  const { q, ...rest } = Object.fromEntries(new URL(request.url).searchParams);
+  return { ...rest, query: q };
+}
+
+async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiRequestError('The body must be a JSON object');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ApiRequestError('The body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+// The JSON renderer of the shared result model; [n] citations in the overview refer to positions
+export function toApiResponse(response: SearchResponse): object {
+  const { request, searchInfo, timing } = response;
+
+  return {
+    success: true,
+    query: response.query,
+    type: response.searchType,
+    dork: response.searchType === 'dork' ? { context: response.searchContext, parameters: request.params } : null,
+    warnings: request.warnings,
+    provider: { name: response.provider, label: searchInfo.provider ?? response.provider },
+    total_results: searchInfo.totalResults ?? null,
+    cached_at: response.cachedAt !== undefined ? new Date(response.cachedAt).toISOString() : null,
+    results: response.results.map((result, i) => ({
+      position: i + 1,
+      title: result.title,
+      link: result.link,
+      display_link: result.displayLink,
+      snippet: result.snippet,
+      insight: result.aiSummary ?? null,
+      rank: result.rank ? { original: result.rank.original, relevance: result.rank.relevance, merged: result.rank.merged } : null
+    })),
+    overview: response.overview || null,
+    analysis: response.analysis,
+    timing: {
+      provider_seconds: searchInfo.searchTime,
+      search_ms: timing.search,
+      rerank_ms: timing.rerank,
+      analysis_ms: timing.analysis,
+      total_ms: timing.total
+    }
+  };
+}
+
+function toClientJson(client: ApiClient): object {
+  return {
+    id: client.id,
+    name: client.name,
+    created_at: new Date(client.createdAt).toISOString(),
+    last_used_at: client.lastUsedAt !== null ? new Date(client.lastUsedAt).toISOString() : null,
+    revoked_at: client.revokedAt !== null ? new Date(client.revokedAt).toISOString() : null
+  };
+}
+
+async function search(request: Request, env: Environment): Promise<Response> {
+  const client = await authenticateClient(bearerToken(request), env.DB);
+  if (!client) {
+    return json({ success: false, error: 'Missing, unknown or revoked API key' }, 401, { 'WWW-Authenticate': 'Bearer' });
+  }
+
+  const parameters = parseSearchParameters(request.method === 'GET' ? queryStringInput(request) : await readJsonObject(request));
+  let dork: DorkQuery;
+  try {
+    dork = parseDork(parameters.query);
+  } catch (error) {
+    if (error instanceof DorkSyntaxError) {
+      throw new ApiRequestError(error.message);
+    }
+    throw error;
+  }
+
+  // Keys are handed out by whoever holds ADMIN_TOKEN, so clients search under the admin rules
+  if (accessControlEnabled(env)) {
+    const decision = evaluatePolicy(dork, 'admin', parsePolicy(env.ACCESS_POLICY));
+    if (decision.action !== 'allow') {
+      throw new ApiRequestError(decision.action === 'block' ? decision.reason : `${decision.reason}; ask an admin in Telegram`, 403);
+    }
+  }
+
+  const allowance = await checkClientAllowance(client.id, env);
+  if (!allowance.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((allowance.retryAt - Date.now()) / 1000));
+    return json({
+      success: false,
+      error: `Limit of ${allowance.limit.max} searches ${allowance.limit.label} reached`,
+      retry_at: new Date(allowance.retryAt).toISOString()
+    }, 429, { 'Retry-After': String(retryAfter) });
+  }
+
+  // 'auto' follows the query's language, as in Telegram but without an app language to fall back on
+  const settings: UserSettings = {
+    ...DEFAULT_SETTINGS,
+    resultCount: parameters.limit,
+    aiSummaries: parameters.ai,
+    language: resolveLanguage(parameters.query, parameters.language) ?? 'auto',
+    region: parameters.region,
+    safeSearch: parameters.safeSearch,
+    summaryLength: parameters.summaryLength
+  };
+  const response = await runSearch(dork, detectSearchType(dork), env, { fresh: parameters.fresh, settings });
+  return json(toApiResponse(response));
+}
+
+async function clients(request: Request, pathname: string, env: Environment): Promise<Response> {
+  const rejected = rejectNonAdmin(request, env);
+  if (rejected) {
+    return rejected;
+  }
+
+  if (pathname === '/api/clients') {
+    if (request.method === 'GET') {
+      return json({ success: true, clients: (await listClients(env.DB)).map(toClientJson) });
+    }
+
+    const body = await readJsonObject(request);
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!isValidClientName(name)) {
+      throw new ApiRequestError('name must be 1-40 letters, digits, dashes or underscores');
+    }
+    const created = await createClient(name, env.DB);
+    if (!created) {
+      throw new ApiRequestError(`A client named ${name} already exists`, 409);
+    }
+    return json({
+      success: true,
+      client: toClientJson(created.client),
+      api_key: created.key,
+      message: 'Store the key now; it cannot be shown again.'
+    }, 201);
+  }
+
+  const id = Number(pathname.slice('/api/clients/'.length));
+  const revoked = await revokeClient(id, env.DB);
+  if (!revoked) {
+    throw new ApiRequestError(`No active client with id ${id}`, 404);
+  }
+  return json({ success: true, client: toClientJson(revoked) });
+}
+
+// Methods each route answers to
+function routeMethods(pathname: string): string[] | null {
+  if (pathname === '/api/search') {
+    return ['GET', 'POST'];
+  }
+  if (pathname === '/api/openapi.json') {
+    return ['GET'];
+  }
+  if (pathname === '/api/clients') {
+    return ['GET', 'POST'];
+  }
+  if (/^\/api\/clients\/\d+$/.test(pathname)) {
+    return ['DELETE'];
+  }
+  return null;
+}
+
+export async function handleApiRequest(request: Request, env: Environment): Promise<Response> {
+  const url = new URL(request.url);
+  const methods = routeMethods(url.pathname);
+  if (!methods) {
+    return json({ success: false, error: `No API route at ${url.pathname}` }, 404);
+  }
+  if (!methods.includes(request.method)) {
+    return json({ success: false, error: `Use ${methods.join(' or ')} for ${url.pathname}` }, 405, { Allow: methods.join(', ') });
+  }
+
+  try {
+    if (url.pathname === '/api/openapi.json') {
+      return json(openApiDocument(url.origin));
+    }
+    if (url.pathname === '/api/search') {
+      return await search(request, env);
+    }
+    return await clients(request, url.pathname, env);
+  } catch (error) {
+    if (error instanceof ApiRequestError) {
+      return json({ success: false, error: error.message }, error.status);
+    }
+    console.error(`API request ${url.pathname} failed:`, error);
+    return json({ success: false, error: 'The request failed, try again later' }, 500);
+  }
+}
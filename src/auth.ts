@@ -0,0 +1,21 @@
+// Secret comparisons for requests from outside Telegram's chats
+
+// Constant-time, so response timing does not reveal how much of a guess was right
+export function secretMatches(expected: string, received: string | null): boolean {
+  if (received === null) {
+    return false;
+  }
+
+  const encoder = new TextEncoder();
+  const expectedBytes = encoder.encode(expected);
+  const receivedBytes = encoder.encode(received);
+
+  return expectedBytes.byteLength === receivedBytes.byteLength &&
+    crypto.subtle.timingSafeEqual(expectedBytes, receivedBytes);
+}
+
+// The token of an "Authorization: Bearer <token>" header
+export function bearerToken(request: Request): string | null {
+  const match = request.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
@@ -0,0 +1,74 @@
+// KV cache for search responses and AI summaries
+// The Custom Search API has a small daily quota and every summary is a model call, so repeated
+// queries are answered from KV. Appending !fresh to a query skips the cache for that search.
+
+export const DEFAULT_SEARCH_CACHE_TTL = 60 * 60;
+export const DEFAULT_SUMMARY_CACHE_TTL = 60 * 60 * 24;
+// KV refuses expirations shorter than a minute
+const MIN_TTL_SECONDS = 60;
+
+const FRESH_DIRECTIVE = /(^|\s)!fresh(?=\s|$)/i;
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+export interface CachedValue<T> {
+  value: T;
+  fromCache: boolean;
+  storedAt: number;
+}
+
+export interface CacheOptions {
+  ttlSeconds: number;
+  bypass?: boolean;
+}
+
+// Strips the !fresh directive from a message, reporting whether it was there
+export function parseCacheDirective(text: string): { query: string; fresh: boolean } {
+  if (!FRESH_DIRECTIVE.test(text)) {
+    return { query: text, fresh: false };
+  }
+
+  const query = text.split(/\s+/).filter(word => word.toLowerCase() !== '!fresh').join(' ').trim();
+  return { query, fresh: true };
+}
+
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function parseTtl(value: string | undefined, fallback: number): number {
+  const ttl = Number(value);
+  return Number.isFinite(ttl) && ttl > 0 ? Math.max(MIN_TTL_SECONDS, Math.floor(ttl)) : fallback;
+}
+
+// Stable key for any JSON-serialisable description of a request
+export async function cacheKey(prefix: string, parts: unknown): Promise<string> {
+  const data = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `cache:${prefix}:${hex}`;
+}
+
+// The stored value, if any, without producing one on a miss
+export async function peekCached<T>(kv: KVNamespace, key: string): Promise<CachedValue<T> | null> {
+  const entry = await kv.get<CacheEntry<T>>(key, 'json');
+  return entry ? { value: entry.value, fromCache: true, storedAt: entry.storedAt } : null;
+}
+
+export async function cached<T>(kv: KVNamespace, key: string, options: CacheOptions, produce: () => Promise<T>): Promise<CachedValue<T>> {
+  if (!options.bypass) {
+    const hit = await peekCached<T>(kv, key);
+    if (hit) {
+      return hit;
+    }
+  }
+
+  const value = await produce();
+  const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+  await kv.put(key, JSON.stringify(entry), { expirationTtl: Math.max(MIN_TTL_SECONDS, options.ttlSeconds) });
+
+  return { value, fromCache: false, storedAt: entry.storedAt };
+}
@@ -0,0 +1,81 @@
+// API clients: the internal tools that may call /api/search
+// Every client gets a key of its own, so one can be revoked without touching the others and each
+// has its own rate limit. Only a SHA-256 hash of a key is stored; the key itself is shown once,
+// when the client is created.
+
+const KEY_PREFIX = 'mywo_';
+const KEY_BYTES = 32;
+
+export interface ApiClient {
+  id: number;
+  name: string;
+  createdAt: number;
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+interface ClientRow {
+  id: number;
+  name: string;
+  key_hash: string;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+function toApiClient(row: ClientRow): ApiClient {
+  return {
+    id: row.id,
+    name: row.name,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at
+  };
+}
+
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return [...new Uint8Array(bytes)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function hashKey(key: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key)));
+}
+
+// Letters, digits, dashes and underscores, e.g. "slack-bot"
+export function isValidClientName(name: string): boolean {
+  return /^[a-z0-9][a-z0-9_-]{0,39}$/i.test(name);
+}
+
+// Null when an active client already has the name
+export async function createClient(name: string, db: D1Database, now: number = Date.now()): Promise<{ client: ApiClient; key: string } | null> {
+  const key = KEY_PREFIX + toHex(crypto.getRandomValues(new Uint8Array(KEY_BYTES)));
+  const row = await db.prepare(
+    `INSERT INTO api_clients (name, key_hash, created_at)
+     SELECT ?, ?, ? WHERE NOT EXISTS (SELECT 1 FROM api_clients WHERE name = ? AND revoked_at IS NULL)
+     RETURNING *`
+  ).bind(name, await hashKey(key), now, name).first<ClientRow>();
+  return row ? { client: toApiClient(row), key } : null;
+}
+
+// Revoked clients stay listed, so it is clear what happened to a key that stopped working
+export async function listClients(db: D1Database): Promise<ApiClient[]> {
+  const { results } = await db.prepare('SELECT * FROM api_clients ORDER BY revoked_at IS NOT NULL, name').all<ClientRow>();
+  return results.map(toApiClient);
+}
+
+export async function revokeClient(id: number, db: D1Database, now: number = Date.now()): Promise<ApiClient | null> {
+  const row = await db.prepare('UPDATE api_clients SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL RETURNING *').bind(now, id).first<ClientRow>();
+  return row ? toApiClient(row) : null;
+}
+
+// The active client the key belongs to; marks it as used
+export async function authenticateClient(key: string | null, db: D1Database, now: number = Date.now()): Promise<ApiClient | null> {
+  if (!key?.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const row = await db.prepare(
+    'UPDATE api_clients SET last_used_at = ? WHERE key_hash = ? AND revoked_at IS NULL RETURNING *'
+  ).bind(now, await hashKey(key)).first<ClientRow>();
+  return row ? toApiClient(row) : null;
+}
@@ -0,0 +1,16 @@
+// Duplicate update protection for the Telegram webhook
+// Telegram redelivers an update whenever the webhook is slow or fails, so every
+// update_id is claimed in D1 before it is processed and skipped if seen again. The claim is a
+// single insert, so two deliveries racing each other cannot both win it.
+
+// Telegram gives up redelivering after roughly a day
+const UPDATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Returns false when the update has already been claimed by an earlier delivery
+export async function claimUpdate(updateId: number, db: D1Database, now: number = Date.now()): Promise<boolean> {
+  const [claim] = await db.batch([
+    db.prepare('INSERT INTO processed_updates (update_id, claimed_at) VALUES (?, ?) ON CONFLICT (update_id) DO NOTHING').bind(updateId, now),
+    db.prepare('DELETE FROM processed_updates WHERE claimed_at < ?').bind(now - UPDATE_TTL_MS)
+  ]);
+  return claim.meta.changes === 1;
+}
@@ -0,0 +1,605 @@
+// Google Dork query parser
+// Turns a raw query into a typed AST so search type detection, the search context
+// description and the API query builder all work from the same structure.
+
+import { messages, type Locale } from './i18n';
+
+export type SearchType = 'normal' | 'dork';
+
+// Operators Google understands as `name:value`; anything else with a colon is a plain term
+export const DORK_OPERATORS = [
+  'site', 'filetype', 'ext', 'inurl', 'intitle', 'intext', 'inanchor',
+  'allinurl', 'allintitle', 'allintext', 'allinanchor',
+  'cache', 'link', 'related', 'info', 'define', 'stocks', 'weather', 'map', 'movie',
+  'daterange', 'numrange', 'before', 'after', 'source',
+  'author', 'group', 'insubject', 'msgid', 'loc', 'location'
+] as const;
+
+export type DorkOperatorName = typeof DORK_OPERATORS[number];
+
+// allin* operators apply to every following word rather than a single value
+const ALL_IN_OPERATORS: ReadonlySet<string> = new Set(['allinurl', 'allintitle', 'allintext', 'allinanchor']);
+
+export interface TermNode {
+  type: 'term';
+  value: string;
+  wildcard: boolean;
+}
+
+export interface PhraseNode {
+  type: 'phrase';
+  value: string;
+}
+
+export interface OperatorNode {
+  type: 'operator';
+  name: DorkOperatorName;
+  value: string;
+  quoted: boolean;
+}
+
+export interface RangeNode {
+  type: 'range';
+  low?: number;
+  high?: number;
+  unit: string; // Prefix such as "$" shared by both bounds
+}
+
+export interface NotNode {
+  type: 'not';
+  operand: DorkNode;
+}
+
+export interface RequiredNode {
+  type: 'required';
+  operand: DorkNode;
+}
+
+export interface OrNode {
+  type: 'or';
+  children: DorkNode[];
+}
+
+export interface AndNode {
+  type: 'and';
+  children: DorkNode[];
+  explicit: boolean; // True when the user wrote AND rather than relying on juxtaposition
+}
+
+export interface GroupNode {
+  type: 'group';
+  child: DorkNode;
+}
+
+export type DorkNode = TermNode | PhraseNode | OperatorNode | RangeNode | NotNode | RequiredNode | OrNode | AndNode | GroupNode;
+
+export interface DorkQuery {
+  source: string;
+  root: DorkNode;
+}
+
+export type DorkProblem =
+  | 'unbalancedQuote' | 'unclosedGroup' | 'extraParenthesis' | 'unclosedParenthesis' | 'emptySearch'
+  | 'emptyQuotes' | 'emptyParentheses' | 'unexpectedSymbol' | 'emptyOperator' | 'invalidRange';
+
+// Whatever the message and hint of a problem mention
+export interface DorkErrorDetails {
+  fragment?: string;
+  operator?: string;
+  example?: string;
+}
+
+// The message is English for logs and the API; chats get formatDorkError() in their own language
+export class DorkSyntaxError extends Error {
+  readonly hint: string;
+
+  constructor(readonly problem: DorkProblem, readonly position: number, readonly details: DorkErrorDetails = {}) {
+    const t = messages('en');
+    super(t.dorkProblems[problem](details));
+    this.name = 'DorkSyntaxError';
+    this.hint = t.dorkHints[problem](details);
+  }
+}
+
+type Token =
+  | { kind: 'word'; text: string; position: number }
+  | { kind: 'phrase'; text: string; position: number }
+  | { kind: 'operator'; name: DorkOperatorName; value: string; quoted: boolean; position: number }
+  | { kind: 'prefix'; sign: '-' | '+'; position: number }
+  | { kind: 'or' | 'and'; text: string; position: number }
+  | { kind: 'lparen' | 'rparen'; position: number };
+
+const OPEN_QUOTES = new Set(['"', '“', '„']);
+const CLOSE_QUOTES = new Set(['"', '”', '“']);
+// Units are symbols such as "$"; "v1..v2" is a word, not a range
+const RANGE_PATTERN = /^([^\p{L}\d.]*)(\d+(?:\.\d+)?)?\.\.([^\p{L}\d.]*)(\d+(?:\.\d+)?)?$/u;
+// What may follow a - or + that negates or requires; "--force", "++i" and "-- " are words
+const PREFIX_TARGET = /[\p{L}\p{N}"“„(*$€£_.@#]/u;
+
+function isSpace(char: string): boolean {
+  return /\s/.test(char);
+}
+
+function isOperatorName(name: string): name is DorkOperatorName {
+  return (DORK_OPERATORS as readonly string[]).includes(name);
+}
+
+// A quote straight after a digit is an inch mark, as in 6" tall, and stays part of its word
+function opensPhrase(input: string, index: number): boolean {
+  return OPEN_QUOTES.has(input[index]) && !/\d/.test(input[index - 1] ?? '');
+}
+
+function findClosingQuote(input: string, start: number): number {
+  let index = start + 1;
+  while (index < input.length && !CLOSE_QUOTES.has(input[index])) {
+    index++;
+  }
+  return index;
+}
+
+function readPhrase(input: string, start: number): { text: string; end: number } {
+  const index = findClosingQuote(input, start);
+
+  if (index >= input.length) {
+    const fragment = input.slice(start + 1, start + 21);
+    throw new DorkSyntaxError('unbalancedQuote', start, {
+      fragment: `${fragment}${input.length - start > 21 ? '…' : ''}`
+    });
+  }
+
+  return { text: input.slice(start + 1, index), end: index + 1 };
+}
+
+// Positions of parentheses that are chat text rather than grouping: a ")" that closes nothing, as in
+// "hello :-)", and a "(" with nothing after it, as in "oh no :("
+function literalParentheses(input: string): Set<number> {
+  const literal = new Set<number>();
+  const open: number[] = [];
+
+  for (let index = 0; index < input.length; index++) {
+    if (opensPhrase(input, index)) {
+      const end = findClosingQuote(input, index);
+      index = end < input.length ? end : index;
+    } else if (input[index] === '(') {
+      open.push(index);
+    } else if (input[index] === ')') {
+      if (open.length === 0) {
+        literal.add(index);
+      } else {
+        open.pop();
+      }
+    }
+  }
+
+  for (const index of open) {
+    if (input.slice(index + 1).trim() === '') {
+      literal.add(index);
+    }
+  }
+
+  return literal;
+}
+
+// A group as an operator's value, e.g. inurl:(htm|html); -1 when there is no closing ")"
+function findClosingParenthesis(input: string, start: number): number {
+  let depth = 0;
+  for (let index = start; index < input.length; index++) {
+    if (input[index] === '(') {
+      depth++;
+    } else if (input[index] === ')' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  const literal = literalParentheses(input);
+  const isGrouping = (index: number) => (input[index] === '(' || input[index] === ')') && !literal.has(index);
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (isSpace(char)) {
+      index++;
+      continue;
+    }
+
+    if (isGrouping(index)) {
+      tokens.push({ kind: char === '(' ? 'lparen' : 'rparen', position: index });
+      index++;
+      continue;
+    }
+
+    // An unclosed phrase is reported by readPhrase
+    if (opensPhrase(input, index)) {
+      const phrase = readPhrase(input, index);
+      tokens.push({ kind: 'phrase', text: phrase.text, position: index });
+      index = phrase.end;
+      continue;
+    }
+
+    // A leading - or + only negates/requires when a term follows it directly ("covid-19" stays one word)
+    const next = input[index + 1];
+    if ((char === '-' || char === '+') && next !== undefined && PREFIX_TARGET.test(next)) {
+      tokens.push({ kind: 'prefix', sign: char, position: index });
+      index++;
+      continue;
+    }
+
+    const start = index;
+    while (index < input.length && !isSpace(input[index]) && !isGrouping(index)) {
+      // name:"quoted value" keeps the phrase attached to its operator
+      if (index > start && OPEN_QUOTES.has(input[index]) && input[index - 1] === ':') {
+        break;
+      }
+      index++;
+    }
+    const word = input.slice(start, index);
+
+    if (word === 'OR' || word === '|') {
+      tokens.push({ kind: 'or', text: word, position: start });
+      continue;
+    }
+
+    if (word === 'AND') {
+      tokens.push({ kind: 'and', text: word, position: start });
+      continue;
+    }
+
+    const colon = word.indexOf(':');
+    const name = colon > 0 ? word.slice(0, colon).toLowerCase() : '';
+    if (colon > 0 && isOperatorName(name)) {
+      let value = word.slice(colon + 1);
+      let quoted = false;
+
+      if (value === '' && index < input.length && OPEN_QUOTES.has(input[index])) {
+        const phrase = readPhrase(input, index);
+        value = phrase.text;
+        quoted = true;
+        index = phrase.end;
+      } else if (value === '' && input[index] === '(') {
+        const end = findClosingParenthesis(input, index);
+        if (end === -1) {
+          throw new DorkSyntaxError('unclosedGroup', index, { operator: name });
+        }
+        value = input.slice(index, end + 1);
+        index = end + 1;
+      }
+
+      tokens.push({ kind: 'operator', name, value, quoted, position: start });
+      continue;
+    }
+
+    tokens.push({ kind: 'word', text: word, position: start });
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly source: string) {}
+
+  parse(): DorkNode {
+    const root = this.parseAnd();
+
+    const stray = this.peek();
+    if (stray) {
+      throw new DorkSyntaxError('extraParenthesis', stray.position);
+    }
+
+    return root;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private startsTerm(index: number): boolean {
+    const token = this.tokens[index];
+    return token !== undefined && token.kind !== 'rparen' && token.kind !== 'or' && token.kind !== 'and';
+  }
+
+  private parseAnd(): DorkNode {
+    const children: DorkNode[] = [];
+    let explicit = false;
+
+    while (true) {
+      const token = this.peek();
+      if (!token || token.kind === 'rparen') {
+        break;
+      }
+
+      // AND or OR without a term on both sides is a word, as in "OR gate" or "this AND"
+      if (token.kind === 'and' && children.length > 0 && this.startsTerm(this.index + 1)) {
+        this.index++;
+        explicit = true;
+        continue;
+      }
+      if (token.kind === 'and' || token.kind === 'or') {
+        this.index++;
+        children.push({ type: 'term', value: token.text, wildcard: false });
+        continue;
+      }
+
+      children.push(this.parseOr());
+    }
+
+    if (children.length === 0) {
+      const token = this.peek();
+      throw new DorkSyntaxError('emptySearch', token ? token.position : this.source.length);
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children, explicit };
+  }
+
+  // OR binds tighter than the implicit AND between terms, as it does on Google
+  private parseOr(): DorkNode {
+    const children = [this.parseUnary()];
+
+    // An OR with nothing after it is left to parseAnd as a word
+    while (this.peek()?.kind === 'or' && this.startsTerm(this.index + 1)) {
+      this.index++;
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseUnary(): DorkNode {
+    const token = this.peek();
+
+    if (token?.kind === 'prefix') {
+      this.index++;
+      const operand = this.parsePrimary();
+      return token.sign === '-' ? { type: 'not', operand } : { type: 'required', operand };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): DorkNode {
+    const token = this.tokens[this.index++];
+
+    switch (token.kind) {
+      case 'word':
+        return parseWord(token.text);
+
+      case 'phrase':
+        if (token.text.trim() === '') {
+          throw new DorkSyntaxError('emptyQuotes', token.position);
+        }
+        return { type: 'phrase', value: token.text };
+
+      case 'operator':
+        return this.parseOperator(token);
+
+      // Only reached straight after a prefix, as in -OR
+      case 'or':
+      case 'and':
+        return { type: 'term', value: token.text, wildcard: false };
+
+      case 'lparen': {
+        const next = this.peek();
+        if (!next) {
+          throw new DorkSyntaxError('unclosedParenthesis', token.position);
+        }
+        if (next.kind === 'rparen') {
+          throw new DorkSyntaxError('emptyParentheses', token.position);
+        }
+        const child = this.parseAnd();
+        if (this.peek()?.kind !== 'rparen') {
+          throw new DorkSyntaxError('unclosedParenthesis', token.position);
+        }
+        this.index++;
+        return { type: 'group', child };
+      }
+
+      default:
+        // Prefixes are consumed by parseUnary and connectives by the callers above
+        throw new DorkSyntaxError('unexpectedSymbol', token.position);
+    }
+  }
+
+  private parseOperator(token: Extract<Token, { kind: 'operator' }>): DorkNode {
+    let value = token.value;
+
+    if (ALL_IN_OPERATORS.has(token.name) && !token.quoted) {
+      // allintitle:admin panel login takes every following plain word
+      const words = value ? [value] : [];
+      while (true) {
+        const next = this.peek();
+        if (next?.kind !== 'word' && next?.kind !== 'phrase') {
+          break;
+        }
+        words.push(next.kind === 'phrase' ? `"${next.text}"` : next.text);
+        this.index++;
+      }
+      value = words.join(' ');
+    }
+
+    if (value.trim() === '') {
+      throw new DorkSyntaxError('emptyOperator', token.position, {
+        operator: token.name,
+        example: operatorExample(token.name)
+      });
+    }
+
+    if (token.name === 'numrange') {
+      const range = parseRange(value.replace('-', '..'));
+      if (!range) {
+        throw new DorkSyntaxError('invalidRange', token.position);
+      }
+      return range;
+    }
+
+    return { type: 'operator', name: token.name, value, quoted: token.quoted };
+  }
+}
+
+function parseWord(text: string): DorkNode {
+  return parseRange(text) ?? { type: 'term', value: text, wildcard: text === '*' };
+}
+
+function parseRange(text: string): RangeNode | null {
+  const match = RANGE_PATTERN.exec(text);
+  if (!match || (match[2] === undefined && match[4] === undefined)) {
+    return null;
+  }
+
+  const [, lowUnit, low, highUnit, high] = match;
+  return {
+    type: 'range',
+    low: low === undefined ? undefined : Number(low),
+    high: high === undefined ? undefined : Number(high),
+    unit: lowUnit || highUnit
+  };
+}
+
+function operatorExample(name: DorkOperatorName): string {
+  const examples: Partial<Record<DorkOperatorName, string>> = {
+    site: 'site:example.com',
+    filetype: 'filetype:pdf',
+    ext: 'ext:docx',
+    inurl: 'inurl:admin',
+    intitle: 'intitle:"index of"',
+    intext: 'intext:password',
+    daterange: 'daterange:2460000-2460300'
+  };
+  return examples[name] ?? `${name}:value`;
+}
+
+export function parseDork(query: string): DorkQuery {
+  const root = new Parser(tokenize(query), query).parse();
+  return { source: query, root };
+}
+
+export function walkDork(node: DorkNode, visit: (node: DorkNode) => void): void {
+  visit(node);
+
+  switch (node.type) {
+    case 'not':
+    case 'required':
+      walkDork(node.operand, visit);
+      break;
+    case 'or':
+    case 'and':
+      node.children.forEach(child => walkDork(child, visit));
+      break;
+    case 'group':
+      walkDork(node.child, visit);
+      break;
+  }
+}
+
+// Plain words, including ones like "covid-19" or "C++", are a normal search; anything else is a dork
+export function detectSearchType(query: DorkQuery): SearchType {
+  let isDork = false;
+
+  walkDork(query.root, node => {
+    switch (node.type) {
+      case 'phrase':
+      case 'operator':
+      case 'range':
+      case 'not':
+      case 'required':
+      case 'or':
+        isDork = true;
+        break;
+      case 'and':
+        isDork ||= node.explicit;
+        break;
+      case 'term':
+        isDork ||= node.wildcard;
+        break;
+    }
+  });
+
+  return isDork ? 'dork' : 'normal';
+}
+
+const OPERATOR_DESCRIPTIONS: Partial<Record<DorkOperatorName, string>> = {
+  site: 'searching within specific website',
+  filetype: 'filtering by file type',
+  ext: 'searching for specific file extensions',
+  inurl: 'finding pages with specific URL patterns',
+  intitle: 'searching in page titles',
+  intext: 'searching within page content',
+  cache: 'accessing cached versions',
+  link: 'finding pages linking to specific URLs',
+  related: 'finding related websites',
+  info: 'getting information about specific URLs',
+  define: 'finding definitions',
+  allinurl: 'all terms must appear in URL',
+  allintitle: 'all terms must appear in title',
+  allintext: 'all terms must appear in content',
+  inanchor: 'searching in anchor text',
+  allinanchor: 'all terms must appear in anchor text',
+  daterange: 'limiting to a date range',
+  before: 'limiting to pages before a date',
+  after: 'limiting to pages after a date'
+};
+
+// Human readable description of the query, used as search context for the AI prompts
+export function describeDork(query: DorkQuery): string {
+  const descriptions: string[] = [];
+  const logic = new Set<string>();
+
+  const addDescription = (description: string) => {
+    if (!descriptions.includes(description)) {
+      descriptions.push(description);
+    }
+  };
+
+  walkDork(query.root, node => {
+    switch (node.type) {
+      case 'operator':
+        addDescription(OPERATOR_DESCRIPTIONS[node.name] ?? `using the ${node.name}: operator`);
+        break;
+      case 'phrase':
+        addDescription('exact phrase matching');
+        break;
+      case 'or':
+        logic.add('with OR logic');
+        break;
+      case 'and':
+        if (node.explicit) {
+          logic.add('with AND logic');
+        }
+        break;
+      case 'not':
+        logic.add('with exclusions');
+        break;
+      case 'required':
+        logic.add('with required terms');
+        break;
+      case 'term':
+        if (node.wildcard) {
+          logic.add('with wildcards');
+        }
+        break;
+      case 'range':
+        logic.add('with range search');
+        break;
+    }
+  });
+
+  let context = descriptions.length > 0 ?
+    `Google Dork search (${descriptions.join(', ')})` :
+    'Advanced Google Dork search';
+
+  if (logic.size > 0) {
+    context += ` ${[...logic].join(', ')}`;
+  }
+
+  return context;
+}
+
+export function formatDorkError(error: DorkSyntaxError, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  return t.dorkError(t.dorkProblems[error.problem](error.details), t.dorkHints[error.problem](error.details));
+}
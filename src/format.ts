@@ -0,0 +1,403 @@
+// Search result formatters
+// The Telegram renderer of the shared result model in results.ts. Every piece of text that comes
+// from a search result or the model goes through the render helpers, so the output is always
+// valid Telegram HTML.
+
+import { bold, code, escapeHtml, italic, link } from './render';
+import { describeSearchParameters, type SearchRequest } from './query-builder';
+import type { SearchType } from './dork';
+import type { ReadablePage } from './reader';
+import type { PageSummary } from './ai';
+import { settingValueLabel, type UserSettings } from './settings';
+import type { Watch } from './watch';
+import type { HistoryEntry } from './history';
+import type { AccessEntry, AuditEntry } from './access';
+import type { TelegramChat, TelegramUser } from './types';
+import type { EnrichedResult, SearchInfo, SearchResponse } from './results';
+import { messages, type Locale, type Messages } from './i18n';
+
+// What a page of results is rendered from: a whole search response, or a later page rebuilt from
+// the stored search state
+export type ResultsView = Pick<SearchResponse, 'query' | 'searchType' | 'searchContext' | 'searchInfo' | 'results' | 'overview'> &
+  Partial<Pick<SearchResponse, 'request' | 'cachedAt'>>;
+
+// Escapes model text and links its [n] citations to the cited results; `offset` is the index of results[0]
+function withCitations(text: string, results: EnrichedResult[], offset: number = 0): string {
+  return escapeHtml(text).replace(/\[(\d+)\]/g, (marker, n: string) => {
+    const result = results[Number(n) - 1 - offset];
+    return result ? link(marker, result.link) : marker;
+  });
+}
+
+// Keep the original function for fallback purposes
+export function formatSearchResults(view: ResultsView, locale: Locale = 'en'): string {
+  const { query, results, overview: overallSummary, searchInfo, searchType, searchContext } = view;
+  const searchTypeIcon = searchType === 'dork' ? '🎯' : '🔍';
+  const t = messages(locale);
+
+  let message = `${searchTypeIcon} ${bold(`${searchType === 'dork' ? t.dorkResultsFor : t.resultsFor} "${query}"`)}\n\n`;
+
+  if (searchType === 'dork' && searchContext) {
+    message += `🔧 <b>${t.searchTypeLabel}</b> ${escapeHtml(searchContext)}\n\n`;
+  }
+
+  if (overallSummary) {
+    message += `🤖 <b>${t.aiOverview}</b>\n${withCitations(overallSummary, results)}\n\n`;
+  }
+
+  message += searchInfo.totalResults ?
+    `📊 ${t.foundIn(escapeHtml(searchInfo.totalResults), searchInfo.searchTime)}\n` :
+    `📊 ${t.completedIn(searchInfo.searchTime)}\n`;
+  message += `📋 <b>${t.topResults(results.length)}</b>\n\n`;
+
+  results.forEach((result, index) => {
+    message += `${bold(`${index + 1}. ${result.title}`)}\n`;
+    message += `🌐 ${escapeHtml(result.displayLink)}\n`;
+    message += `📝 ${escapeHtml(result.snippet)}\n`;
+
+    if (result.aiSummary) {
+      message += `🤖 ${italic(`${t.aiInsight} ${result.aiSummary}`)}\n`;
+    }
+
+    message += `🔗 ${link(t.readMore, result.link)}\n\n`;
+  });
+
+  message += italic(searchType === 'dork' ? t.dorkFallbackTip : t.fallbackTip);
+
+  return message;
+}
+
+// Shows what the API actually received for a dork, which can differ from what was typed
+function formatSentParameters(provider: string, searchRequest: SearchRequest, t: Messages): string {
+  let block = `🧾 <b>${t.sentTo(escapeHtml(provider))}</b>\n`;
+  describeSearchParameters(searchRequest.params).forEach(line => {
+    block += `• ${code(line)}\n`;
+  });
+  return block;
+}
+
+export function formatSearchHeader(view: ResultsView, aiSummaries: boolean = true, locale: Locale = 'en'): string {
+  const { query, searchInfo, searchType, searchContext, request: searchRequest, cachedAt } = view;
+  const provider = searchInfo.provider ?? 'Google';
+  const t = messages(locale);
+
+  let message = `${searchType === 'dork' ? '🎯' : '🔍'} <b>${searchType === 'dork' ? t.dorkResultsFor : t.resultsFor}</b>\n${code(`"${query}"`)}\n\n`;
+
+  if (searchType === 'dork' && searchContext) {
+    message += `🔧 <b>${t.searchTypeLabel}</b> ${escapeHtml(searchContext)}\n\n`;
+  }
+
+  if (searchType === 'dork' && searchRequest) {
+    message += `${formatSentParameters(provider, searchRequest, t)}\n`;
+  }
+
+  if (searchRequest && searchRequest.warnings.length > 0) {
+    message += `⚠️ <b>${t.searchNotes}</b>\n`;
+    searchRequest.warnings.forEach(warning => {
+      message += `• ${escapeHtml(warning)}\n`;
+    });
+    message += `\n`;
+  }
+
+  message += `📊 <b>${t.searchStats}</b>\n`;
+  message += `• ${t.answeredBy(escapeHtml(provider))}\n`;
+  if (searchInfo.totalResults) {
+    message += `• ${t.foundTotal(escapeHtml(searchInfo.totalResults))}\n`;
+  }
+  message += `• ${t.completedIn(searchInfo.searchTime)}\n`;
+  message += `• ${aiSummaries ? t.showingTopWithAI(view.results.length) : t.showingTop(view.results.length)}\n`;
+  if (cachedAt !== undefined) {
+    message += `• ${t.servedFromCache(Math.max(0, Math.round((Date.now() - cachedAt) / 60_000)))}\n`;
+  }
+  message += `\n`;
+  message += `⬇️ <b>${t.resultsBelow}</b>`;
+
+  return message;
+}
+
+export interface LiveResultsOptions {
+  analyzing?: boolean; // Insights and the overview are still being written
+  offset?: number; // Index of the first result, for later pages
+  locale?: Locale;
+  rankDebug?: boolean;
+}
+
+const LIVE_SNIPPET_LENGTH = 220;
+
+// All results of a page in one message, for the live display mode
+export function formatLiveResults(view: ResultsView, options: LiveResultsOptions = {}): string {
+  const { query, results, searchInfo, searchType, searchContext, request: searchRequest, cachedAt, overview } = view;
+  const { analyzing = false, offset = 0, locale = 'en', rankDebug = false } = options;
+  const provider = searchInfo.provider ?? 'Google';
+  const t = messages(locale);
+
+  let message = `${searchType === 'dork' ? '🎯' : '🔍'} <b>${searchType === 'dork' ? t.dorkResultsFor : t.resultsFor}</b> ${code(query)}\n`;
+  if (searchType === 'dork' && searchContext) {
+    message += `🔧 ${escapeHtml(searchContext)}\n`;
+  }
+  if (searchType === 'dork' && searchRequest) {
+    message += formatSentParameters(provider, searchRequest, t);
+  }
+
+  const stats = [t.answeredBy(escapeHtml(provider))];
+  if (searchInfo.totalResults) {
+    stats.push(t.resultCount(escapeHtml(searchInfo.totalResults)));
+  }
+  stats.push(`${searchInfo.searchTime} s`);
+  if (cachedAt !== undefined) {
+    stats.push(t.cachedAgo(Math.max(0, Math.round((Date.now() - cachedAt) / 60_000))));
+  }
+  message += `📊 ${stats.join(' · ')}\n`;
+
+  if (searchRequest && searchRequest.warnings.length > 0) {
+    searchRequest.warnings.forEach(warning => {
+      message += `⚠️ ${escapeHtml(warning)}\n`;
+    });
+  }
+  message += `\n`;
+
+  if (overview) {
+    message += `🤖 <b>${t.aiOverview}</b>\n${withCitations(overview, results, offset)}\n\n`;
+  } else if (analyzing && offset === 0) {
+    message += `🤖 ${italic(t.writingOverview)}\n\n`;
+  }
+
+  results.forEach((result, index) => {
+    const snippet = result.snippet.length > LIVE_SNIPPET_LENGTH ? `${result.snippet.slice(0, LIVE_SNIPPET_LENGTH - 1)}…` : result.snippet;
+    message += `<b>${offset + index + 1}.</b> ${link(result.title, result.link)}\n`;
+    message += `🌐 ${escapeHtml(result.displayLink)}${result.fromCache ? ' · ⚡' : ''}\n`;
+    message += `📝 ${escapeHtml(snippet)}\n`;
+    if (rankDebug) {
+      message += `${formatRankDebug(result, offset + index + 1, t)}\n`;
+    }
+    if (result.aiSummary) {
+      message += `🤖 ${italic(result.aiSummary)}\n`;
+    } else if (analyzing) {
+      message += `🤖 ${italic(t.analyzing)}\n`;
+    }
+    message += `\n`;
+  });
+
+  message += italic(analyzing ? t.analysisInProgress : t.resultsTip);
+  return message;
+}
+
+export function formatAIOverview(overallSummary: string, results: EnrichedResult[] = [], locale: Locale = 'en'): string {
+  const t = messages(locale);
+  return `🤖 <b>${t.aiOverview}</b>\n\n${withCitations(overallSummary, results)}\n\n📋 <b>${t.detailedResults}</b>`;
+}
+
+// Where the provider ranked the result, where it is shown now and what was folded into it
+function formatRankDebug(result: EnrichedResult, position: number, t: Messages): string {
+  if (!result.rank) {
+    return `🧪 #${position} · ${t.rankProviderOrder}`;
+  }
+  let line = `🧪 #${result.rank.original} → #${position} · ${t.rankRelevance(result.rank.relevance.toFixed(3))}`;
+  if (result.rank.merged.length > 0) {
+    line += ` · ${t.rankMerged(escapeHtml(result.rank.merged.join(', ')))}`;
+  }
+  return line;
+}
+
+export function formatIndividualResult(result: EnrichedResult, index: number, rankDebug: boolean = false, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  let message = `📄 ${bold(`${t.resultNumber(index)}: ${result.title}`)}\n\n`;
+
+  message += `🌐 <b>${t.source}</b> ${escapeHtml(result.displayLink)}${result.fromCache ? ` · ⚡ ${t.cached}` : ''}\n\n`;
+
+  if (rankDebug) {
+    message += `${formatRankDebug(result, index, t)}\n\n`;
+  }
+
+  message += `📝 <b>${t.description}</b>\n${escapeHtml(result.snippet)}\n\n`;
+
+  if (result.aiSummary) {
+    message += `🤖 <b>${result.aiSummaryFromCache ? t.aiInsightCached : t.aiInsight}</b>\n${italic(result.aiSummary)}\n\n`;
+  }
+
+  message += `🔗 <b>${link(t.readFullArticle, result.link)}</b>`;
+
+  return message;
+}
+
+export function formatSearchFooter(searchType: SearchType = 'normal', locale: Locale = 'en'): string {
+  const t = messages(locale);
+  return `✅ <b>${t.searchComplete}</b>\n\n${searchType === 'dork' ? t.dorkSearchTips : t.searchTips}`;
+}
+
+export function formatPageFooter(offset: number, count: number, searchInfo: SearchInfo, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  const range = t.pageRange(offset + 1, offset + count);
+  const total = searchInfo.totalResults ? t.pageTotal(escapeHtml(searchInfo.totalResults)) : '';
+  const provider = searchInfo.provider ? t.pageProvider(escapeHtml(searchInfo.provider)) : '';
+  return `${range}${total}${provider}`;
+}
+
+export function formatAllLinks(query: string, results: EnrichedResult[], locale: Locale = 'en'): string {
+  let message = `🔗 <b>${messages(locale).allLinksFor}</b> ${code(query)}\n\n`;
+
+  results.forEach((result, index) => {
+    message += `${index + 1}. ${link(result.title, result.link)}\n`;
+  });
+
+  return message;
+}
+
+export function formatPageSummary(page: ReadablePage, summary: PageSummary, fromCache: boolean = false, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  let message = `📖 ${bold(t.pageSummaryTitle(page.title))}\n`;
+  message += `🌐 ${escapeHtml(new URL(page.url).hostname)} · ${t.aboutWords(page.wordCount)}${fromCache ? ` · ⚡ ${t.cached}` : ''}\n\n`;
+
+  if (summary.tldr) {
+    message += `📝 <b>${t.tldr}</b>\n${escapeHtml(summary.tldr)}\n\n`;
+  }
+
+  if (summary.keyPoints.length > 0) {
+    message += `🔑 <b>${t.keyPoints}</b>\n`;
+    summary.keyPoints.forEach(point => {
+      message += `• ${escapeHtml(point)}\n`;
+    });
+    message += `\n`;
+  }
+
+  if (page.truncated) {
+    message += `${italic(t.pageTruncated)}\n\n`;
+  }
+
+  message += `🔗 <b>${link(t.openThePage, page.url)}</b>`;
+
+  return message;
+}
+
+export function formatFollowUpAnswer(query: string, answer: string, results: EnrichedResult[] = [], locale: Locale = 'en'): string {
+  const t = messages(locale);
+  let message = `💬 <b>${t.aboutYourSearch}</b> ${code(query)}\n\n`;
+  message += `${withCitations(answer, results)}\n\n`;
+  message += italic(t.followUpTip);
+  return message;
+}
+
+export function formatSettings(settings: UserSettings, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  const labels = t.settingLabels;
+  let message = `⚙️ <b>${t.settingsTitle}</b>\n\n`;
+  message += `${labels.resultCount}: ${settings.resultCount}\n`;
+  message += `${labels.language}: ${escapeHtml(settingValueLabel(settings, 'language', locale))}\n`;
+  message += `${labels.region}: ${escapeHtml(settingValueLabel(settings, 'region', locale))}\n`;
+  message += `${labels.safeSearch}: ${settingValueLabel(settings, 'safeSearch', locale)}\n`;
+  message += `${labels.aiSummaries}: ${settings.aiSummaries ? t.on : t.off}\n`;
+  message += `${labels.summaryLength}: ${settingValueLabel(settings, 'summaryLength', locale)}\n`;
+  message += `${labels.display}: ${settingValueLabel(settings, 'display', locale)}\n`;
+  message += `${labels.rankDebug}: ${settings.rankDebug ? t.on : t.off}\n\n`;
+  message += italic(t.settingsTip);
+  return message;
+}
+
+export function formatWatchCreated(watch: Watch, baseline: number, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  let message = `👀 <b>${t.watching}</b> ${code(watch.query)}\n\n`;
+  message += `${t.watchCreated(watch.frequency === 'hourly', baseline)}\n\n`;
+  message += italic(t.watchCreatedTip(watch.id));
+  return message;
+}
+
+export function formatWatchList(watches: Watch[], locale: Locale = 'en', now: number = Date.now()): string {
+  const t = messages(locale);
+  if (watches.length === 0) {
+    return t.noWatches;
+  }
+
+  let message = `👀 <b>${t.watchesTitle}</b>\n\n`;
+  watches.forEach(watch => {
+    const minutes = Math.max(0, Math.round((now - watch.lastRunAt) / 60_000));
+    const checked = minutes < 60 ? t.minutesAgo(minutes) : t.hoursAgo(Math.round(minutes / 60));
+    message += `<b>#${watch.id}</b> ${code(watch.query)}\n`;
+    message += `• ${t.watchSchedule(watch.frequency === 'hourly', checked)}\n\n`;
+  });
+  message += italic(t.watchesTip);
+  return message;
+}
+
+export function formatWatchAlert(watch: Watch, count: number, locale: Locale = watch.locale): string {
+  const t = messages(locale);
+  let message = `🔔 <b>${t.newResultsFor(count)}</b> ${code(watch.query)}\n\n`;
+  message += italic(t.watchAlertTip(watch.id));
+  return message;
+}
+
+export function formatHistory(entries: HistoryEntry[], locale: Locale = 'en'): string {
+  const t = messages(locale);
+  if (entries.length === 0) {
+    return t.noHistory;
+  }
+
+  let message = `🕘 <b>${t.historyTitle}</b>\n\n`;
+  entries.forEach((entry, index) => {
+    const when = new Date(entry.createdAt).toISOString().slice(0, 16).replace('T', ' ');
+    message += `${index + 1}. ${code(entry.query)}\n`;
+    message += `   ${entry.searchType === 'dork' ? '🎯' : '🔍'} ${when} UTC · ${t.resultTotal(entry.results.length)}\n`;
+  });
+  message += `\n${italic(t.historyTip)}`;
+  return message;
+}
+
+function timestamp(ms: number): string {
+  return `${new Date(ms).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function describeUser(user: TelegramUser): string {
+  return user.username ? `@${escapeHtml(user.username)}` : escapeHtml(user.first_name);
+}
+
+// Sent to each admin, with the approve and decline buttons under it
+export function formatApprovalRequest(entry: AuditEntry, user: TelegramUser, chat: TelegramChat, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  const where = chat.type === 'private' ? t.aPrivateChat : `${escapeHtml(chat.title ?? t.aGroup)} (${chat.id})`;
+  let message = `🛂 <b>${t.approvalWaiting}</b> ${code(entry.query)}\n\n`;
+  message += `👤 ${t.askedIn(describeUser(user), entry.userId, where)}\n`;
+  message += `📋 ${escapeHtml(entry.reason)}`;
+  return message;
+}
+
+export function formatApprovalDecision(entry: AuditEntry, admin: TelegramUser, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  const approved = entry.outcome === 'approved';
+  let message = `${approved ? '✅' : '❌'} <b>${approved ? t.approvedBy(describeUser(admin)) : t.declinedBy(describeUser(admin))}</b> ${code(entry.query)}\n\n`;
+  message += `👤 ${entry.userId} · 📋 ${escapeHtml(entry.reason)}`;
+  return message;
+}
+
+export function formatAccessList(entries: AccessEntry[], configuredAdmins: Set<number>, locale: Locale = 'en'): string {
+  const t = messages(locale);
+  let message = `🔐 <b>${t.accessListTitle}</b>\n\n`;
+  if (configuredAdmins.size > 0) {
+    message += `👑 ${t.envAdmins([...configuredAdmins].join(', '))}\n`;
+  }
+  entries.forEach(entry => {
+    const icon = entry.role === 'admin' ? '👑' : entry.subjectType === 'chat' ? '👥' : '👤';
+    message += `${icon} ${t.listedSubject(entry.subjectType === 'chat', entry.subjectId, entry.role === 'admin')}\n`;
+  });
+  if (entries.length === 0) {
+    message += `${t.accessListEmpty}\n`;
+  }
+  message += `\n${italic(t.accessListTip)}`;
+  return message;
+}
+
+const OUTCOME_ICONS: Record<AuditEntry['outcome'], string> = { blocked: '🚫', pending: '🛂', approved: '✅', rejected: '❌' };
+
+export function formatAuditLog(entries: AuditEntry[], locale: Locale = 'en'): string {
+  const t = messages(locale);
+  if (entries.length === 0) {
+    return `📒 <b>${t.noDenials}</b>`;
+  }
+
+  let message = `📒 <b>${t.recentDenials}</b>\n\n`;
+  entries.forEach(entry => {
+    const where = entry.chatId === null ? t.deniedInline : entry.chatId === entry.userId ? t.deniedInPrivate : t.deniedInChat(entry.chatId);
+    message += `${OUTCOME_ICONS[entry.outcome]} ${code(entry.query)}\n`;
+    message += `   ${timestamp(entry.createdAt)} · ${t.deniedUserRole(entry.userId, entry.role)} · ${where}\n`;
+    message += `   ${escapeHtml(entry.reason)}${entry.decidedBy !== null ? ` · ${t.decidedBy(entry.outcome === 'approved', entry.decidedBy)}` : ''}\n`;
+  });
+  return message;
+}
@@ -0,0 +1,57 @@
+// Group chat handling
+// In groups the bot only acts when it is addressed: /search, an @mention of its username, a reply
+// to one of its own messages, or a command that is not meant for another bot.
+
+import type { Environment, TelegramChat, TelegramMessage } from './types';
+import * as telegram from './telegram';
+
+export interface BotCommand {
+  name: string; // Lower case, without the slash
+  args: string;
+  target?: string; // The bot named in /cmd@botname, lower case
+}
+
+let resolvedUsername: string | undefined;
+
+export function isGroupChat(chat: TelegramChat): boolean {
+  return chat.type === 'group' || chat.type === 'supergroup';
+}
+
+export function parseCommand(text: string): BotCommand | null {
+  const match = /^\/([a-z0-9_]+)(?:@([a-z0-9_]+))?(?:\s+([\s\S]*))?$/i.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+
+  return { name: match[1].toLowerCase(), args: (match[3] ?? '').trim(), target: match[2]?.toLowerCase() };
+}
+
+// The bot's own username, from config or else asked from Telegram once per isolate
+export async function getBotUsername(env: Environment): Promise<string> {
+  if (env.TELEGRAM_BOT_USERNAME) {
+    return env.TELEGRAM_BOT_USERNAME.replace(/^@/, '').toLowerCase();
+  }
+
+  if (resolvedUsername === undefined) {
+    const me = await telegram.getMe(env);
+    resolvedUsername = (me.username ?? '').toLowerCase();
+  }
+  return resolvedUsername;
+}
+
+// The search text of a group message addressed to the bot, or null when the bot was not addressed
+export function extractGroupQuery(message: TelegramMessage, username: string): string | null {
+  const text = message.text ?? '';
+  // Usernames are letters, digits and underscores, so they are safe inside a pattern
+  const mention = new RegExp(`(^|\\s)@${username}(?![a-z0-9_])`, 'i');
+
+  if (username && mention.test(text)) {
+    return text.replace(mention, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  if (username && message.reply_to_message?.from?.username?.toLowerCase() === username) {
+    return text.trim();
+  }
+
+  return null;
+}
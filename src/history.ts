@@ -0,0 +1,166 @@
+// Per-user search history for /history, /export and /forget
+// Each search is stored with the results that were shown and their AI insights, so an export
+// holds exactly what the user saw. Only the most recent searches per user are kept.
+
+import type { SearchType } from './dork';
+import type { EnrichedResult } from './results';
+import type { ProviderName } from './providers/provider';
+import type { InlineKeyboardButton, InlineKeyboardMarkup } from './telegram';
+
+export type ExportFormat = 'csv' | 'json';
+
+export interface HistoryEntry {
+  id: number;
+  userId: number;
+  chatId: number;
+  query: string;
+  searchType: SearchType;
+  provider: ProviderName;
+  overview: string;
+  results: EnrichedResult[];
+  createdAt: number;
+}
+
+interface HistoryRow {
+  id: number;
+  user_id: number;
+  chat_id: number;
+  query: string;
+  search_type: SearchType;
+  provider: ProviderName;
+  overview: string;
+  results: string;
+  created_at: number;
+}
+
+const MAX_ENTRIES_PER_USER = 100;
+export const HISTORY_PAGE_SIZE = 10;
+export const DEFAULT_EXPORT_COUNT = 10;
+
+function toEntry(row: HistoryRow): HistoryEntry {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    chatId: row.chat_id,
+    query: row.query,
+    searchType: row.search_type,
+    provider: row.provider,
+    overview: row.overview,
+    results: JSON.parse(row.results),
+    createdAt: row.created_at
+  };
+}
+
+export async function recordSearch(entry: Omit<HistoryEntry, 'id'>, db: D1Database): Promise<void> {
+  // Cache flags only matter for the message they were shown in
+  const results = entry.results.map(({ title, link, snippet, displayLink, aiSummary }) => ({ title, link, snippet, displayLink, aiSummary }));
+
+  await db.batch([
+    db.prepare(
+      'INSERT INTO search_history (user_id, chat_id, query, search_type, provider, overview, results, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    ).bind(entry.userId, entry.chatId, entry.query, entry.searchType, entry.provider, entry.overview, JSON.stringify(results), entry.createdAt),
+    db.prepare(
+      'DELETE FROM search_history WHERE user_id = ? AND id NOT IN (SELECT id FROM search_history WHERE user_id = ? ORDER BY id DESC LIMIT ?)'
+    ).bind(entry.userId, entry.userId, MAX_ENTRIES_PER_USER)
+  ]);
+}
+
+// Newest first
+export async function recentSearches(userId: number, limit: number, db: D1Database): Promise<HistoryEntry[]> {
+  const { results } = await db.prepare('SELECT * FROM search_history WHERE user_id = ? ORDER BY id DESC LIMIT ?')
+    .bind(userId, Math.min(Math.max(limit, 1), MAX_ENTRIES_PER_USER))
+    .all<HistoryRow>();
+  return results.map(toEntry);
+}
+
+// Scoped to the user, so a re-run button only works for whoever owns the entry
+export async function getSearch(userId: number, entryId: number, db: D1Database): Promise<HistoryEntry | null> {
+  const row = await db.prepare('SELECT * FROM search_history WHERE id = ? AND user_id = ?').bind(entryId, userId).first<HistoryRow>();
+  return row ? toEntry(row) : null;
+}
+
+// Removes the user's history, the saved searches they created and their access requests;
+// returns how many searches and watches went
+export async function forgetUser(userId: number, db: D1Database): Promise<{ searches: number; watches: number }> {
+  const [searches, , watches] = await db.batch([
+    db.prepare('DELETE FROM search_history WHERE user_id = ?').bind(userId),
+    db.prepare('DELETE FROM watch_seen_urls WHERE watch_id IN (SELECT id FROM watches WHERE user_id = ?)').bind(userId),
+    db.prepare('DELETE FROM watches WHERE user_id = ?').bind(userId),
+    db.prepare('DELETE FROM access_audit WHERE user_id = ?').bind(userId)
+  ]);
+  return { searches: searches.meta.changes, watches: watches.meta.changes };
+}
+
+// "[n] [csv|json]" in any order
+export function parseExportArgs(args: string): { count: number; format: ExportFormat } | null {
+  let count = DEFAULT_EXPORT_COUNT;
+  let format: ExportFormat = 'csv';
+
+  for (const word of args.trim().split(/\s+/).filter(Boolean)) {
+    if (/^\d+$/.test(word) && Number(word) > 0) {
+      count = Math.min(Number(word), MAX_ENTRIES_PER_USER);
+    } else if (/^(csv|json)$/i.test(word)) {
+      format = word.toLowerCase() as ExportFormat;
+    } else {
+      return null;
+    }
+  }
+
+  return { count, format };
+}
+
+export function parseHistoryData(data: string): { entryId: number } | null {
+  const match = data.match(/^hs:(\d+)$/);
+  return match ? { entryId: Number(match[1]) } : null;
+}
+
+// One re-run button per listed search, numbered like the list
+export function buildHistoryKeyboard(entries: HistoryEntry[]): InlineKeyboardMarkup {
+  const buttons: InlineKeyboardButton[] = entries.map((entry, index) => ({ text: `🔁 ${index + 1}`, callback_data: `hs:${entry.id}` }));
+  const rows: InlineKeyboardButton[][] = [];
+  for (let i = 0; i < buttons.length; i += 5) {
+    rows.push(buttons.slice(i, i + 5));
+  }
+  return { inline_keyboard: rows };
+}
+
+// Spreadsheets run cells starting with these as formulas, so text cells get a leading quote
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(value: string | number): string {
+  const text = typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per result; a search without results still gets a row
+export function toCsv(entries: HistoryEntry[]): string {
+  const header = ['searched_at', 'query', 'search_type', 'provider', 'rank', 'title', 'url', 'snippet', 'ai_insight', 'overview'];
+  const rows = entries.flatMap(entry => {
+    const base = [new Date(entry.createdAt).toISOString(), entry.query, entry.searchType, entry.provider];
+    if (entry.results.length === 0) {
+      return [[...base, '', '', '', '', '', entry.overview]];
+    }
+    return entry.results.map((result, index) => [
+      ...base, index + 1, result.title, result.link, result.snippet, result.aiSummary ?? '', index === 0 ? entry.overview : ''
+    ]);
+  });
+
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+export function toJson(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries.map(entry => ({
+    searchedAt: new Date(entry.createdAt).toISOString(),
+    query: entry.query,
+    searchType: entry.searchType,
+    provider: entry.provider,
+    overview: entry.overview,
+    results: entry.results.map((result, index) => ({
+      rank: index + 1,
+      title: result.title,
+      url: result.link,
+      snippet: result.snippet,
+      aiInsight: result.aiSummary ?? null
+    }))
+  })), null, 2);
+}
@@ -0,0 +1,331 @@
+// Message catalog and language detection
+// Static bot text comes from a catalog per locale. The language a search runs and is answered in
+// is the one chosen with /lang, else the one the query is written in, else the Telegram app's
+// language. Detection only uses the script and common words, so short or ambiguous queries
+// fall through to the next source instead of being guessed.
+
+import { LANGUAGES, type ResultDisplay, type SafeSearchLevel, type SettingsField, type SummaryLength } from './settings';
+import type { LimitPeriod } from './rate-limit';
+import type { DorkErrorDetails, DorkProblem } from './dork';
+import type { PageReadProblem } from './reader';
+import { en } from './locales/en';
+import { es } from './locales/es';
+import { ru } from './locales/ru';
+
+export type Locale = 'en' | 'es' | 'ru';
+
+export interface Messages {
+  welcome: string;
+  help: string;
+  dorkHelp: string;
+  dorkExamples: string;
+
+  searching: string;
+  searchingDork: string;
+  noResults: string;
+  noResultsDork: string;
+  searchError: string;
+  aiBudgetExhausted: string;
+  noMoreResults: string;
+
+  newSession: string;
+  searchUsage: string;
+  readUsage: string;
+  readingPage: string;
+  pageBudgetExhausted: string;
+  pageReadError: (reason: string) => string;
+  pageSummaryError: string;
+  pageReadProblems: Record<PageReadProblem, (detail: string) => string>;
+
+  // Google Dork syntax errors: what is wrong and how to fix it
+  dorkError: (problem: string, hint: string) => string;
+  dorkProblems: Record<DorkProblem, (details: DorkErrorDetails) => string>;
+  dorkHints: Record<DorkProblem, (details: DorkErrorDetails) => string>;
+
+  // Search notes about parts of a query the provider could not take
+  leftOut: (operator: string) => string;
+  mayBeIgnored: (operator: string) => string;
+  invalidDateRange: (value: string) => string;
+  oneDateRange: string;
+  dateRangeEndIgnored: (days: number) => string;
+  dateRangeUnsupported: (provider: string) => string;
+  searchedAsText: (operator: string, provider: string, value: string) => string;
+  rangesUnsupported: (provider: string) => string;
+  providerOutOfQuota: (provider: string) => string;
+  providerUnavailable: (provider: string) => string;
+  answeredInstead: (problems: string, provider: string) => string;
+
+  watchUsage: string;
+  watchLimit: (max: number) => string;
+  unwatchUsage: string;
+  watchStopped: (id: number) => string;
+  watchNotFound: (id: number) => string;
+
+  exportUsage: string;
+  exportEmpty: string;
+  exportCaption: (count: number) => string;
+  forgotten: (searches: number, watches: number) => string;
+
+  langCurrent: (language: string) => string;
+  langAuto: string;
+  langChanged: (language: string) => string;
+  langUsage: (codes: string) => string;
+
+  // Access control
+  dorkMembersOnly: string;
+  accessBlocked: (reason: string) => string;
+  approvalRequested: string;
+  approvalDeclined: (query: string) => string;
+  watchNeedsApproval: string;
+  adminOnly: string;
+  accessControlOff: string;
+  allowUsage: string;
+  denyUsage: string;
+  allowedUser: (id: number) => string;
+  allowedAdmin: (id: number) => string;
+  allowedChat: (id: number) => string;
+  deniedUser: (id: number) => string;
+  deniedChat: (id: number) => string;
+  notListed: (id: number) => string;
+  configuredAdmin: (id: number) => string;
+  approve: string;
+  decline: string;
+  approvalWaiting: string;
+  askedIn: (user: string, id: number, where: string) => string;
+  aPrivateChat: string;
+  aGroup: string;
+  approvedBy: (admin: string) => string;
+  declinedBy: (admin: string) => string;
+  accessListTitle: string;
+  envAdmins: (ids: string) => string;
+  listedSubject: (chat: boolean, id: number, admin: boolean) => string;
+  accessListEmpty: string;
+  accessListTip: string;
+  noDenials: string;
+  recentDenials: string;
+  deniedInline: string;
+  deniedInPrivate: string;
+  deniedInChat: (id: number) => string;
+  deniedUserRole: (id: number, role: string) => string;
+  decidedBy: (approved: boolean, admin: number) => string;
+
+  // Single-message results
+  resultsFor: string;
+  dorkResultsFor: string;
+  answeredBy: (provider: string) => string;
+  resultCount: (total: string) => string;
+  cachedAgo: (minutes: number) => string;
+  aiOverview: string;
+  writingOverview: string;
+  analyzing: string;
+  analysisInProgress: string;
+  resultsTip: string;
+
+  // Message-per-result display
+  searchTypeLabel: string;
+  sentTo: (provider: string) => string;
+  searchNotes: string;
+  searchStats: string;
+  foundTotal: (total: string) => string;
+  completedIn: (seconds: number) => string;
+  showingTop: (count: number) => string;
+  showingTopWithAI: (count: number) => string;
+  servedFromCache: (minutes: number) => string;
+  resultsBelow: string;
+  resultNumber: (index: number) => string;
+  source: string;
+  cached: string;
+  description: string;
+  aiInsight: string;
+  aiInsightCached: string;
+  aiUnavailable: string;
+  readFullArticle: string;
+  searchComplete: string;
+  searchTips: string;
+  dorkSearchTips: string;
+  pageRange: (from: number, to: number) => string;
+  pageTotal: (total: string) => string;
+  pageProvider: (provider: string) => string;
+  detailedResults: string;
+  rankProviderOrder: string;
+  rankRelevance: (score: string) => string;
+  rankMerged: (links: string) => string;
+
+  // Everything in one message, when sending them one by one failed
+  foundIn: (total: string, seconds: number) => string;
+  topResults: (count: number) => string;
+  readMore: string;
+  fallbackTip: string;
+  dorkFallbackTip: string;
+
+  // All links and full page summaries
+  allLinksFor: string;
+  pageSummaryTitle: (title: string) => string;
+  aboutWords: (count: number) => string;
+  tldr: string;
+  keyPoints: string;
+  pageTruncated: string;
+  openThePage: string;
+
+  // Result buttons and their answers
+  summarizePage: string;
+  previousPage: (size: number) => string;
+  nextPage: (size: number) => string;
+  showAllLinks: string;
+  searchExpired: string;
+  historyExpired: string;
+  adminsDecide: string;
+  approved: string;
+  declined: string;
+  alreadyDecided: string;
+
+  // Inline mode
+  openPage: string;
+  insightOnItsWay: string;
+  searchNotAllowed: string;
+  searchLimitReached: string;
+  askAdminInChat: (reason: string) => string;
+
+  // Rate limits
+  rateLimited: (max: number, period: string) => string;
+  retryAt: (wait: string, time: string) => string;
+  limitPeriods: Record<LimitPeriod, string>;
+  seconds: (count: number) => string;
+  minutes: (count: number) => string;
+  hours: (count: number) => string;
+
+  // Settings
+  settingsTitle: string;
+  settingsTip: string;
+  settingLabels: Record<SettingsField | 'aiSummaries' | 'rankDebug', string>;
+  safeSearchLevels: Record<SafeSearchLevel, string>;
+  summaryLengths: Record<SummaryLength, string>;
+  displayModes: Record<ResultDisplay, string>;
+  auto: string;
+  on: string;
+  off: string;
+  resetSettings: string;
+  settingsReset: string;
+  back: string;
+
+  // Saved searches and history
+  noWatches: string;
+  watchesTitle: string;
+  watchSchedule: (hourly: boolean, checked: string) => string;
+  minutesAgo: (minutes: number) => string;
+  hoursAgo: (hours: number) => string;
+  watchesTip: string;
+  noHistory: string;
+  historyTitle: string;
+  resultTotal: (count: number) => string;
+  historyTip: string;
+  watching: string;
+  watchCreated: (hourly: boolean, baseline: number) => string;
+  watchCreatedTip: (id: number) => string;
+  newResultsFor: (count: number) => string;
+  watchAlertTip: (id: number) => string;
+
+  // Follow-up answers
+  aboutYourSearch: string;
+  followUpTip: string;
+
+  // Command menu descriptions by command name, in menu order
+  commands: Record<string, string>;
+}
+
+const CATALOG: Record<Locale, Messages> = { en, es, ru };
+
+export const LOCALES = Object.keys(CATALOG) as Locale[];
+
+// English names, for telling the model which language to write in
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', it: 'Italian', pt: 'Portuguese',
+  ru: 'Russian', uk: 'Ukrainian', tr: 'Turkish', pl: 'Polish', ja: 'Japanese'
+};
+
+// Frequent short words of each language written in Latin script; many are shared, so one match rarely decides alone
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'what', 'how', 'why', 'is', 'are', 'of', 'for', 'with', 'to', 'in', 'best', 'does', 'do', 'can', 'who', 'when', 'where', 'which', 'vs'],
+  es: ['el', 'la', 'los', 'las', 'de', 'del', 'que', 'qué', 'cómo', 'como', 'por', 'para', 'con', 'una', 'un', 'es', 'son', 'mejor', 'mejores', 'cuál', 'dónde', 'y', 'en'],
+  fr: ['le', 'la', 'les', 'des', 'du', 'de', 'est', 'et', 'pour', 'avec', 'comment', 'quel', 'quelle', 'pourquoi', 'une', 'un', 'dans', 'meilleur'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'wie', 'was', 'für', 'mit', 'ein', 'eine', 'nicht', 'warum', 'beste', 'den', 'im'],
+  it: ['il', 'lo', 'gli', 'della', 'di', 'che', 'come', 'perché', 'per', 'con', 'una', 'è', 'sono', 'migliore', 'nel'],
+  pt: ['o', 'os', 'as', 'do', 'da', 'dos', 'das', 'que', 'como', 'para', 'com', 'uma', 'um', 'é', 'são', 'melhor', 'em', 'não', 'por'],
+  tr: ['ve', 'bir', 'bu', 'için', 'ile', 'nasıl', 'nedir', 'en', 'iyi', 'mi', 'ne', 'neden'],
+  pl: ['i', 'w', 'z', 'na', 'do', 'jak', 'co', 'jest', 'dla', 'czy', 'się', 'najlepsze', 'nie', 'to']
+};
+
+// Letters that only a few of those languages use
+const DISTINCT_LETTERS: Record<string, RegExp> = {
+  es: /[ñ¿¡]/g,
+  fr: /[èêœùûîïë]/g,
+  de: /[äöüß]/g,
+  it: /[òì]/g,
+  pt: /[ãõ]/g,
+  tr: /[ğşı]/g,
+  pl: /[ąęłńśźżć]/g
+};
+
+// Operators such as site:example.com and URLs say nothing about the language
+function searchWords(query: string): string {
+  return query
+    .replace(/https?:\/\/\S+/gi, ' ')
+    .replace(/(^|\s)[-+]?[a-z]+:("[^"]*"|\S+)/gi, ' ')
+    .toLowerCase();
+}
+
+// ISO 639-1 code of the query's language, or undefined when it is not clear
+export function detectLanguage(query: string): string | undefined {
+  const text = searchWords(query);
+
+  if (/[぀-ヿ]/.test(text)) {
+    return 'ja';
+  }
+  if (/[Ѐ-ӿ]/.test(text)) {
+    return /[іїєґ]/.test(text) ? 'uk' : 'ru';
+  }
+
+  const words = text.match(/\p{L}+/gu) ?? [];
+  const scores = new Map<string, number>();
+  for (const [language, common] of Object.entries(COMMON_WORDS)) {
+    const letters = DISTINCT_LETTERS[language] ? (text.match(DISTINCT_LETTERS[language]) ?? []).length : 0;
+    const score = words.filter(word => common.includes(word)).length + letters * 2;
+    if (score > 0) {
+      scores.set(language, score);
+    }
+  }
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0 || (ranked.length > 1 && ranked[0][1] === ranked[1][1])) {
+    return undefined;
+  }
+  return ranked[0][0];
+}
+
+// "es-419" and "pt-br" as the bare language code, if it is one the bot supports
+function baseLanguage(languageCode?: string): string | undefined {
+  const base = languageCode?.split('-')[0].toLowerCase();
+  return base && base !== 'auto' && Object.prototype.hasOwnProperty.call(LANGUAGES, base) ? base : undefined;
+}
+
+// The language a search runs and is answered in: the /lang choice, the query's, then the Telegram app's
+export function resolveLanguage(query: string, setting: string, languageCode?: string): string | undefined {
+  if (setting !== 'auto') {
+    return setting;
+  }
+  return detectLanguage(query) ?? baseLanguage(languageCode);
+}
+
+function isLocale(language: string | undefined): language is Locale {
+  return language !== undefined && Object.prototype.hasOwnProperty.call(CATALOG, language);
+}
+
+// Locale of the bot's own messages: the /lang choice or the Telegram app's language, if there is a catalog for it
+export function uiLocale(setting: string, languageCode?: string): Locale {
+  const language = setting !== 'auto' ? setting : baseLanguage(languageCode);
+  return isLocale(language) ? language : 'en';
+}
+
+export function messages(locale: Locale): Messages {
+  return CATALOG[locale] ?? CATALOG.en;
+}
@@ -1,678 +1,965 @@
-// Keep the original function for fallback purposes
-function formatSearchResults(query: string, results: any[], overallSummary: string, searchInfo: any, searchType: 'normal' | 'dork' = 'normal', searchContext: string = ''): string {
-  const searchTypeIcon = searchType === 'dork' ? '🎯' : '🔍';
-  const searchTypeText = searchType === 'dork' ? 'Google Dork' : 'Search';
-  
-  let message = `${searchTypeIcon} **${searchTypeText} Results for: "${query}"**\n\n`;
-  
-  if (searchType === 'dork' && searchContext) {
-    message += `🔧 **Search Type:** ${searchContext}\n\n`;
-  }
-  
-  if (overallSummary) {
-    message += `🤖 **AI Overview:**\n${overallSummary}\n\n`;
-  }
-  
-  message += `📊 Found ${searchInfo.totalResults} results in ${searchInfo.searchTime} seconds\n`;
-  message += `📋 **Top 3 Results:**\n\n`;
-  
-  results.forEach((result, index) => {
-    message += `**${index + 1}. ${result.title}**\n`;
-    message += `🌐 ${result.displayLink}\n`;
-    message += `📝 ${result.snippet}\n`;
-    
-    if (result.aiSummary) {
-      message += `🤖 *AI Insight: ${result.aiSummary}*\n`;
-    }
-    
-    message += `🔗 [Read more](${result.link})\n\n`;
-  });
-  
-  const tipText = searchType === 'dork' ? 
-    '💡 *Tip: Try /examples for Google Dork examples or ask me anything else!*' :
-    '💡 *Tip: Use Google Dork operators for specific searches or ask me anything else!*';
-  
-  message += tipText;
-  
-  return message;
-}// Cloudflare Worker for AI Search Engine Telegram Bot
+// Cloudflare Worker for AI Search Engine Telegram Bot
 // This bot integrates Google Custom Search API with Cloudflare AI for intelligent search results
 
-interface Environment {
-  TELEGRAM_BOT_TOKEN: string;
-  GOOGLE_SEARCH_API_KEY: string;
-  GOOGLE_SEARCH_ENGINE_ID: string;
-  AI: any; // Cloudflare AI binding
-}
-
-interface TelegramUpdate {
-  message?: {
-    message_id: number;
-    from: {
-      id: number;
-      first_name: string;
-      username?: string;
-    };
-    chat: {
-      id: number;
-      type: string;
-    };
-    text?: string;
-  };
-}
-
-interface GoogleSearchResult {
-  kind: string;
-  items?: Array<{
-    title: string;
-    link: string;
-    snippet: string;
-    displayLink: string;
-    formattedUrl: string;
-  }>;
-  searchInformation: {
-    totalResults: string;
-    searchTime: number;
-  };
-}
+import type { Environment, TelegramCallbackQuery, TelegramMessage, TelegramUpdate, TelegramUser } from './types';
+import { claimUpdate } from './dedupe';
+import { parseDork, detectSearchType, formatDorkError, DorkSyntaxError, type DorkQuery, type SearchType } from './dork';
+import { formatSearchResults, formatSearchHeader, formatAIOverview, formatIndividualResult, formatSearchFooter, formatPageFooter, formatAllLinks, formatPageSummary, formatFollowUpAnswer, formatSettings, formatWatchCreated, formatWatchList, formatHistory, formatLiveResults, formatApprovalRequest, formatApprovalDecision, formatAccessList, formatAuditLog } from './format';
+import { MAX_RESULTS, saveSearchState, loadSearchState, deleteSearchState, parsePaginationData, canShowPage, buildResultsKeyboard, buildResultKeyboard, type SearchState } from './pagination';
+import { escapeHtml, splitMessage, toPlainText } from './render';
+import { LiveMessage } from './live';
+import * as telegram from './telegram';
+import { isEntityParseError, type InlineKeyboardMarkup } from './telegram';
+import { cachedSearch, getProvider } from './search';
+import { fetchResults, analyzeResults, toEnrichedResult, type EnrichedResult, type SearchResponse } from './results';
+import { generateAISummary, generatePageSummary, isFollowUpQuestion, answerFollowUp } from './ai';
+import { readPage, PageReadError } from './reader';
+import { loadSession, saveSession, clearSession, classifyMessage } from './session';
+import { handleInlineQuery, handleChosenInlineResult } from './inline';
+import { isGroupChat, parseCommand, getBotUsername, extractGroupQuery, type BotCommand } from './group';
+import { loadSettings, saveSettings, deleteSettings, parseSettingsData, updateSettings, buildSettingsKeyboard, settingValueLabel, DEFAULT_SETTINGS, LANGUAGES, type SettingsAction, type UserSettings } from './settings';
+import { messages, resolveLanguage, uiLocale, type Locale } from './i18n';
+import { parseWatchArgs, createWatch, countWatches, listWatches, deleteWatch, runDueWatches, MAX_WATCHES_PER_CHAT } from './watch';
+import { recordSearch, recentSearches, getSearch, forgetUser, parseExportArgs, parseHistoryData, buildHistoryKeyboard, toCsv, toJson, HISTORY_PAGE_SIZE } from './history';
+import { parseCacheDirective } from './cache';
+import { checkSearchAllowance, spendAIBudget, formatRateLimitMessage } from './rate-limit';
+import { handleAdminRequest, isAdminRoute } from './admin';
+import { handleApiRequest, isApiRoute } from './api';
+import { secretMatches } from './auth';
+import { accessControlEnabled, configuredAdmins, resolveRole, checkSearchAccess, grantAccess, revokeAccess, listAccess, listAdmins, recordDenial, decideApproval, recentDenials, parseAccessArgs, parseApprovalData, buildApprovalKeyboard, AUDIT_PAGE_SIZE, type AuditEntry } from './access';
+import { blocksAllDorks, parsePolicy } from './policy';
+
+// Durable Object classes must be exported from the entry module
+export { RateLimiter } from './rate-limit';
 
 export default {
-  async fetch(request: Request, env: Environment): Promise<Response> {
+  async fetch(request: Request, env: Environment, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     
     // Handle Telegram webhook
     if (request.method === 'POST' && url.pathname === '/webhook') {
-      return handleTelegramWebhook(request, env);
+      return handleTelegramWebhook(request, env, ctx);
+    }
+    
+    // Webhook management, for whoever holds the admin token
+    if (isAdminRoute(url.pathname)) {
+      return handleAdminRequest(request, url.pathname, env);
     }
     
-    // Handle setup endpoint
-    if (request.method === 'GET' && url.pathname === '/setup') {
-      return handleSetup(env);
+    // JSON search for other tools, with per-client keys
+    if (isApiRoute(url.pathname)) {
+      return handleApiRequest(request, env);
     }
     
     return new Response('AI Search Bot is running!', { status: 200 });
+  },
+  
+  // Cron Trigger: re-runs saved searches that are due
+  async scheduled(controller: ScheduledController, env: Environment, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(runDueWatches(env, controller.scheduledTime));
   }
 };
 
-async function handleTelegramWebhook(request: Request, env: Environment): Promise<Response> {
+async function handleTelegramWebhook(request: Request, env: Environment, ctx: ExecutionContext): Promise<Response> {
+  if (!isAuthenticWebhook(request, env)) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+  
+  let update: TelegramUpdate;
+  try {
+    update = await request.json();
+  } catch (error) {
+    console.error('Webhook payload error:', error);
+    return new Response('Bad Request', { status: 400 });
+  }
+  
+  if (typeof update.update_id !== 'number') {
+    return new Response('Bad Request', { status: 400 });
+  }
+  
+  // Telegram resends updates it considers undelivered; only handle each one once
+  if (!(await claimUpdate(update.update_id, env.DB))) {
+    return new Response('OK', { status: 200 });
+  }
+  
+  // Acknowledge right away; searches easily outlast Telegram's webhook timeout
+  ctx.waitUntil(processUpdate(update, env));
+  
+  return new Response('OK', { status: 200 });
+}
+
+async function processUpdate(update: TelegramUpdate, env: Environment): Promise<void> {
+  const chatId = update.message?.chat.id ?? update.callback_query?.message?.chat.id;
+  
   try {
-    const update: TelegramUpdate = await request.json();
-    
     if (update.message?.text) {
       await processMessage(update.message, env);
+    } else if (update.callback_query) {
+      await handleCallbackQuery(update.callback_query, env);
+    } else if (update.inline_query) {
+      await handleInlineQuery(update.inline_query, env);
+    } else if (update.chosen_inline_result) {
+      await handleChosenInlineResult(update.chosen_inline_result, env);
     }
-    
-    return new Response('OK', { status: 200 });
   } catch (error) {
-    console.error('Webhook error:', error);
-    return new Response('Error', { status: 500 });
+    console.error('Update processing error:', error);
+    if (chatId === undefined) {
+      return;
+    }
+    try {
+      // Settings are not read again on the way out, so this follows the Telegram app's language
+      const from = update.message?.from ?? update.callback_query?.from;
+      await sendMessage(chatId, messages(uiLocale('auto', from?.language_code)).searchError, env);
+    } catch (sendError) {
+      console.error('Failed to report error to chat:', sendError);
+    }
+  }
+}
+
+// Telegram echoes the secret_token given to setWebhook in this header on every delivery
+function isAuthenticWebhook(request: Request, env: Environment): boolean {
+  if (!env.TELEGRAM_WEBHOOK_SECRET) {
+    console.error('TELEGRAM_WEBHOOK_SECRET is not configured, rejecting webhook');
+    return false;
+  }
+  
+  return secretMatches(env.TELEGRAM_WEBHOOK_SECRET, request.headers.get('X-Telegram-Bot-Api-Secret-Token'));
+}
+
+async function processMessage(message: TelegramMessage, env: Environment): Promise<void> {
+  const text = message.text ?? '';
+  const group = isGroupChat(message.chat);
+  // In groups every answer is threaded under the message that asked for it
+  const replyTo = group ? message.message_id : undefined;
+  
+  const command = parseCommand(text);
+  if (command) {
+    // Commands addressed to another bot in the same group
+    if (command.target && command.target !== await getBotUsername(env)) {
+      return;
+    }
+    await handleCommand(command, message, env, replyTo);
+    return;
+  }
+  
+  // In groups only messages addressed to the bot are searches
+  const searchText = group ? extractGroupQuery(message, await getBotUsername(env)) : text;
+  if (searchText && searchText.trim().length > 0) {
+    await handleSearchText(searchText, message, env, replyTo);
+  }
+}
+
+async function handleCommand(command: BotCommand, message: TelegramMessage, env: Environment, replyTo?: number): Promise<void> {
+  const chatId = message.chat.id;
+  const settings = await loadSettings(message.from.id, env.BOT_KV);
+  const locale = uiLocale(settings.language, message.from.language_code);
+  const t = messages(locale);
+  
+  switch (command.name) {
+    case 'start':
+      await sendMessage(chatId, t.welcome, env, true, undefined, replyTo);
+      return;
+    case 'help':
+      await sendMessage(chatId, t.help, env, true, undefined, replyTo);
+      return;
+    case 'dork':
+    case 'examples':
+      // The guides advertise searches for credentials and leaked files; only show them to whoever may run dorks
+      if (accessControlEnabled(env) && blocksAllDorks(await resolveRole(message.from.id, chatId, env), parsePolicy(env.ACCESS_POLICY))) {
+        await sendMessage(chatId, t.dorkMembersOnly, env, false, undefined, replyTo);
+        return;
+      }
+      await sendMessage(chatId, command.name === 'dork' ? t.dorkHelp : t.dorkExamples, env, true, undefined, replyTo);
+      return;
+    case 'settings':
+      await sendMessage(chatId, formatSettings(settings, locale), env, true, buildSettingsKeyboard(settings, undefined, locale), replyTo);
+      return;
+    case 'lang':
+      await handleLangCommand(command.args, message, settings, env, replyTo);
+      return;
+    case 'new':
+      await clearSession(chatId, env.BOT_KV);
+      await sendMessage(chatId, t.newSession, env, false, undefined, replyTo);
+      return;
+    case 'read':
+      if (!command.args) {
+        await sendMessage(chatId, t.readUsage, env, false, undefined, replyTo);
+        return;
+      }
+      await handleReadRequest(chatId, message.from.id, command.args, env, replyTo, locale, resolveLanguage('', settings.language, message.from.language_code));
+      return;
+    case 'watch':
+      await handleWatchCommand(command.args, message, env, replyTo, locale);
+      return;
+    case 'watches':
+      await sendMessage(chatId, formatWatchList(await listWatches(chatId, env.DB), locale), env, true, undefined, replyTo);
+      return;
+    case 'unwatch': {
+      const watchId = Number(command.args.replace(/^#/, ''));
+      if (!Number.isInteger(watchId) || watchId <= 0) {
+        await sendMessage(chatId, t.unwatchUsage, env, false, undefined, replyTo);
+        return;
+      }
+      const deleted = await deleteWatch(chatId, watchId, env.DB);
+      await sendMessage(chatId, deleted ? t.watchStopped(watchId) : t.watchNotFound(watchId), env, false, undefined, replyTo);
+      return;
+    }
+    case 'history': {
+      const entries = await recentSearches(message.from.id, HISTORY_PAGE_SIZE, env.DB);
+      await sendMessage(chatId, formatHistory(entries, locale), env, true, entries.length > 0 ? buildHistoryKeyboard(entries) : undefined, replyTo);
+      return;
+    }
+    case 'export':
+      await handleExportCommand(command.args, message, env, replyTo, locale);
+      return;
+    case 'forget': {
+      const userId = message.from.id;
+      const removed = await forgetUser(userId, env.DB);
+      await deleteSettings(userId, env.BOT_KV);
+      // The conversation memory of a private chat, and the results it points at, belong to its only user
+      if (chatId === userId) {
+        const session = await loadSession(chatId, env.BOT_KV);
+        if (session) {
+          await deleteSearchState(session.stateId, env.BOT_KV);
+        }
+        await clearSession(chatId, env.BOT_KV);
+      }
+      await sendMessage(chatId, t.forgotten(removed.searches, removed.watches), env, false, undefined, replyTo);
+      return;
+    }
+    case 'allow':
+    case 'deny':
+    case 'audit':
+      await handleAccessCommand(command, message, env, replyTo, locale);
+      return;
+    case 'search':
+      if (!command.args) {
+        await sendMessage(chatId, t.searchUsage, env, false, undefined, replyTo);
+        return;
+      }
+      await handleSearchText(command.args, message, env, replyTo);
+      return;
   }
 }
 
-async function processMessage(message: any, env: Environment): Promise<void> {
+// Sets the language searches and answers use, and the bot's own messages where there is a catalog for it
+async function handleLangCommand(args: string, message: TelegramMessage, settings: UserSettings, env: Environment, replyTo?: number): Promise<void> {
   const chatId = message.chat.id;
-  const text = message.text;
+  const choice = args.trim().toLowerCase();
+  const locale = uiLocale(settings.language, message.from.language_code);
+  const t = messages(locale);
   
-  // Handle commands
-  if (text.startsWith('/start')) {
-    await sendMessage(chatId, getWelcomeMessage(), env);
+  if (!choice) {
+    await sendMessage(chatId, t.langCurrent(settingValueLabel(settings, 'language', locale)), env, true, buildSettingsKeyboard(settings, 'language', locale), replyTo);
     return;
   }
   
-  if (text.startsWith('/help')) {
-    await sendMessage(chatId, getHelpMessage(), env);
+  if (!Object.prototype.hasOwnProperty.call(LANGUAGES, choice)) {
+    await sendMessage(chatId, t.langUsage(Object.keys(LANGUAGES).join(', ')), env, false, undefined, replyTo);
     return;
   }
   
-  if (text.startsWith('/dork')) {
-    await sendMessage(chatId, getDorkHelpMessage(), env);
+  const updated = updateSettings(settings, 'language', choice);
+  await saveSettings(message.from.id, updated, env.BOT_KV);
+  // The confirmation is already in the new language
+  const confirm = messages(uiLocale(updated.language, message.from.language_code));
+  await sendMessage(chatId, updated.language === 'auto' ? confirm.langAuto : confirm.langChanged(LANGUAGES[updated.language]), env, false, undefined, replyTo);
+}
+
+// Admins keep the access list with /allow and /deny and read the audit log with /audit
+async function handleAccessCommand(command: BotCommand, message: TelegramMessage, env: Environment, replyTo?: number, locale: Locale = 'en'): Promise<void> {
+  const chatId = message.chat.id;
+  const t = messages(locale);
+  if (!accessControlEnabled(env)) {
+    await sendMessage(chatId, t.accessControlOff, env, false, undefined, replyTo);
     return;
   }
   
-  if (text.startsWith('/examples')) {
-    await sendMessage(chatId, getDorkExamplesMessage(), env);
+  // Only the user's own entry counts here; a listed chat never makes anyone an admin
+  const role = await resolveRole(message.from.id, undefined, env);
+  if (role !== 'admin') {
+    await recordDenial({
+      userId: message.from.id,
+      chatId,
+      chatType: message.chat.type,
+      messageId: message.message_id,
+      role,
+      query: `/${command.name} ${command.args}`.trim(),
+      reason: 'Not an admin',
+      outcome: 'blocked',
+      createdAt: Date.now()
+    }, env.DB);
+    await sendMessage(chatId, t.adminOnly, env, false, undefined, replyTo);
     return;
   }
   
-  // Handle search queries
-  if (text && text.length > 0 && !text.startsWith('/')) {
-    const searchType = detectSearchType(text);
-    const loadingMessage = searchType === 'dork' ? 
-      '🔍 Executing Google Dork search and analyzing results...' : 
-      '🔍 Searching and analyzing results...';
-    
-    await sendMessage(chatId, loadingMessage, env);
-    await handleSearchQuery(chatId, text, env, searchType);
+  if (command.name === 'audit') {
+    await sendMessage(chatId, formatAuditLog(await recentDenials(AUDIT_PAGE_SIZE, env.DB), locale), env, true, undefined, replyTo);
+    return;
+  }
+  
+  if (command.name === 'allow' && !command.args && !message.reply_to_message) {
+    await sendMessage(chatId, formatAccessList(await listAccess(env.DB), configuredAdmins(env), locale), env, true, undefined, replyTo);
+    return;
+  }
+  
+  const target = parseAccessArgs(command.args, message);
+  if (!target) {
+    await sendMessage(chatId, command.name === 'allow' ? t.allowUsage : t.denyUsage, env, true, undefined, replyTo);
+    return;
+  }
+  
+  const { subjectType, subjectId } = target;
+  if (command.name === 'allow') {
+    await grantAccess(target, message.from.id, env.DB);
+    const confirmation = subjectType === 'chat' ? t.allowedChat(subjectId) : target.role === 'admin' ? t.allowedAdmin(subjectId) : t.allowedUser(subjectId);
+    await sendMessage(chatId, confirmation, env, false, undefined, replyTo);
+    return;
+  }
+  
+  if (subjectType === 'user' && configuredAdmins(env).has(subjectId)) {
+    await sendMessage(chatId, t.configuredAdmin(subjectId), env, false, undefined, replyTo);
+    return;
   }
+  const removed = await revokeAccess(subjectType, subjectId, env.DB);
+  const confirmation = !removed ? t.notListed(subjectId) : subjectType === 'chat' ? t.deniedChat(subjectId) : t.deniedUser(subjectId);
+  await sendMessage(chatId, confirmation, env, false, undefined, replyTo);
 }
 
-async function handleSearchQuery(chatId: number, query: string, env: Environment, searchType: 'normal' | 'dork' = 'normal'): Promise<void> {
+async function handleWatchCommand(args: string, message: TelegramMessage, env: Environment, replyTo?: number, locale: Locale = 'en'): Promise<void> {
+  const chatId = message.chat.id;
+  const t = messages(locale);
+  const parsed = parseWatchArgs(args);
+  if (!parsed) {
+    await sendMessage(chatId, t.watchUsage, env, false, undefined, replyTo);
+    return;
+  }
+  
+  let dork: DorkQuery;
   try {
-    let processedQuery = query;
-    let searchContext = '';
-    
-    // Process Google Dork queries
-    if (searchType === 'dork') {
-      const dorkResult = processGoogleDork(query);
-      processedQuery = dorkResult.query;
-      searchContext = dorkResult.context;
+    dork = parseDork(parsed.query);
+  } catch (error) {
+    if (error instanceof DorkSyntaxError) {
+      await sendMessage(chatId, formatDorkError(error, locale), env, false, undefined, replyTo);
+      return;
     }
+    throw error;
+  }
+  
+  // A held search is approved once, which cannot cover a watch that runs on its own schedule
+  const { role, decision } = await checkSearchAccess(dork, message.from.id, chatId, env);
+  if (decision.action !== 'allow') {
+    await recordDenial({
+      userId: message.from.id,
+      chatId,
+      chatType: message.chat.type,
+      messageId: message.message_id,
+      role,
+      query: parsed.query,
+      reason: decision.reason,
+      outcome: 'blocked',
+      createdAt: Date.now()
+    }, env.DB);
+    await sendMessage(chatId, decision.action === 'block' ? t.accessBlocked(decision.reason) : t.watchNeedsApproval, env, false, undefined, replyTo);
+    return;
+  }
+  
+  if (await countWatches(chatId, env.DB) >= MAX_WATCHES_PER_CHAT) {
+    await sendMessage(chatId, t.watchLimit(MAX_WATCHES_PER_CHAT), env, false, undefined, replyTo);
+    return;
+  }
+  
+  // Recording the baseline is a search like any other
+  const allowance = await checkSearchAllowance(message.from.id, chatId, env);
+  if (!allowance.allowed) {
+    await sendMessage(chatId, formatRateLimitMessage(allowance, locale), env, false, undefined, replyTo);
+    return;
+  }
+  
+  const { watch, baseline } = await createWatch(chatId, message.from.id, parsed.query, parsed.frequency, env, Date.now(), locale);
+  await sendMessage(chatId, formatWatchCreated(watch, baseline, locale), env, true, undefined, replyTo);
+}
+
+// Sends the user's recent searches with their results and insights as a file
+async function handleExportCommand(args: string, message: TelegramMessage, env: Environment, replyTo?: number, locale: Locale = 'en'): Promise<void> {
+  const chatId = message.chat.id;
+  const t = messages(locale);
+  const options = parseExportArgs(args);
+  if (!options) {
+    await sendMessage(chatId, t.exportUsage, env, false, undefined, replyTo);
+    return;
+  }
+  
+  const entries = await recentSearches(message.from.id, options.count, env.DB);
+  if (entries.length === 0) {
+    await sendMessage(chatId, t.exportEmpty, env, false, undefined, replyTo);
+    return;
+  }
+  
+  const content = options.format === 'csv' ? toCsv(entries) : toJson(entries);
+  await telegram.sendDocument({
+    chat_id: chatId,
+    document: new Blob([content], { type: options.format === 'csv' ? 'text/csv' : 'application/json' }),
+    filename: `search-history-${new Date().toISOString().slice(0, 10)}.${options.format}`,
+    caption: t.exportCaption(entries.length),
+    reply_to_message_id: replyTo,
+    allow_sending_without_reply: replyTo !== undefined ? true : undefined
+  }, env);
+}
+
+// approved: an admin already let this search through, so the policy is not asked again
+async function handleSearchText(text: string, message: TelegramMessage, env: Environment, replyTo?: number, approved: boolean = false): Promise<void> {
+  const chatId = message.chat.id;
+  const { query, fresh } = parseCacheDirective(text);
+  if (!query) {
+    return;
+  }
+  
+  const settings = await loadSettings(message.from.id, env.BOT_KV);
+  const locale = uiLocale(settings.language, message.from.language_code);
+  
+  let dork: DorkQuery;
+  try {
+    dork = parseDork(query);
+  } catch (error) {
+    if (error instanceof DorkSyntaxError) {
+      await sendMessage(chatId, formatDorkError(error, locale), env, false, undefined, replyTo);
+      return;
+    }
+    throw error;
+  }
+  
+  // Searches the policy stops do not count towards the limits either
+  if (!approved && !(await passesSearchPolicy(dork, message, env, replyTo, locale))) {
+    return;
+  }
+  
+  // Only well-formed searches count towards the limits
+  const allowance = await checkSearchAllowance(message.from.id, chatId, env);
+  if (!allowance.allowed) {
+    await sendMessage(chatId, formatRateLimitMessage(allowance, locale), env, false, undefined, replyTo);
+    return;
+  }
+  
+  const searchType = detectSearchType(dork);
+  
+  // Questions about the last results are answered from them instead of searching again
+  if (!fresh && searchType === 'normal' && settings.aiSummaries && await handleFollowUp(chatId, query, env, replyTo)) {
+    return;
+  }
+  
+  const t = messages(locale);
+  const loading = await sendMessage(chatId, searchType === 'dork' ? t.searchingDork : t.searching, env, false, undefined, replyTo);
+  // In the live display the loading message becomes the results message
+  const live = settings.display === 'live' && typeof loading?.message_id === 'number' ?
+    new LiveMessage(chatId, loading.message_id, env, isGroupChat(message.chat)) :
+    undefined;
+  // The search runs, and is answered, in the language chosen with /lang or else detected for it
+  const language = resolveLanguage(query, settings.language, message.from.language_code) ?? 'auto';
+  await handleSearchQuery(chatId, dork, env, searchType, fresh, replyTo, { ...settings, language }, message.from.id, live, locale);
+}
+
+// Blocked searches are logged and refused; held ones are logged and sent to the admins to decide
+async function passesSearchPolicy(dork: DorkQuery, message: TelegramMessage, env: Environment, replyTo?: number, locale: Locale = 'en'): Promise<boolean> {
+  const { role, decision } = await checkSearchAccess(dork, message.from.id, message.chat.id, env);
+  if (decision.action === 'allow') {
+    return true;
+  }
+  
+  const entry = await recordDenial({
+    userId: message.from.id,
+    chatId: message.chat.id,
+    chatType: message.chat.type,
+    messageId: message.message_id,
+    role,
+    query: dork.source,
+    reason: decision.reason,
+    outcome: decision.action === 'block' ? 'blocked' : 'pending',
+    createdAt: Date.now()
+  }, env.DB);
+  
+  const t = messages(locale);
+  if (decision.action === 'block') {
+    await sendMessage(message.chat.id, t.accessBlocked(decision.reason), env, false, undefined, replyTo);
+    return false;
+  }
+  
+  await requestApproval(entry, message, env);
+  await sendMessage(message.chat.id, t.approvalRequested, env, false, undefined, replyTo);
+  return false;
+}
+
+// Every admin gets the request in their private chat with the bot; whoever answers first decides
+async function requestApproval(entry: AuditEntry, message: TelegramMessage, env: Environment): Promise<void> {
+  for (const adminId of await listAdmins(env)) {
+    try {
+      // Each admin is asked in the language they chose
+      const locale = uiLocale((await loadSettings(adminId, env.BOT_KV)).language);
+      await telegram.sendMessage({
+        chat_id: adminId,
+        text: formatApprovalRequest(entry, message.from, message.chat, locale),
+        parse_mode: 'HTML',
+        reply_markup: buildApprovalKeyboard(entry.id, locale)
+      }, env);
+    } catch (error) {
+      // Admins who never started a chat with the bot cannot be messaged
+      console.warn(`Could not ask admin ${adminId} for approval:`, error);
+    }
+  }
+}
+
+async function handleSearchQuery(chatId: number, dork: DorkQuery, env: Environment, searchType: SearchType = 'normal', fresh: boolean = false, replyTo?: number, settings: UserSettings = DEFAULT_SETTINGS, userId: number = chatId, live?: LiveMessage, locale: Locale = 'en'): Promise<void> {
+  const t = messages(locale);
+  try {
+    let response = await fetchResults(dork, searchType, env, { fresh, settings, locale });
     
-    // Perform Google Custom Search
-    const searchResults = await performGoogleSearch(processedQuery, env);
-    
-    if (!searchResults.items || searchResults.items.length === 0) {
-      const noResultsMessage = searchType === 'dork' ? 
-        '❌ No results found for your Google Dork query. Try adjusting your operators or search terms.' :
-        '❌ No results found for your query. Please try different keywords.';
-      await sendMessage(chatId, noResultsMessage, env);
+    if (response.results.length === 0) {
+      const noResultsMessage = searchType === 'dork' ? t.noResultsDork : t.noResults;
+      if (live) {
+        await live.finish(escapeHtml(noResultsMessage));
+      } else {
+        await sendMessage(chatId, noResultsMessage, env, false, undefined, replyTo);
+      }
       return;
     }
     
-    // Get top 3 results
-    const topResults = searchResults.items.slice(0, 3);
+    // One model call for all insights and the overview; without budget left the results go out as they are
+    const aiEnabled = settings.aiSummaries && await spendAIBudget(1, env);
+    if (settings.aiSummaries && !aiEnabled) {
+      await sendMessage(chatId, t.aiBudgetExhausted, env, false, undefined, replyTo);
+    }
     
-    // Generate AI summary for each result with search context
-    const enrichedResults = await Promise.all(
-      topResults.map(async (result) => {
-        const aiSummary = await generateAISummary(result.snippet, query, searchContext, env);
-        return {
-          ...result,
-          aiSummary
-        };
-      })
-    );
+    const render = (view: SearchResponse, analyzing: boolean) => formatLiveResults(view, { analyzing, locale, rankDebug: settings.rankDebug });
     
-    // Generate overall search summary
-    const overallSummary = await generateOverallSummary(query, enrichedResults, searchContext, env);
+    // The raw results go out straight away; insights fill in as they arrive
+    await live?.update(render(response, aiEnabled));
+    
+    if (aiEnabled) {
+      response = await analyzeResults(response, env, {
+        fresh,
+        length: settings.summaryLength,
+        language: settings.language !== 'auto' ? settings.language : undefined,
+        locale,
+        onProgress: live && (async progress => {
+          await live.update(render(progress, true));
+        })
+      });
+    }
+    
+    // Keep the rest of the results (and the insights already paid for) for the page buttons
+    const state: SearchState = {
+      query: response.query,
+      searchType,
+      searchContext: response.searchContext,
+      provider: response.provider,
+      params: response.request.params,
+      searchInfo: response.searchInfo,
+      pageSize: settings.resultCount,
+      aiSummaries: settings.aiSummaries,
+      summaryLength: settings.summaryLength,
+      display: live ? 'live' : 'classic',
+      language: settings.language,
+      locale,
+      rankDebug: settings.rankDebug,
+      results: [...response.results, ...response.remaining],
+      fetched: response.fetched,
+      hasMore: response.hasMore
+    };
+    const stateId = await saveSearchState(state, env.BOT_KV);
+    await saveSession(chatId, { stateId, overview: response.overview, turns: [] }, env.BOT_KV);
+    await recordHistory(userId, chatId, state, response.results, response.overview, env);
+    
+    if (live) {
+      await live.finish(render(response, false), buildResultsKeyboard(stateId, state, 0, true));
+      return;
+    }
     
     // Send results individually
-    await sendSearchResultsIndividually(chatId, query, enrichedResults, overallSummary, searchResults.searchInformation, searchType, searchContext, env);
+    await sendSearchResultsIndividually(chatId, response, env, buildResultsKeyboard(stateId, state, 0), stateId, replyTo, aiEnabled, settings.rankDebug, locale);
     
   } catch (error) {
     console.error('Search error:', error);
-    await sendMessage(chatId, '❌ Sorry, there was an error processing your search. Please try again.', env);
+    if (live) {
+      try {
+        await live.finish(escapeHtml(t.searchError));
+        return;
+      } catch (editError) {
+        console.error('Failed to show the error in the results message:', editError);
+      }
+    }
+    await sendMessage(chatId, t.searchError, env, false, undefined, replyTo);
+  }
+}
+
+// History is a convenience; a failure to store it must not cost the user their results
+async function recordHistory(userId: number, chatId: number, state: SearchState, shown: EnrichedResult[], overview: string, env: Environment): Promise<void> {
+  try {
+    await recordSearch({
+      userId,
+      chatId,
+      query: state.query,
+      searchType: state.searchType,
+      provider: state.provider,
+      overview,
+      results: shown,
+      createdAt: Date.now()
+    }, env.DB);
+  } catch (error) {
+    console.error('Search history error:', error);
   }
 }
 
-async function performGoogleSearch(query: string, env: Environment): Promise<GoogleSearchResult> {
-  const searchUrl = new URL('https://www.googleapis.com/customsearch/v1');
-  searchUrl.searchParams.set('key', env.GOOGLE_SEARCH_API_KEY);
-  searchUrl.searchParams.set('cx', env.GOOGLE_SEARCH_ENGINE_ID);
-  searchUrl.searchParams.set('q', query);
-  searchUrl.searchParams.set('num', '10'); // Get max results, we'll filter to top 3
+// Answers from the chat's last search when the message is about it; false means run a new search
+async function handleFollowUp(chatId: number, question: string, env: Environment, replyTo?: number): Promise<boolean> {
+  const intent = classifyMessage(question);
+  if (intent === 'search') {
+    return false;
+  }
   
-  const response = await fetch(searchUrl.toString());
+  const session = await loadSession(chatId, env.BOT_KV);
+  const state = session ? await loadSearchState(session.stateId, env.BOT_KV) : null;
+  if (!session || !state) {
+    return false;
+  }
+  
+  // Without budget for the model the message is treated as a search, which still works without AI
+  if (!(await spendAIBudget(intent === 'unsure' ? 2 : 1, env))) {
+    return false;
+  }
   
-  if (!response.ok) {
-    throw new Error(`Google Search API error: ${response.status}`);
+  if (intent === 'unsure' && !(await isFollowUpQuestion(question, state, env))) {
+    return false;
   }
   
-  return await response.json();
+  const answer = await answerFollowUp(question, state, session, env);
+  session.turns.push({ question, answer });
+  await saveSession(chatId, session, env.BOT_KV);
+  
+  await sendMessage(chatId, formatFollowUpAnswer(state.query, answer, state.results, state.locale), env, true, undefined, replyTo);
+  return true;
 }
 
-// Google Dork detection and processing functions
-function detectSearchType(query: string): 'normal' | 'dork' {
-  const dorkOperators = [
-    'site:', 'filetype:', 'ext:', 'inurl:', 'intitle:', 'intext:', 'cache:', 'link:',
-    'related:', 'info:', 'define:', 'stocks:', 'weather:', 'map:', 'movie:', 'in:',
-    'allinurl:', 'allintitle:', 'allintext:', 'allinanchor:', 'daterange:', 'numrange:',
-    'author:', 'group:', 'insubject:', 'msgid:', 'inanchor:', 'loc:', 'location:',
-    '"', '-', '+', '*', '..', 'OR', 'AND', '(', ')'
-  ];
-  
-  const hasQuotes = query.includes('"') && query.split('"').length > 2;
-  const hasOperators = dorkOperators.some(op => query.toLowerCase().includes(op.toLowerCase()));
-  const hasAdvancedOperators = /[\+\-\*\(\)]|OR|AND/i.test(query);
-  
-  return (hasQuotes || hasOperators || hasAdvancedOperators) ? 'dork' : 'normal';
+// Toasts under buttons are in the language of whoever tapped them
+async function callbackLocale(from: TelegramUser, env: Environment): Promise<Locale> {
+  const settings = await loadSettings(from.id, env.BOT_KV);
+  return uiLocale(settings.language, from.language_code);
 }
 
-function processGoogleDork(query: string): { query: string; context: string } {
-  let context = 'Advanced Google Dork search';
-  const originalQuery = query;
-  
-  // Analyze the dork query to provide context
-  const contextMappings = [
-    { pattern: /site:([^\s]+)/i, description: 'searching within specific website' },
-    { pattern: /filetype:([^\s]+)/i, description: 'filtering by file type' },
-    { pattern: /ext:([^\s]+)/i, description: 'searching for specific file extensions' },
-    { pattern: /inurl:([^\s]+)/i, description: 'finding pages with specific URL patterns' },
-    { pattern: /intitle:([^\s]+)/i, description: 'searching in page titles' },
-    { pattern: /intext:([^\s]+)/i, description: 'searching within page content' },
-    { pattern: /cache:([^\s]+)/i, description: 'accessing cached versions' },
-    { pattern: /link:([^\s]+)/i, description: 'finding pages linking to specific URLs' },
-    { pattern: /related:([^\s]+)/i, description: 'finding related websites' },
-    { pattern: /info:([^\s]+)/i, description: 'getting information about specific URLs' },
-    { pattern: /define:([^\s]+)/i, description: 'finding definitions' },
-    { pattern: /allinurl:([^\s]+)/i, description: 'all terms must appear in URL' },
-    { pattern: /allintitle:([^\s]+)/i, description: 'all terms must appear in title' },
-    { pattern: /allintext:([^\s]+)/i, description: 'all terms must appear in content' },
-    { pattern: /inanchor:([^\s]+)/i, description: 'searching in anchor text' },
-    { pattern: /"([^"]+)"/g, description: 'exact phrase matching' }
-  ];
-  
-  const detectedOperators = [];
-  for (const mapping of contextMappings) {
-    const match = query.match(mapping.pattern);
-    if (match) {
-      detectedOperators.push(mapping.description);
+async function handleCallbackQuery(callbackQuery: TelegramCallbackQuery, env: Environment): Promise<void> {
+  const chatId = callbackQuery.message?.chat.id;
+  const settingsAction = callbackQuery.data ? parseSettingsData(callbackQuery.data) : null;
+  if (settingsAction) {
+    await handleSettingsCallback(callbackQuery, settingsAction, env);
+    return;
+  }
+  
+  const approval = callbackQuery.data ? parseApprovalData(callbackQuery.data) : null;
+  if (approval) {
+    await handleApprovalCallback(callbackQuery, approval.entryId, approval.approved, env);
+    return;
+  }
+  
+  const historyAction = callbackQuery.data ? parseHistoryData(callbackQuery.data) : null;
+  if (historyAction && callbackQuery.message) {
+    // Entries are looked up per user, so others tapping a shared /history list get nothing
+    const entry = await getSearch(callbackQuery.from.id, historyAction.entryId, env.DB);
+    await telegram.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: entry ? undefined : messages(await callbackLocale(callbackQuery.from, env)).historyExpired }, env);
+    if (entry) {
+      const group = isGroupChat(callbackQuery.message.chat);
+      await handleSearchText(entry.query, { ...callbackQuery.message, from: callbackQuery.from }, env, group ? callbackQuery.message.message_id : undefined);
     }
+    return;
   }
   
-  if (detectedOperators.length > 0) {
-    context = `Google Dork search (${detectedOperators.join(', ')})`;
+  const action = callbackQuery.data ? parsePaginationData(callbackQuery.data) : null;
+  
+  if (!action || chatId === undefined) {
+    await telegram.answerCallbackQuery({ callback_query_id: callbackQuery.id }, env);
+    return;
+  }
+  
+  const state = await loadSearchState(action.stateId, env.BOT_KV);
+  if (!state) {
+    await telegram.answerCallbackQuery({
+      callback_query_id: callbackQuery.id,
+      text: messages(await callbackLocale(callbackQuery.from, env)).searchExpired
+    }, env);
+    return;
   }
   
-  // Advanced operator detection
-  if (query.includes(' OR ')) {
-    context += ' with OR logic';
+  // Stop the button's loading spinner before the slower work starts
+  await telegram.answerCallbackQuery({ callback_query_id: callbackQuery.id }, env);
+  
+  if (action.action === 'links') {
+    await sendMessage(chatId, formatAllLinks(state.query, state.results, state.locale), env, true);
+    return;
   }
-  if (query.includes(' AND ')) {
-    context += ' with AND logic';
+  
+  if (action.action === 'read') {
+    const result = state.results[action.index];
+    if (result) {
+      await handleReadRequest(chatId, callbackQuery.from.id, result.link, env, undefined, state.locale, state.language);
+    }
+    return;
   }
-  if (query.includes('-')) {
-    context += ' with exclusions';
+  
+  // Live results turn the page in place
+  const message = callbackQuery.message;
+  const live = state.display === 'live' && message ? new LiveMessage(chatId, message.message_id, env, isGroupChat(message.chat)) : undefined;
+  await sendResultsPage(chatId, action.stateId, state, action.offset, env, live);
+}
+
+// An admin's answer to a held search: approved ones run in the chat they were asked in, as the user who asked
+async function handleApprovalCallback(callbackQuery: TelegramCallbackQuery, entryId: number, approved: boolean, env: Environment): Promise<void> {
+  const locale = await callbackLocale(callbackQuery.from, env);
+  const t = messages(locale);
+  if (await resolveRole(callbackQuery.from.id, undefined, env) !== 'admin') {
+    await telegram.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: t.adminsDecide }, env);
+    return;
   }
-  if (query.includes('+')) {
-    context += ' with required terms';
+  
+  const entry = await decideApproval(entryId, approved, callbackQuery.from.id, env.DB);
+  await telegram.answerCallbackQuery({
+    callback_query_id: callbackQuery.id,
+    text: entry ? (approved ? t.approved : t.declined) : t.alreadyDecided
+  }, env);
+  if (!entry) {
+    return;
   }
-  if (query.includes('*')) {
-    context += ' with wildcards';
+  
+  if (callbackQuery.message) {
+    await telegram.editMessageText({
+      chat_id: callbackQuery.message.chat.id,
+      message_id: callbackQuery.message.message_id,
+      text: formatApprovalDecision(entry, callbackQuery.from, locale),
+      parse_mode: 'HTML'
+    }, env);
   }
-  if (query.includes('..')) {
-    context += ' with range search';
+  
+  if (entry.chatId === null) {
+    return;
   }
+  const message: TelegramMessage = {
+    message_id: entry.messageId ?? 0,
+    chat: { id: entry.chatId, type: entry.chatType ?? 'private' },
+    from: { id: entry.userId, first_name: '' }
+  };
+  const replyTo = isGroupChat(message.chat) && entry.messageId !== null ? entry.messageId : undefined;
   
-  return { query: originalQuery, context };
+  if (approved) {
+    await handleSearchText(entry.query, message, env, replyTo, true);
+    return;
+  }
+  const settings = await loadSettings(entry.userId, env.BOT_KV);
+  await sendMessage(entry.chatId, messages(uiLocale(settings.language)).approvalDeclined(entry.query), env, false, undefined, replyTo);
 }
 
-async function generateAISummary(snippet: string, originalQuery: string, searchContext: string, env: Environment): Promise<string> {
-  try {
-    const contextPrompt = searchContext ? 
-      `This is from a ${searchContext}.` : 
-      `This is from a regular search.`;
-    
-    const prompt = `${contextPrompt} Analyze this search result snippet in relation to the query "${originalQuery}":
-
-Snippet: "${snippet}"
-
-Provide a concise, informative summary (max 2 sentences) that explains how this result relates to the search query and highlights the key information. ${searchContext ? 'Consider the advanced search context in your analysis.' : ''}`;
+// Menu buttons edit the settings message in place; each user only ever changes their own settings
+async function handleSettingsCallback(callbackQuery: TelegramCallbackQuery, action: SettingsAction, env: Environment): Promise<void> {
+  const userId = callbackQuery.from.id;
+  let settings = await loadSettings(userId, env.BOT_KV);
+  
+  if (action.action === 'set') {
+    settings = updateSettings(settings, action.field, action.value);
+  } else if (action.action === 'toggleAI') {
+    settings = { ...settings, aiSummaries: !settings.aiSummaries };
+  } else if (action.action === 'toggleRankDebug') {
+    settings = { ...settings, rankDebug: !settings.rankDebug };
+  } else if (action.action === 'reset') {
+    settings = { ...DEFAULT_SETTINGS };
+  }
+  
+  if (action.action === 'set' || action.action === 'toggleAI' || action.action === 'toggleRankDebug' || action.action === 'reset') {
+    await saveSettings(userId, settings, env.BOT_KV);
+  }
+  
+  // The menu follows a language change straight away
+  const locale = uiLocale(settings.language, callbackQuery.from.language_code);
+  await telegram.answerCallbackQuery({ callback_query_id: callbackQuery.id, text: action.action === 'reset' ? messages(locale).settingsReset : undefined }, env);
+  
+  const message = callbackQuery.message;
+  if (!message) {
+    return;
+  }
+  
+  await telegram.editMessageText({
+    chat_id: message.chat.id,
+    message_id: message.message_id,
+    text: formatSettings(settings, locale),
+    parse_mode: 'HTML',
+    reply_markup: buildSettingsKeyboard(settings, action.action === 'open' ? action.field : undefined, locale)
+  }, env);
+}
 
-    const response = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-      messages: [
-        {
-          role: 'user',
-          content: prompt
+async function sendResultsPage(chatId: number, stateId: string, state: SearchState, offset: number, env: Environment, live?: LiveMessage): Promise<void> {
+  // Fetch the next batch only when the page runs past what is already stored
+  if (offset + state.pageSize > state.results.length && state.hasMore && canShowPage(state, offset)) {
+    const provider = getProvider(state.provider);
+    if (!provider) {
+      throw new Error(`Unknown search provider in stored search: ${state.provider}`);
+    }
+    const nextResults = await cachedSearch(provider, state.params, env, { start: state.fetched + 1 });
+    state.results.push(...nextResults.value.items.map(item => ({ ...toEnrichedResult(item), fromCache: nextResults.fromCache })));
+    state.fetched += nextResults.value.items.length;
+    state.hasMore = nextResults.value.hasMore && state.fetched < MAX_RESULTS;
+  }
+  
+  const page = state.results.slice(offset, offset + state.pageSize);
+  if (page.length === 0) {
+    await sendMessage(chatId, messages(state.locale).noMoreResults, env);
+    return;
+  }
+  
+  // Later pages leave out the overview, which is about the first one
+  const render = (analyzing: boolean) => formatLiveResults({
+    query: state.query,
+    searchType: state.searchType,
+    searchContext: state.searchContext,
+    searchInfo: state.searchInfo,
+    results: state.results.slice(offset, offset + page.length),
+    overview: ''
+  }, { analyzing, offset, locale: state.locale, rankDebug: state.rankDebug });
+  
+  // Only results that have never been shown need an AI insight; once the budget is gone they stay without one
+  const missing = page.filter(result => result.aiSummary === undefined).length;
+  if (state.aiSummaries && missing > 0 && await spendAIBudget(missing, env)) {
+    await live?.update(render(true));
+    await Promise.all(
+      page.map(async (result, i) => {
+        if (result.aiSummary === undefined) {
+          state.results[offset + i] = await generateAISummary(result, state.query, state.searchContext, env, {
+            length: state.summaryLength,
+            language: state.language !== 'auto' ? state.language : undefined,
+            locale: state.locale
+          });
+          await live?.update(render(true));
         }
-      ],
-      max_tokens: 120
-    });
-
-    return response.response || 'AI analysis unavailable.';
-  } catch (error) {
-    console.error('AI summary error:', error);
-    return 'AI analysis unavailable.';
+      })
+    );
+  }
+  await saveSearchState(state, env.BOT_KV, stateId);
+  
+  if (live) {
+    await live.finish(render(false), buildResultsKeyboard(stateId, state, offset, true));
+    return;
+  }
+  
+  for (let i = 0; i < page.length; i++) {
+    await sendMessage(chatId, formatIndividualResult(state.results[offset + i], offset + i + 1, state.rankDebug, state.locale), env, true, buildResultKeyboard(stateId, offset + i, state.locale));
   }
+  
+  await sendMessage(chatId, formatPageFooter(offset, page.length, state.searchInfo, state.locale), env, true, buildResultsKeyboard(stateId, state, offset));
 }
 
-async function generateOverallSummary(query: string, results: any[], searchContext: string, env: Environment): Promise<string> {
+// Fetches a page and sends a structured summary of its full text
+async function handleReadRequest(chatId: number, userId: number, url: string, env: Environment, replyTo?: number, locale: Locale = 'en', language?: string): Promise<void> {
+  const t = messages(locale);
+  const allowance = await checkSearchAllowance(userId, chatId, env);
+  if (!allowance.allowed) {
+    await sendMessage(chatId, formatRateLimitMessage(allowance, locale), env, false, undefined, replyTo);
+    return;
+  }
+  
+  await sendMessage(chatId, t.readingPage, env, false, undefined, replyTo);
+  
   try {
-    const resultsText = results.map(r => `${r.title}: ${r.snippet}`).join('\n\n');
-    const contextPrompt = searchContext ? 
-      `This was a ${searchContext} for "${query}".` : 
-      `This was a search for "${query}".`;
+    const page = await readPage(url);
     
-    const prompt = `${contextPrompt} Based on these search results, provide a brief overall summary (2-3 sentences) of what the user can learn about this topic:
-
-${resultsText}
-
-Focus on the main themes and key insights across all results. ${searchContext ? 'Consider how the advanced search parameters helped target specific information.' : ''}`;
-
-    const response = await env.AI.run('@cf/meta/llama-3.1-8b-instruct', {
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 180
-    });
-
-    return response.response || '';
+    // A map call per chunk plus the final summary
+    const calls = page.chunks.length === 1 ? 1 : page.chunks.length + 1;
+    if (!(await spendAIBudget(calls, env))) {
+      await sendMessage(chatId, t.pageBudgetExhausted, env, false, undefined, replyTo);
+      return;
+    }
+    
+    const summary = await generatePageSummary(page, env, { language: language !== 'auto' ? language : undefined });
+    await sendMessage(chatId, formatPageSummary(page, summary.value, summary.fromCache, locale), env, true, undefined, replyTo);
   } catch (error) {
-    console.error('Overall summary error:', error);
-    return '';
+    if (error instanceof PageReadError) {
+      await sendMessage(chatId, t.pageReadError(t.pageReadProblems[error.problem](error.detail)), env, false, undefined, replyTo);
+      return;
+    }
+    console.error('Page summary error:', error);
+    await sendMessage(chatId, t.pageSummaryError, env, false, undefined, replyTo);
   }
 }
 
 async function sendSearchResultsIndividually(
   chatId: number,
-  query: string,
-  results: any[],
-  overallSummary: string,
-  searchInfo: any,
-  searchType: 'normal' | 'dork' = 'normal',
-  searchContext: string = '',
-  env: Environment
+  response: SearchResponse,
+  env: Environment,
+  replyMarkup?: InlineKeyboardMarkup,
+  stateId?: string,
+  replyTo?: number,
+  aiSummaries: boolean = true,
+  rankDebug: boolean = false,
+  locale: Locale = 'en'
 ): Promise<void> {
+  const { results, overview: overallSummary, searchType } = response;
   try {
-    // Send header message
-    const headerMessage = formatSearchHeader(query, searchInfo, searchType, searchContext);
-    await sendMessage(chatId, headerMessage, env, true);
+    // Messages go out one after another; the Telegram client paces them per chat
     
-    // Small delay to ensure proper message order
-    await new Promise(resolve => setTimeout(resolve, 300));
+    // Send header message
+    const headerMessage = formatSearchHeader(response, aiSummaries, locale);
+    await sendMessage(chatId, headerMessage, env, true, undefined, replyTo);
     
     // Send AI overview if available
     if (overallSummary) {
-      const overviewMessage = formatAIOverview(overallSummary);
-      await sendMessage(chatId, overviewMessage, env, true);
-      await new Promise(resolve => setTimeout(resolve, 300));
+      const overviewMessage = formatAIOverview(overallSummary, results, locale);
+      await sendMessage(chatId, overviewMessage, env, true, undefined, replyTo);
     }
     
     // Send each result individually
     for (let i = 0; i < results.length; i++) {
       const result = results[i];
-      const resultMessage = formatIndividualResult(result, i + 1);
-      await sendMessage(chatId, resultMessage, env, true);
-      
-      // Small delay between results for better UX
-      if (i < results.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 400));
-      }
+      const resultMessage = formatIndividualResult(result, i + 1, rankDebug, locale);
+      await sendMessage(chatId, resultMessage, env, true, stateId ? buildResultKeyboard(stateId, i, locale) : undefined, replyTo);
     }
     
     // Send footer message with tips
-    await new Promise(resolve => setTimeout(resolve, 300));
-    const footerMessage = formatSearchFooter(searchType);
-    await sendMessage(chatId, footerMessage, env, true);
+    const footerMessage = formatSearchFooter(searchType, locale);
+    await sendMessage(chatId, footerMessage, env, true, replyMarkup, replyTo);
     
   } catch (error) {
     console.error('Error sending individual results:', error);
     // Fallback to single message if individual sending fails
-    const fallbackMessage = formatSearchResults(query, results, overallSummary, searchInfo, searchType, searchContext);
-    await sendMessage(chatId, fallbackMessage, env, true);
-  }
-}
-
-function formatSearchHeader(query: string, searchInfo: any, searchType: 'normal' | 'dork' = 'normal', searchContext: string = ''): string {
-  const searchTypeIcon = searchType === 'dork' ? '🎯' : '🔍';
-  const searchTypeText = searchType === 'dork' ? 'Google Dork' : 'Search';
-  
-  let message = `${searchTypeIcon} **${searchTypeText} Results for:**\n\`"${query}"\`\n\n`;
-  
-  if (searchType === 'dork' && searchContext) {
-    message += `🔧 **Search Type:** ${searchContext}\n\n`;
+    const fallbackMessage = formatSearchResults(response, locale);
+    await sendMessage(chatId, fallbackMessage, env, true, replyMarkup, replyTo);
   }
-  
-  message += `📊 **Search Stats:**\n`;
-  message += `• Found ${searchInfo.totalResults} total results\n`;
-  message += `• Search completed in ${searchInfo.searchTime} seconds\n`;
-  message += `• Showing top 3 results with AI analysis\n\n`;
-  message += `⬇️ **Results below:**`;
-  
-  return message;
-}
-
-function formatAIOverview(overallSummary: string): string {
-  return `🤖 **AI Overview:**\n\n${overallSummary}\n\n📋 **Detailed Results:**`;
 }
 
-function formatIndividualResult(result: any, index: number): string {
-  let message = `**📄 Result ${index}: ${result.title}**\n\n`;
-  
-  message += `🌐 **Source:** ${result.displayLink}\n\n`;
-  
-  message += `📝 **Description:**\n${result.snippet}\n\n`;
-  
-  if (result.aiSummary) {
-    message += `🤖 **AI Insight:**\n*${result.aiSummary}*\n\n`;
+// Resolves to the last message sent
+async function sendMessage(chatId: number, text: string, env: Environment, html: boolean = false, replyMarkup?: InlineKeyboardMarkup, replyTo?: number): Promise<TelegramMessage | undefined> {
+  // Long messages go out as several parts, each within Telegram's length limit; buttons go under the last one
+  const parts = splitMessage(text, { html });
+  let sent: TelegramMessage | undefined;
+  for (let i = 0; i < parts.length; i++) {
+    sent = await sendMessagePart(chatId, parts[i], env, html, i === parts.length - 1 ? replyMarkup : undefined, replyTo);
   }
-  
-  message += `🔗 **[Read Full Article](${result.link})**`;
-  
-  return message;
-}
-
-function formatSearchFooter(searchType: 'normal' | 'dork' = 'normal'): string {
-  let message = `✅ **Search Complete!**\n\n`;
-  
-  if (searchType === 'dork') {
-    message += `💡 **Tips:**\n`;
-    message += `• Try /examples for more Google Dork patterns\n`;
-    message += `• Use /dork for operator reference\n`;
-    message += `• Combine multiple operators for precise results\n\n`;
-    message += `🔍 Ready for your next advanced search!`;
-  } else {
-    message += `💡 **Tips:**\n`;
-    message += `• Use Google Dork operators for specific searches\n`;
-    message += `• Try /dork to learn advanced search techniques\n`;
-    message += `• Ask me anything else or refine your search\n\n`;
-    message += `🔍 Ready for your next search!`;
-  }
-  
-  return message;
+  return sent;
 }
 
-async function sendMessage(chatId: number, text: string, env: Environment, parseMarkdown: boolean = false): Promise<void> {
-  const telegramUrl = `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage`;
-  
-  const payload: any = {
-    chat_id: chatId,
-    text: text,
-    disable_web_page_preview: true
-  };
-  
-  if (parseMarkdown) {
-    payload.parse_mode = 'Markdown';
-  }
-  
-  await fetch(telegramUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(payload)
-  });
-}
-
-async function handleSetup(env: Environment): Promise<Response> {
+async function sendMessagePart(chatId: number, text: string, env: Environment, html: boolean, replyMarkup?: InlineKeyboardMarkup, replyTo?: number): Promise<TelegramMessage | undefined> {
   try {
-    // Set webhook URL - replace YOUR_WORKER_URL with your actual Cloudflare Worker URL
-    const webhookUrl = 'https://YOUR_WORKER_URL.workers.dev/webhook';
-    const telegramUrl = `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/setWebhook`;
-    
-    const response = await fetch(telegramUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        url: webhookUrl
-      })
-    });
-    
-    const result = await response.json();
-    
-    return new Response(JSON.stringify({
-      success: true,
-      webhook_set: result,
-      message: 'Bot setup complete! Your AI Search Engine bot is ready.'
-    }, null, 2), {
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return await telegram.sendMessage({
+      chat_id: chatId,
+      text: text,
+      parse_mode: html ? 'HTML' : undefined,
+      disable_web_page_preview: true,
+      reply_to_message_id: replyTo,
+      // Still answer if the message being replied to was deleted in the meantime
+      allow_sending_without_reply: replyTo !== undefined ? true : undefined,
+      reply_markup: replyMarkup
+    }, env);
   } catch (error) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    // Telegram rejected the markup; the content is still worth delivering without formatting
+    if (html && isEntityParseError(error)) {
+      console.warn('Telegram rejected HTML, resending as plain text:', error.description);
+      return sendMessage(chatId, toPlainText(text), env, false, replyMarkup, replyTo);
+    }
+    throw error;
   }
 }
 
-function getWelcomeMessage(): string {
-  return `🤖 **Welcome to AI Search Engine Bot!**
-
-I'm your intelligent search assistant powered by Google Search, Google Dorks, and Cloudflare AI.
-
-✨ **What I can do:**
-• 🔍 Regular web search with Google's powerful engine
-• 🎯 Advanced Google Dork searches for specific results
-• 🤖 AI-powered analysis of all search results
-• 📊 Show you the top 3 most relevant results
-• 💡 Provide insights and summaries for each result
-
-**How to use:**
-Just type your search query and I'll automatically detect if it's a Google Dork or regular search!
-
-**Regular Search Examples:**
-• "Latest AI developments 2024"
-• "Best programming languages for beginners"
-• "Climate change solutions"
-
-**Google Dork Examples:**
-• \`site:github.com machine learning\`
-• \`filetype:pdf cybersecurity\`
-• "password reset" site:company.com
-
-**Commands:**
-• /help - Detailed help
-• /dork - Google Dork guide
-• /examples - More Dork examples
-
-Ready to search! 🚀`;
-}
-
-function getHelpMessage(): string {
-  return `🔧 **AI Search Engine Bot Help**
-
-**Commands:**
-• /start - Show welcome message
-• /help - Show this help message
-• /dork - Google Dork operators guide
-• /examples - Google Dork search examples
-
-**Search Types:**
-
-🔍 **Regular Search:**
-Simply type any search query
-• "Machine learning tutorials for beginners"
-• "Best restaurants in Tokyo"
-• "Latest news about renewable energy"
-
-🎯 **Google Dork Search:**
-I automatically detect advanced operators!
-• \`site:reddit.com programming tips\`
-• \`filetype:pdf "data science"\`
-• \`intitle:"admin panel" inurl:login\`
-
-**Features:**
-🔍 **Smart Search** - Powered by Google Custom Search
-🎯 **Google Dork Support** - Advanced search operators
-🤖 **AI Analysis** - Each result gets AI-powered insights
-📊 **Top Results** - Shows 3 most relevant results
-🌐 **Rich Information** - Titles, snippets, and links
-💡 **Context-Aware** - AI understands search context
-
-**Auto-Detection:**
-I automatically detect if your query uses Google Dork operators and provide specialized analysis!
-
-Happy searching! 🚀`;
-}
-
-function getDorkHelpMessage(): string {
-  return `🎯 **Google Dork Operators Guide**
-
-**Site & Domain:**
-• \`site:example.com\` - Search within specific site
-• \`site:*.edu\` - Search all .edu domains
-• \`-site:example.com\` - Exclude specific site
-
-**File Types:**
-• \`filetype:pdf\` - Find PDF files
-• \`ext:docx\` - Find Word documents
-• \`filetype:xls OR filetype:xlsx\` - Excel files
-
-**Content Location:**
-• \`intitle:"error"\` - Find pages with "error" in title
-• \`inurl:admin\` - Pages with "admin" in URL
-• \`intext:password\` - Pages containing "password"
-• \`inanchor:"click here"\` - Links with specific anchor text
-
-**Exact Phrases:**
-• \`"exact phrase here"\` - Search for exact phrase
-• \`"admin panel" site:company.com\` - Combine operators
-
-**Advanced Operators:**
-• \`allintitle:admin panel login\` - All words in title
-• \`allinurl:admin login\` - All words in URL
-• \`allintext:username password\` - All words in content
-
-**Logic & Exclusion:**
-• \`term1 OR term2\` - Either term
-• \`term1 AND term2\` - Both terms
-• \`-unwanted\` - Exclude term
-• \`+required\` - Require term
-
-**Wildcards & Ranges:**
-• \`* security\` - Wildcard matching
-• \`"admin * panel"\` - Wildcard in phrase
-• \`price $100..$500\` - Number ranges
-
-Type /examples for practical examples!`;
-}
-
-function getDorkExamplesMessage(): string {
-  return `📚 **Google Dork Examples**
-
-**Security Research:**
-• \`intitle:"index of" password\`
-• \`filetype:log inurl:"/logs/"\`
-• \`site:pastebin.com "password"\`
-• \`inurl:admin intitle:login\`
-
-**File Discovery:**
-• \`filetype:pdf site:company.com confidential\`
-• \`ext:xlsx "employee" OR "salary"\`
-• \`filetype:doc site:*.gov "classified"\`
-• \`inurl:upload filetype:php\`
-
-**Social Media Intelligence:**
-• \`site:twitter.com "CEO announces"\`
-• \`site:linkedin.com "data scientist" "hiring"\`
-• \`site:reddit.com cryptocurrency 2024\`
-
-**Technical Research:**
-• \`site:stackoverflow.com "machine learning" python\`
-• \`site:github.com "API key" language:python\`
-• \`intitle:"swagger" inurl:api\`
-• \`site:*.edu filetype:pdf "research paper"\`
-
-**Business Intelligence:**
-• \`"quarterly report" filetype:pdf site:*.com\`
-• \`intitle:"company presentation" filetype:ppt\`
-• \`site:crunchbase.com "startup funding"\`
-
-**Academic Research:**
-• \`site:scholar.google.com "climate change" 2024\`
-• \`filetype:pdf "peer reviewed" machine learning\`
-• \`site:*.edu "research methodology"\`
-
-**News & Trends:**
-• \`site:news.google.com "breaking news" today\`
-• \`intitle:"press release" 2024\`
-• \`site:*.com "market analysis" filetype:pdf\`
-
-**Combine Multiple Operators:**
-• \`site:reddit.com OR site:stackoverflow.com "python tips"\`
-• \`intitle:"data breach" -site:wikipedia.org 2024\`
-• \`"machine learning" (site:medium.com OR site:towardsdatascience.com)\`
-
-Just type any of these examples and I'll execute the search with AI analysis! 🚀`;
-}
-
 // Export types for better TypeScript support
-export { Environment, TelegramUpdate, GoogleSearchResult };
+export type { Environment, TelegramUpdate, GoogleSearchResult } from './types';
@@ -0,0 +1,233 @@
+// Inline mode: "@bot query" from any chat
+// Telegram wants an inline answer within a few seconds, so results go out without AI insights.
+// Once the user picks one, the chosen_inline_result update triggers the insight and the sent
+// message is edited to include it.
+
+import type { Environment, TelegramChosenInlineResult, TelegramInlineQuery } from './types';
+import { parseDork, detectSearchType, describeDork, DorkSyntaxError, type DorkQuery } from './dork';
+import { formatIndividualResult } from './format';
+import { italic } from './render';
+import * as telegram from './telegram';
+import type { InlineKeyboardMarkup, InlineQueryResultArticle } from './telegram';
+import { buildProviderRequest, cachedSearch, configuredProviders, getProvider, peekSearch, searchWithFallback } from './search';
+import { RESULTS_PER_REQUEST, type SearchItem, type SearchPage, type SearchProvider } from './providers/provider';
+import { MAX_RESULTS } from './pagination';
+import { generateAISummary } from './ai';
+import { checkInlineAllowance, inlineQuerySettled, spendAIBudget, formatRateLimitMessage, type RateLimitDecision } from './rate-limit';
+import { loadSettings } from './settings';
+import { messages, resolveLanguage, uiLocale, type Locale } from './i18n';
+import { checkSearchAccess, recordInlineDenial } from './access';
+
+// Telegram sends a query for nearly every keystroke; very short ones are not worth a search
+const MIN_QUERY_LENGTH = 3;
+// How long a query must stay the user's latest before it goes to a provider
+const SETTLE_MS = 700;
+const INLINE_CACHE_SECONDS = 300;
+const DESCRIPTION_LENGTH = 120;
+
+function parseInlineQuery(text: string): DorkQuery | null {
+  if (text.length < MIN_QUERY_LENGTH) {
+    return null;
+  }
+
+  try {
+    return parseDork(text);
+  } catch (error) {
+    // Half-typed dorks are normal while the user is still typing
+    if (error instanceof DorkSyntaxError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Result ids carry the provider and the result's position, so a chosen result can be found again in the cached search
+function resultId(provider: SearchProvider, index: number): string {
+  return `${provider.name}:${index}`;
+}
+
+function parseResultId(id: string): { provider: SearchProvider; index: number } | null {
+  const [name, index] = id.split(':');
+  const provider = getProvider(name);
+  return provider && /^\d+$/.test(index ?? '') ? { provider, index: Number(index) } : null;
+}
+
+function openButton(link: string, locale: Locale): InlineKeyboardMarkup {
+  return { inline_keyboard: [[{ text: messages(locale).openPage, url: link }]] };
+}
+
+function toArticle(item: SearchItem, index: number, provider: SearchProvider, aiSummaries: boolean, locale: Locale): InlineQueryResultArticle {
+  const message = formatIndividualResult(item, index + 1, false, locale);
+  const description = item.snippet.length > DESCRIPTION_LENGTH ? `${item.snippet.slice(0, DESCRIPTION_LENGTH - 1)}…` : item.snippet;
+
+  return {
+    type: 'article',
+    id: resultId(provider, index),
+    title: item.title,
+    description,
+    url: item.link,
+    input_message_content: {
+      message_text: aiSummaries ? `${message}\n\n${italic(messages(locale).insightOnItsWay)}` : message,
+      parse_mode: 'HTML',
+      disable_web_page_preview: true
+    },
+    // Without a keyboard Telegram leaves out the inline_message_id needed to add the insight later
+    reply_markup: openButton(item.link, locale)
+  };
+}
+
+async function answerEmpty(inlineQueryId: string, env: Environment): Promise<void> {
+  await telegram.answerInlineQuery({ inline_query_id: inlineQueryId, results: [], cache_time: INLINE_CACHE_SECONDS }, env);
+}
+
+async function answerDenied(inlineQueryId: string, reason: string, locale: Locale, env: Environment): Promise<void> {
+  const title = messages(locale).searchNotAllowed;
+  await telegram.answerInlineQuery({
+    inline_query_id: inlineQueryId,
+    results: [{
+      type: 'article',
+      id: 'denied',
+      title,
+      description: reason,
+      input_message_content: { message_text: `${title}: ${reason}` }
+    }],
+    cache_time: 0,
+    is_personal: true
+  }, env);
+}
+
+async function answerRateLimited(inlineQueryId: string, decision: Extract<RateLimitDecision, { allowed: false }>, locale: Locale, env: Environment): Promise<void> {
+  const message = formatRateLimitMessage(decision, locale);
+  await telegram.answerInlineQuery({
+    inline_query_id: inlineQueryId,
+    results: [{
+      type: 'article',
+      id: 'rate-limited',
+      title: messages(locale).searchLimitReached,
+      description: message.split('\n\n')[1],
+      input_message_content: { message_text: message }
+    }],
+    cache_time: 0,
+    is_personal: true
+  }, env);
+}
+
+export async function handleInlineQuery(inlineQuery: TelegramInlineQuery, env: Environment): Promise<void> {
+  const text = inlineQuery.query.trim();
+  const dork = parseInlineQuery(text);
+  if (!dork) {
+    await answerEmpty(inlineQuery.id, env);
+    return;
+  }
+
+  const stored = await loadSettings(inlineQuery.from.id, env.BOT_KV);
+  const locale = uiLocale(stored.language, inlineQuery.from.language_code);
+
+  // There is no chat to run an approved search in later, so searches that need approval are refused here too
+  const { role, decision } = await checkSearchAccess(dork, inlineQuery.from.id, undefined, env);
+  if (decision.action !== 'allow') {
+    await recordInlineDenial(inlineQuery.from.id, role, text, decision.reason, env.DB);
+    await answerDenied(inlineQuery.id, decision.action === 'block' ? decision.reason : messages(locale).askAdminInChat(decision.reason), locale, env);
+    return;
+  }
+
+  const searchType = detectSearchType(dork);
+  const settings = { ...stored, language: resolveLanguage(text, stored.language, inlineQuery.from.language_code) ?? 'auto' };
+  let previous: SearchProvider | undefined;
+  let start = 1;
+
+  // The offset Telegram sends back is the next_offset of the previous answer: "<provider>:<start>"
+  if (inlineQuery.offset) {
+    const [name, offset] = inlineQuery.offset.split(':');
+    previous = getProvider(name);
+    if (!previous || !/^\d+$/.test(offset ?? '')) {
+      await answerEmpty(inlineQuery.id, env);
+      return;
+    }
+    start = Number(offset);
+  }
+
+  // Answers from the cache are free; anything else waits for the user to stop typing and must be within
+  // the inline limits before a provider is asked
+  const expected = previous ?? configuredProviders(env)[0];
+  const hit = expected ? await peekSearch(expected, buildProviderRequest(expected, dork, searchType, settings).params, env, { start }) : null;
+  let provider: SearchProvider;
+  let page: SearchPage;
+
+  if (expected && hit) {
+    provider = expected;
+    page = hit.value;
+  } else {
+    // Telegram ignores answers to queries the user has typed past, so those are left unanswered.
+    // Later pages are only asked for once typing has stopped.
+    if (!previous && !(await inlineQuerySettled(inlineQuery.from.id, SETTLE_MS, env))) {
+      return;
+    }
+
+    const allowance = await checkInlineAllowance(inlineQuery.from.id, env);
+    if (!allowance.allowed) {
+      await answerRateLimited(inlineQuery.id, allowance, locale, env);
+      return;
+    }
+
+    if (previous) {
+      provider = previous;
+      page = (await cachedSearch(provider, buildProviderRequest(provider, dork, searchType, settings).params, env, { start })).value;
+    } else {
+      const result = await searchWithFallback(dork, searchType, env, { settings });
+      provider = result.provider;
+      page = result.search.value;
+    }
+  }
+
+  const nextStart = start + RESULTS_PER_REQUEST;
+  await telegram.answerInlineQuery({
+    inline_query_id: inlineQuery.id,
+    results: page.items.map((item, i) => toArticle(item, start - 1 + i, provider, settings.aiSummaries, locale)),
+    cache_time: INLINE_CACHE_SECONDS,
+    // Results depend on the user's language, region and SafeSearch settings
+    is_personal: true,
+    next_offset: page.hasMore && nextStart <= MAX_RESULTS ? `${provider.name}:${nextStart}` : ''
+  }, env);
+}
+
+export async function handleChosenInlineResult(chosen: TelegramChosenInlineResult, env: Environment): Promise<void> {
+  const target = parseResultId(chosen.result_id);
+  const dork = parseInlineQuery(chosen.query.trim());
+  if (!chosen.inline_message_id || !target || !dork) {
+    return;
+  }
+
+  // The search that produced the inline answer is still cached, so finding the result again is free
+  const searchType = detectSearchType(dork);
+  const stored = await loadSettings(chosen.from.id, env.BOT_KV);
+  if (!stored.aiSummaries) {
+    return;
+  }
+  const locale = uiLocale(stored.language, chosen.from.language_code);
+  // Resolved as for the inline query, so the same cached search is found
+  const settings = { ...stored, language: resolveLanguage(chosen.query.trim(), stored.language, chosen.from.language_code) ?? 'auto' };
+
+  const start = Math.floor(target.index / RESULTS_PER_REQUEST) * RESULTS_PER_REQUEST + 1;
+  const search = await cachedSearch(target.provider, buildProviderRequest(target.provider, dork, searchType, settings).params, env, { start });
+  const item = search.value.items[target.index - (start - 1)];
+  if (!item) {
+    return;
+  }
+
+  const result = await spendAIBudget(1, env) ?
+    await generateAISummary({ ...item }, chosen.query, searchType === 'dork' ? describeDork(dork) : '', env, {
+      length: settings.summaryLength,
+      language: settings.language !== 'auto' ? settings.language : undefined,
+      locale
+    }) :
+    { ...item };
+
+  await telegram.editMessageText({
+    inline_message_id: chosen.inline_message_id,
+    text: formatIndividualResult(result, target.index + 1, false, locale),
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+    reply_markup: openButton(item.link, locale)
+  }, env);
+}
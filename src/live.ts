@@ -0,0 +1,121 @@
+// A message that is edited in place as results and insights arrive
+// Telegram rate-limits edits (roughly one per second in private chats and twenty a minute in
+// groups), so updates in between are coalesced and only the latest content is shown.
+
+import type { Environment } from './types';
+import { splitMessage, toPlainText } from './render';
+import * as telegram from './telegram';
+import { TelegramApiError, isEntityParseError, type InlineKeyboardMarkup } from './telegram';
+
+const EDIT_INTERVAL_MS = 1000;
+const GROUP_EDIT_INTERVAL_MS = 3000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Editing to identical content is rejected, which is harmless here
+function isNotModified(error: unknown): boolean {
+  return error instanceof TelegramApiError && error.errorCode === 400 && /message is not modified/i.test(error.description);
+}
+
+export class LiveMessage {
+  private lastEditAt = 0;
+  private lastText = '';
+  private editing = false;
+  private readonly intervalMs: number;
+
+  constructor(
+    readonly chatId: number,
+    readonly messageId: number,
+    private readonly env: Environment,
+    group: boolean = false
+  ) {
+    this.intervalMs = group ? GROUP_EDIT_INTERVAL_MS : EDIT_INTERVAL_MS;
+  }
+
+  // Shows an intermediate state, unless the last edit was too recent or is still under way
+  async update(html: string): Promise<void> {
+    if (this.editing || Date.now() - this.lastEditAt < this.intervalMs) {
+      return;
+    }
+
+    this.editing = true;
+    try {
+      // Only the first part fits into one message until the final edit
+      await this.edit(splitMessage(html, { html: true })[0]);
+    } catch (error) {
+      // A missed intermediate state is not worth failing the search over
+      console.warn('Live update failed:', error);
+    } finally {
+      this.editing = false;
+    }
+  }
+
+  // Shows the final content; anything past Telegram's length limit follows as new messages
+  async finish(html: string, replyMarkup?: InlineKeyboardMarkup): Promise<void> {
+    const wait = this.lastEditAt + this.intervalMs - Date.now();
+    if (wait > 0) {
+      await sleep(wait);
+    }
+
+    const parts = splitMessage(html, { html: true });
+    await this.edit(parts[0], parts.length === 1 ? replyMarkup : undefined);
+
+    for (let i = 1; i < parts.length; i++) {
+      await this.send(parts[i], true, i === parts.length - 1 ? replyMarkup : undefined);
+    }
+  }
+
+  private async send(text: string, html: boolean, replyMarkup?: InlineKeyboardMarkup): Promise<void> {
+    try {
+      await telegram.sendMessage({
+        chat_id: this.chatId,
+        text,
+        parse_mode: html ? 'HTML' : undefined,
+        disable_web_page_preview: true,
+        reply_markup: replyMarkup
+      }, this.env);
+    } catch (error) {
+      if (html && isEntityParseError(error)) {
+        console.warn('Telegram rejected HTML, sending as plain text:', error.description);
+        await this.send(toPlainText(text), false, replyMarkup);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async edit(text: string, replyMarkup?: InlineKeyboardMarkup): Promise<void> {
+    if (text === this.lastText && !replyMarkup) {
+      return;
+    }
+
+    await this.editText(text, true, replyMarkup);
+    this.lastText = text;
+    this.lastEditAt = Date.now();
+  }
+
+  private async editText(text: string, html: boolean, replyMarkup?: InlineKeyboardMarkup): Promise<void> {
+    try {
+      await telegram.editMessageText({
+        chat_id: this.chatId,
+        message_id: this.messageId,
+        text,
+        parse_mode: html ? 'HTML' : undefined,
+        disable_web_page_preview: true,
+        reply_markup: replyMarkup
+      }, this.env);
+    } catch (error) {
+      // The results are still worth showing without formatting
+      if (html && isEntityParseError(error)) {
+        console.warn('Telegram rejected HTML, editing as plain text:', error.description);
+        await this.editText(toPlainText(text), false, replyMarkup);
+        return;
+      }
+      if (!isNotModified(error)) {
+        throw error;
+      }
+    }
+  }
+}
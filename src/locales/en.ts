@@ -0,0 +1,439 @@
+// English messages, and the fallback for every other locale
+
+import type { Messages } from '../i18n';
+
+export const en: Messages = {
+  welcome: `🤖 <b>Welcome to AI Search Engine Bot!</b>
+
+I'm your intelligent search assistant powered by Google Search, Google Dorks, and Cloudflare AI.
+
+✨ <b>What I can do:</b>
+• 🔍 Regular web search with Google's powerful engine
+• 🎯 Advanced Google Dork searches for specific results
+• 🤖 AI-powered analysis of all search results
+• 📊 Show you the most relevant results (3 by default, see /settings)
+• 💡 Provide insights and summaries for each result
+
+<b>How to use:</b>
+Just type your search query and I'll automatically detect if it's a Google Dork or regular search!
+
+<b>Regular Search Examples:</b>
+• "Latest AI developments 2024"
+• "Best programming languages for beginners"
+• "Climate change solutions"
+
+<b>Google Dork Examples:</b>
+• <code>site:github.com machine learning</code>
+• <code>filetype:pdf cybersecurity</code>
+• "password reset" site:company.com
+
+<b>Commands:</b>
+• /help - Detailed help
+• /dork - Google Dork guide
+• /examples - More Dork examples
+• /read &lt;link&gt; - Summarize a full page
+• /new - Start a fresh search session
+• /settings - Results, language, SafeSearch and AI options
+• /lang - Choose the language I search and answer in
+• /watch &lt;query&gt; - Get alerts about new results
+• /history - Run one of your recent searches again
+
+Ready to search! 🚀`,
+
+  help: `🔧 <b>AI Search Engine Bot Help</b>
+
+<b>Commands:</b>
+• /start - Show welcome message
+• /help - Show this help message
+• /dork - Google Dork operators guide
+• /examples - Google Dork search examples
+• /read &lt;link&gt; - Fetch a page and summarize its full text
+• /new - Forget the last search and start over
+• /search &lt;query&gt; - Search (the way to search in groups)
+• /lang [code|auto] - Choose the language I search and answer in
+• /settings - Choose the number of results, language, region, SafeSearch, AI summaries and how results are shown
+• /watch &lt;query&gt; [daily|hourly] - Re-run a search on a schedule and send only new results
+• /watches - List the saved searches of this chat
+• /unwatch &lt;id&gt; - Stop a saved search
+• /history - Your recent searches, with buttons to run them again
+• /export [n] [csv|json] - Get your last n searches and their results as a file
+• /forget - Delete your search history, watches and settings
+• /allow, /deny, /audit - Manage who may run dork searches (admins only)
+
+<b>Search Types:</b>
+
+🔍 <b>Regular Search:</b>
+Simply type any search query
+• "Machine learning tutorials for beginners"
+• "Best restaurants in Tokyo"
+• "Latest news about renewable energy"
+
+🎯 <b>Google Dork Search:</b>
+I automatically detect advanced operators!
+• <code>site:reddit.com programming tips</code>
+• <code>filetype:pdf "data science"</code>
+• <code>intitle:"admin panel" inurl:login</code>
+
+<b>Features:</b>
+🔍 <b>Smart Search</b> - Powered by Google Custom Search
+🎯 <b>Google Dork Support</b> - Advanced search operators
+🤖 <b>AI Analysis</b> - Each result gets AI-powered insights
+📊 <b>Top Results</b> - Shows the 3 most relevant results, or as many as you pick in /settings
+🌐 <b>Rich Information</b> - Titles, snippets, and links
+💡 <b>Context-Aware</b> - AI understands search context
+⚡ <b>Cached Results</b> - Repeated searches are instant; add <code>!fresh</code> to skip the cache
+📖 <b>Full Page Summaries</b> - Tap "Summarize full page" under a result for its key points
+💬 <b>Follow-ups</b> - Ask "tell me more about result 2" or "compare the first two" after a search
+
+<b>In Groups:</b>
+I only answer /search &lt;query&gt;, messages that mention me, and replies to my messages.
+
+<b>Inline Mode:</b>
+Type my username followed by a query in any chat to share a result; its AI insight is added once it is sent.
+
+<b>Auto-Detection:</b>
+I automatically detect if your query uses Google Dork operators and provide specialized analysis, and I answer in the language you search in!
+
+Happy searching! 🚀`,
+
+  dorkHelp: `🎯 <b>Google Dork Operators Guide</b>
+
+<b>Site &amp; Domain:</b>
+• <code>site:example.com</code> - Search within specific site
+• <code>site:*.edu</code> - Search all .edu domains
+• <code>-site:example.com</code> - Exclude specific site
+
+<b>File Types:</b>
+• <code>filetype:pdf</code> - Find PDF files
+• <code>ext:docx</code> - Find Word documents
+• <code>filetype:xls OR filetype:xlsx</code> - Excel files
+
+<b>Content Location:</b>
+• <code>intitle:"error"</code> - Find pages with "error" in title
+• <code>inurl:admin</code> - Pages with "admin" in URL
+• <code>intext:password</code> - Pages containing "password"
+• <code>inanchor:"click here"</code> - Links with specific anchor text
+
+<b>Exact Phrases:</b>
+• <code>"exact phrase here"</code> - Search for exact phrase
+• <code>"admin panel" site:company.com</code> - Combine operators
+
+<b>Advanced Operators:</b>
+• <code>allintitle:admin panel login</code> - All words in title
+• <code>allinurl:admin login</code> - All words in URL
+• <code>allintext:username password</code> - All words in content
+
+<b>Logic &amp; Exclusion:</b>
+• <code>term1 OR term2</code> - Either term
+• <code>term1 AND term2</code> - Both terms
+• <code>-unwanted</code> - Exclude term
+• <code>+required</code> - Require term
+
+<b>Wildcards &amp; Ranges:</b>
+• <code>* security</code> - Wildcard matching
+• <code>"admin * panel"</code> - Wildcard in phrase
+• <code>price $100..$500</code> - Number ranges
+
+Type /examples for practical examples!`,
+
+  dorkExamples: `📚 <b>Google Dork Examples</b>
+
+<b>Security Research:</b>
+• <code>intitle:"index of" password</code>
+• <code>filetype:log inurl:"/logs/"</code>
+• <code>site:pastebin.com "password"</code>
+• <code>inurl:admin intitle:login</code>
+
+<b>File Discovery:</b>
+• <code>filetype:pdf site:company.com confidential</code>
+• <code>ext:xlsx "employee" OR "salary"</code>
+• <code>filetype:doc site:*.gov "classified"</code>
+• <code>inurl:upload filetype:php</code>
+
+<b>Social Media Intelligence:</b>
+• <code>site:twitter.com "CEO announces"</code>
+• <code>site:linkedin.com "data scientist" "hiring"</code>
+• <code>site:reddit.com cryptocurrency 2024</code>
+
+<b>Technical Research:</b>
+• <code>site:stackoverflow.com "machine learning" python</code>
+• <code>site:github.com "API key" language:python</code>
+• <code>intitle:"swagger" inurl:api</code>
+• <code>site:*.edu filetype:pdf "research paper"</code>
+
+<b>Business Intelligence:</b>
+• <code>"quarterly report" filetype:pdf site:*.com</code>
+• <code>intitle:"company presentation" filetype:ppt</code>
+• <code>site:crunchbase.com "startup funding"</code>
+
+<b>Academic Research:</b>
+• <code>site:scholar.google.com "climate change" 2024</code>
+• <code>filetype:pdf "peer reviewed" machine learning</code>
+• <code>site:*.edu "research methodology"</code>
+
+<b>News &amp; Trends:</b>
+• <code>site:news.google.com "breaking news" today</code>
+• <code>intitle:"press release" 2024</code>
+• <code>site:*.com "market analysis" filetype:pdf</code>
+
+<b>Combine Multiple Operators:</b>
+• <code>site:reddit.com OR site:stackoverflow.com "python tips"</code>
+• <code>intitle:"data breach" -site:wikipedia.org 2024</code>
+• <code>"machine learning" (site:medium.com OR site:towardsdatascience.com)</code>
+
+Just type any of these examples and I'll execute the search with AI analysis! 🚀`,
+
+  searching: '🔍 Searching and analyzing results...',
+  searchingDork: '🔍 Executing Google Dork search and analyzing results...',
+  noResults: '❌ No results found for your query. Please try different keywords.',
+  noResultsDork: '❌ No results found for your Google Dork query. Try adjusting your operators or search terms.',
+  searchError: '❌ Sorry, there was an error processing your search. Please try again.',
+  aiBudgetExhausted: '🤖 AI summaries are paused for today because the daily AI budget has been used up. Here are the search results on their own.',
+  noMoreResults: '📭 There are no more results for this search.',
+
+  newSession: '🆕 Started over. Your next message will be a fresh search.',
+  searchUsage: '🔍 Add what to search for, for example:\n/search site:github.com rate limiter',
+  readUsage: '📖 Send a link to read, for example:\n/read https://example.com/article',
+  readingPage: '📖 Reading the page and summarizing it...',
+  pageBudgetExhausted: '🤖 Page summaries are paused for today because the daily AI budget has been used up.',
+  pageReadError: reason => `❌ Could not read that page: ${reason}`,
+  pageSummaryError: '❌ Sorry, the page could not be summarized. Please try again.',
+  pageReadProblems: {
+    notALink: () => 'That does not look like a link. Send it as /read https://example.com/article',
+    unsupportedScheme: () => 'Only http and https links can be read.',
+    privateAddress: () => 'That address is not publicly reachable.',
+    timeout: seconds => `The page took longer than ${seconds} seconds to respond.`,
+    unreachable: () => 'The page could not be reached.',
+    httpStatus: status => `The page answered with HTTP ${status}.`,
+    unsupportedType: type => `Only web pages and plain text can be read, this link is ${type || 'of an unknown type'}.`,
+    noText: () => 'No readable text was found on the page. It may need JavaScript or a login.'
+  },
+
+  dorkError: (problem, hint) => `⚠️ I couldn't understand that Google Dork query: ${problem}.\n\n💡 ${hint}\n\nType /dork for the operator guide.`,
+  dorkProblems: {
+    unbalancedQuote: () => 'Unbalanced quote',
+    unclosedGroup: () => 'Unbalanced parenthesis',
+    extraParenthesis: () => 'Unbalanced parenthesis',
+    unclosedParenthesis: () => 'Unbalanced parenthesis',
+    emptySearch: () => 'Empty search',
+    emptyQuotes: () => 'Empty quotes',
+    emptyParentheses: () => 'Empty parentheses',
+    unexpectedSymbol: () => 'Unexpected symbol',
+    emptyOperator: ({ operator }) => `Empty ${operator}: operator`,
+    invalidRange: () => 'Invalid numrange: value'
+  },
+  dorkHints: {
+    unbalancedQuote: ({ fragment }) => `Add the closing " after "${fragment}`,
+    unclosedGroup: ({ operator }) => `Add the closing ")" to the ${operator}: group`,
+    extraParenthesis: () => 'Remove the extra ")" or add a matching "("',
+    unclosedParenthesis: () => 'Add the closing ")"',
+    emptySearch: () => 'Type some search terms',
+    emptyQuotes: () => 'Put the exact phrase between the quotes or remove them',
+    emptyParentheses: () => 'Put some terms between "(" and ")" or remove them',
+    unexpectedSymbol: () => 'Check the placement of -, +, OR, AND and parentheses',
+    emptyOperator: ({ example }) => `Put a value right after the colon, e.g. ${example}`,
+    invalidRange: () => 'Use two numbers, e.g. numrange:100-500'
+  },
+
+  leftOut: operator => `${operator}: is not supported by the Custom Search API and was left out`,
+  mayBeIgnored: operator => `${operator}: is not supported by the Custom Search API and may be ignored`,
+  invalidDateRange: value => `daterange:${value} is not a valid past date range and was left out`,
+  oneDateRange: 'Only one daterange: can be applied, the others were left out',
+  dateRangeEndIgnored: days => `daterange: end dates are not supported, showing everything from the last ${days} days`,
+  dateRangeUnsupported: provider => `daterange: is not supported by ${provider} and was left out`,
+  searchedAsText: (operator, provider, value) => `${operator}: is not supported by ${provider}, "${value}" was searched as plain text`,
+  rangesUnsupported: provider => `Number ranges are not supported by ${provider} and were left out`,
+  providerOutOfQuota: provider => `${provider} is out of quota`,
+  providerUnavailable: provider => `${provider} was unavailable`,
+  answeredInstead: (problems, provider) => `${problems}, so ${provider} answered instead`,
+
+  watchUsage: '👀 Add the search to watch and how often, for example:\n/watch site:pastebin.com "ourcompany" daily\n\nI\'ll send only results that are new since the last check.',
+  watchLimit: max => `❌ This chat already has ${max} saved searches. Remove one with /unwatch first.`,
+  unwatchUsage: '👀 Add the number of the saved search to stop, for example:\n/unwatch 3\n\nSee the numbers with /watches.',
+  watchStopped: id => `🔕 Stopped saved search #${id}.`,
+  watchNotFound: id => `❌ There is no saved search #${id} in this chat.`,
+
+  exportUsage: '📤 Use /export [number of searches] [csv|json], for example:\n/export 20 json',
+  exportEmpty: '📤 There is nothing to export yet. Search for something first.',
+  exportCaption: count => `📤 Your last ${count} search${count === 1 ? '' : 'es'}`,
+  forgotten: (searches, watches) => `🗑 Deleted ${searches} saved searches from your history, ${watches} watches you created, your access requests and your settings.\n\nResults kept for paging and the conversation memory of group chats are not linked to you, so they stay until they expire within a day.`,
+
+  langCurrent: language => `🌐 <b>Language:</b> ${language}\n\nPick another one below, or send /lang auto to follow the language of each search.`,
+  langAuto: '🌐 I\'ll search and answer in the language of each query, or your Telegram language when that is unclear.',
+  langChanged: language => `🌐 I'll search and answer in ${language} from now on.`,
+  langUsage: codes => `🌐 Use /lang followed by one of: ${codes}`,
+
+  dorkMembersOnly: '🔒 Google Dork searches are for approved members of this bot. Ask an admin to add you with /allow.',
+  accessBlocked: reason => `🚫 This search is not allowed for you: ${reason}.`,
+  approvalRequested: '🛂 This search needs an admin\'s approval. I\'ve asked the admins and will run it here once one of them approves it.',
+  approvalDeclined: query => `❌ An admin declined your search: ${query}`,
+  watchNeedsApproval: '🛂 Saved searches like this one need an admin\'s approval every time they run. Ask an admin to set it up.',
+  adminOnly: '🔒 Only bot admins can do that.',
+  accessControlOff: '🔓 Access control is off, so everyone can run every search. Set BOT_ADMINS to the Telegram user ids of the admins to turn it on.',
+  allowUsage: '🔐 Use /allow &lt;user id&gt;, /allow admin &lt;user id&gt; or /allow chat [chat id], or reply to someone\'s message with /allow.\n\nSend /allow on its own to see the list.',
+  denyUsage: '🔐 Use /deny &lt;user id&gt; or /deny chat [chat id], or reply to someone\'s message with /deny.',
+  allowedUser: id => `✅ User ${id} can now run dork searches.`,
+  allowedAdmin: id => `✅ User ${id} is now a bot admin.`,
+  allowedChat: id => `✅ Everyone in chat ${id} can now run dork searches.`,
+  deniedUser: id => `🚫 User ${id} is no longer on the access list.`,
+  deniedChat: id => `🚫 Chat ${id} is no longer on the access list.`,
+  notListed: id => `ℹ️ ${id} is not on the access list.`,
+  configuredAdmin: id => `ℹ️ User ${id} is an admin through BOT_ADMINS; remove them there instead.`,
+  approve: '✅ Approve',
+  decline: '❌ Decline',
+  approvalWaiting: 'Search waiting for approval:',
+  askedIn: (user, id, where) => `${user} (${id}) in ${where}`,
+  aPrivateChat: 'a private chat',
+  aGroup: 'a group',
+  approvedBy: admin => `Approved by ${admin}:`,
+  declinedBy: admin => `Declined by ${admin}:`,
+  accessListTitle: 'Access list',
+  envAdmins: ids => `Admins from BOT_ADMINS: ${ids}`,
+  listedSubject: (chat, id, admin) => `${chat ? 'Chat' : 'User'} ${id}${admin ? ' (admin)' : ''}`,
+  accessListEmpty: 'Nobody else is on the list yet.',
+  accessListTip: 'Add with /allow <user id>, /allow admin <user id> or /allow chat, remove with /deny.',
+  noDenials: 'No denied attempts yet.',
+  recentDenials: 'Recent denied attempts:',
+  deniedInline: 'inline',
+  deniedInPrivate: 'private chat',
+  deniedInChat: id => `chat ${id}`,
+  deniedUserRole: (id, role) => `user ${id} (${role})`,
+  decidedBy: (approved, admin) => `${approved ? 'approved' : 'rejected'} by ${admin}`,
+
+  resultsFor: 'Search Results for:',
+  dorkResultsFor: 'Google Dork Results for:',
+  answeredBy: provider => `Answered by ${provider}`,
+  resultCount: total => `${total} results`,
+  cachedAgo: minutes => `⚡ cached ${minutes} min ago`,
+  aiOverview: 'AI Overview:',
+  writingOverview: 'Writing the overview…',
+  analyzing: 'Analyzing…',
+  analysisInProgress: '⏳ AI analysis in progress…',
+  resultsTip: '💡 Tap 📖 to summarize a page, or ask a follow-up question.',
+
+  searchTypeLabel: 'Search Type:',
+  sentTo: provider => `Sent to ${provider}:`,
+  searchNotes: 'Search notes:',
+  searchStats: 'Search Stats:',
+  foundTotal: total => `Found ${total} total results`,
+  completedIn: seconds => `Search completed in ${seconds} seconds`,
+  showingTop: count => `Showing top ${count} results`,
+  showingTopWithAI: count => `Showing top ${count} results with AI analysis`,
+  servedFromCache: minutes => `⚡ Served from cache (fetched ${minutes} min ago, add !fresh to refresh)`,
+  resultsBelow: 'Results below:',
+  resultNumber: index => `Result ${index}`,
+  source: 'Source:',
+  cached: 'cached',
+  description: 'Description:',
+  aiInsight: 'AI Insight:',
+  aiInsightCached: 'AI Insight (cached):',
+  aiUnavailable: 'AI analysis unavailable.',
+  readFullArticle: 'Read Full Article',
+  searchComplete: 'Search Complete!',
+  searchTips: '💡 <b>Tips:</b>\n• Use Google Dork operators for specific searches\n• Try /dork to learn advanced search techniques\n• Ask me anything else or refine your search\n\n🔍 Ready for your next search!',
+  dorkSearchTips: '💡 <b>Tips:</b>\n• Try /examples for more Google Dork patterns\n• Use /dork for operator reference\n• Combine multiple operators for precise results\n\n🔍 Ready for your next advanced search!',
+  pageRange: (from, to) => `📄 Showing results ${from}–${to}`,
+  pageTotal: total => ` of about ${total}`,
+  pageProvider: provider => ` from ${provider}`,
+  detailedResults: 'Detailed Results:',
+  rankProviderOrder: 'provider order',
+  rankRelevance: score => `relevance ${score}`,
+  rankMerged: links => `merged ${links}`,
+
+  foundIn: (total, seconds) => `Found ${total} results in ${seconds} seconds`,
+  topResults: count => `Top ${count} Results:`,
+  readMore: 'Read more',
+  fallbackTip: '💡 Tip: Use Google Dork operators for specific searches or ask me anything else!',
+  dorkFallbackTip: '💡 Tip: Try /examples for Google Dork examples or ask me anything else!',
+
+  allLinksFor: 'All links for:',
+  pageSummaryTitle: title => `Page summary: ${title}`,
+  aboutWords: count => `about ${count.toLocaleString('en-US')} words`,
+  tldr: 'TL;DR:',
+  keyPoints: 'Key points:',
+  pageTruncated: '⚠️ The page is long; only its first part was summarized.',
+  openThePage: 'Open the page',
+
+  summarizePage: '📖 Summarize full page',
+  previousPage: size => `⬅️ Previous ${size}`,
+  nextPage: size => `Next ${size} ➡️`,
+  showAllLinks: '🔗 Show all links',
+  searchExpired: '⌛ This search has expired. Please search again.',
+  historyExpired: '⌛ That search is no longer in your history.',
+  adminsDecide: '🔒 Only bot admins can decide on searches.',
+  approved: '✅ Approved',
+  declined: '❌ Declined',
+  alreadyDecided: '⌛ This search was already decided.',
+
+  openPage: '🔗 Open page',
+  insightOnItsWay: '🤖 AI insight on its way…',
+  searchNotAllowed: '🚫 Search not allowed',
+  searchLimitReached: '⏳ Search limit reached',
+  askAdminInChat: reason => `${reason}; send it to me in a chat to ask an admin`,
+
+  rateLimited: (max, period) => `⏳ You've reached the limit of ${max} searches ${period}.`,
+  retryAt: (wait, time) => `You can search again in ${wait} (at ${time} UTC).`,
+  limitPeriods: { minute: 'per minute', day: 'per day', chatMinute: 'per minute in this chat', chatDay: 'per day in this chat' },
+  seconds: count => `${count} second${count === 1 ? '' : 's'}`,
+  minutes: count => `${count} minute${count === 1 ? '' : 's'}`,
+  hours: count => `${count} hour${count === 1 ? '' : 's'}`,
+
+  settingsTitle: 'Your settings',
+  settingsTip: 'Tap a setting to change it. Changes apply to your next search.',
+  settingLabels: {
+    resultCount: '📊 Results per page',
+    language: '🌐 Language',
+    region: '📍 Region',
+    safeSearch: '🛡 SafeSearch',
+    aiSummaries: '🤖 AI summaries',
+    summaryLength: '📏 Summary length',
+    display: '🖥 Display',
+    rankDebug: '🧪 Ranking details'
+  },
+  safeSearchLevels: { off: 'Off', moderate: 'Moderate', strict: 'Strict' },
+  summaryLengths: { short: 'Short', medium: 'Medium', long: 'Long' },
+  displayModes: { live: 'Single message', classic: 'Message per result' },
+  auto: 'Auto',
+  on: 'On',
+  off: 'Off',
+  resetSettings: '♻️ Reset to defaults',
+  settingsReset: '♻️ Settings reset',
+  back: '⬅️ Back',
+
+  noWatches: '👀 <b>No saved searches in this chat.</b>\n\nStart one with /watch &lt;query&gt; [daily|hourly].',
+  watchesTitle: 'Saved searches:',
+  watchSchedule: (hourly, checked) => `${hourly ? 'Hourly' : 'Daily'}, last checked ${checked}`,
+  minutesAgo: minutes => `${minutes} min ago`,
+  hoursAgo: hours => `${hours} h ago`,
+  watchesTip: 'Stop one with /unwatch <id>.',
+  noHistory: '🕘 <b>No searches yet.</b>\n\nYour searches show up here so you can run them again.',
+  historyTitle: 'Your recent searches:',
+  resultTotal: count => `${count} result${count === 1 ? '' : 's'}`,
+  historyTip: 'Tap a number to search again. /export sends them as a file, /forget deletes them.',
+  watching: 'Watching:',
+  watchCreated: (hourly, baseline) => `I'll check ${hourly ? 'every hour' : 'once a day'} and send only results that are new. The ${baseline} current result${baseline === 1 ? '' : 's'} count as already seen.`,
+  watchCreatedTip: id => `Stop with /unwatch ${id}, list everything with /watches.`,
+  newResultsFor: count => `${count} new result${count === 1 ? '' : 's'} for:`,
+  watchAlertTip: id => `Saved search #${id} · /unwatch ${id} to stop`,
+
+  aboutYourSearch: 'About your search:',
+  followUpTip: '💡 Ask more about these results, or use /new to start a fresh search.',
+
+  commands: {
+    search: 'Search the web (the way to search in groups)',
+    read: 'Summarize a full page',
+    new: 'Forget the last search and start over',
+    history: 'Your recent searches',
+    watch: 'Get alerts about new results for a search',
+    watches: 'List the saved searches of this chat',
+    unwatch: 'Stop a saved search',
+    settings: 'Results, language, SafeSearch and AI options',
+    lang: 'Choose the language I search and answer in',
+    export: 'Download your search history',
+    forget: 'Delete your history, watches and settings',
+    dork: 'Google Dork operators guide',
+    examples: 'Google Dork examples',
+    help: 'How to use the bot',
+    start: 'Welcome message'
+  }
+};
@@ -0,0 +1,439 @@
+// Spanish messages
+
+import type { Messages } from '../i18n';
+
+export const es: Messages = {
+  welcome: `🤖 <b>¡Bienvenido a AI Search Engine Bot!</b>
+
+Soy tu asistente de búsqueda inteligente, con Google Search, Google Dorks y Cloudflare AI.
+
+✨ <b>Qué puedo hacer:</b>
+• 🔍 Búsqueda web normal con el potente motor de Google
+• 🎯 Búsquedas avanzadas con Google Dorks para resultados concretos
+• 🤖 Análisis con IA de todos los resultados
+• 📊 Mostrarte los resultados más relevantes (3 por defecto, ver /settings)
+• 💡 Ideas clave y resúmenes de cada resultado
+
+<b>Cómo usarme:</b>
+¡Escribe tu búsqueda y detectaré automáticamente si es un Google Dork o una búsqueda normal!
+
+<b>Ejemplos de búsqueda normal:</b>
+• "Últimos avances en IA 2024"
+• "Mejores lenguajes de programación para principiantes"
+• "Soluciones al cambio climático"
+
+<b>Ejemplos de Google Dork:</b>
+• <code>site:github.com machine learning</code>
+• <code>filetype:pdf ciberseguridad</code>
+• "password reset" site:company.com
+
+<b>Comandos:</b>
+• /help - Ayuda detallada
+• /dork - Guía de Google Dorks
+• /examples - Más ejemplos de Dorks
+• /read &lt;enlace&gt; - Resumir una página completa
+• /new - Empezar una búsqueda nueva
+• /settings - Resultados, idioma, SafeSearch y opciones de IA
+• /lang - Elegir el idioma en el que busco y respondo
+• /watch &lt;búsqueda&gt; - Recibir avisos de resultados nuevos
+• /history - Repetir una de tus búsquedas recientes
+
+¡Listo para buscar! 🚀`,
+
+  help: `🔧 <b>Ayuda de AI Search Engine Bot</b>
+
+<b>Comandos:</b>
+• /start - Mostrar el mensaje de bienvenida
+• /help - Mostrar esta ayuda
+• /dork - Guía de operadores de Google Dork
+• /examples - Ejemplos de búsquedas con Google Dork
+• /read &lt;enlace&gt; - Leer una página y resumir su texto completo
+• /new - Olvidar la última búsqueda y empezar de nuevo
+• /search &lt;búsqueda&gt; - Buscar (la forma de buscar en grupos)
+• /lang [código|auto] - Elegir el idioma en el que busco y respondo
+• /settings - Elegir el número de resultados, idioma, región, SafeSearch, resúmenes de IA y cómo se muestran los resultados
+• /watch &lt;búsqueda&gt; [daily|hourly] - Repetir una búsqueda periódicamente y enviar solo los resultados nuevos
+• /watches - Ver las búsquedas guardadas de este chat
+• /unwatch &lt;id&gt; - Detener una búsqueda guardada
+• /history - Tus búsquedas recientes, con botones para repetirlas
+• /export [n] [csv|json] - Recibir tus últimas n búsquedas y sus resultados en un archivo
+• /forget - Borrar tu historial, tus búsquedas guardadas y tus ajustes
+• /allow, /deny, /audit - Decidir quién puede usar búsquedas dork (solo administradores)
+
+<b>Tipos de búsqueda:</b>
+
+🔍 <b>Búsqueda normal:</b>
+Escribe cualquier búsqueda
+• "Tutoriales de machine learning para principiantes"
+• "Mejores restaurantes en Tokio"
+• "Últimas noticias sobre energías renovables"
+
+🎯 <b>Búsqueda con Google Dork:</b>
+¡Detecto los operadores avanzados automáticamente!
+• <code>site:reddit.com programming tips</code>
+• <code>filetype:pdf "data science"</code>
+• <code>intitle:"admin panel" inurl:login</code>
+
+<b>Funciones:</b>
+🔍 <b>Búsqueda inteligente</b> - Con Google Custom Search
+🎯 <b>Google Dorks</b> - Operadores de búsqueda avanzados
+🤖 <b>Análisis con IA</b> - Cada resultado recibe su propio análisis
+📊 <b>Mejores resultados</b> - Muestra los 3 resultados más relevantes, o los que elijas en /settings
+🌐 <b>Información completa</b> - Títulos, fragmentos y enlaces
+💡 <b>Según el contexto</b> - La IA entiende el contexto de la búsqueda
+⚡ <b>Resultados en caché</b> - Las búsquedas repetidas son instantáneas; añade <code>!fresh</code> para saltarte la caché
+📖 <b>Resúmenes de páginas</b> - Pulsa 📖 bajo un resultado para ver sus puntos clave
+💬 <b>Preguntas de seguimiento</b> - Pregunta "cuéntame más del resultado 2" o "compara los dos primeros" tras una búsqueda
+
+<b>En grupos:</b>
+Solo respondo a /search &lt;búsqueda&gt;, a los mensajes que me mencionan y a las respuestas a mis mensajes.
+
+<b>Modo inline:</b>
+Escribe mi nombre de usuario seguido de una búsqueda en cualquier chat para compartir un resultado; su análisis de IA se añade una vez enviado.
+
+<b>Detección automática:</b>
+¡Detecto si tu búsqueda usa operadores de Google Dork y la analizo en consecuencia, y respondo en el idioma en el que buscas!
+
+¡Feliz búsqueda! 🚀`,
+
+  dorkHelp: `🎯 <b>Guía de operadores de Google Dork</b>
+
+<b>Sitios y dominios:</b>
+• <code>site:example.com</code> - Buscar dentro de un sitio
+• <code>site:*.edu</code> - Buscar en todos los dominios .edu
+• <code>-site:example.com</code> - Excluir un sitio
+
+<b>Tipos de archivo:</b>
+• <code>filetype:pdf</code> - Encontrar archivos PDF
+• <code>ext:docx</code> - Encontrar documentos de Word
+• <code>filetype:xls OR filetype:xlsx</code> - Archivos de Excel
+
+<b>Ubicación del contenido:</b>
+• <code>intitle:"error"</code> - Páginas con "error" en el título
+• <code>inurl:admin</code> - Páginas con "admin" en la URL
+• <code>intext:password</code> - Páginas que contienen "password"
+• <code>inanchor:"click here"</code> - Enlaces con un texto de anclaje concreto
+
+<b>Frases exactas:</b>
+• <code>"frase exacta aquí"</code> - Buscar una frase exacta
+• <code>"admin panel" site:company.com</code> - Combinar operadores
+
+<b>Operadores avanzados:</b>
+• <code>allintitle:admin panel login</code> - Todas las palabras en el título
+• <code>allinurl:admin login</code> - Todas las palabras en la URL
+• <code>allintext:username password</code> - Todas las palabras en el contenido
+
+<b>Lógica y exclusión:</b>
+• <code>term1 OR term2</code> - Cualquiera de los términos
+• <code>term1 AND term2</code> - Ambos términos
+• <code>-unwanted</code> - Excluir un término
+• <code>+required</code> - Exigir un término
+
+<b>Comodines y rangos:</b>
+• <code>* security</code> - Comodín
+• <code>"admin * panel"</code> - Comodín dentro de una frase
+• <code>price $100..$500</code> - Rangos numéricos
+
+¡Escribe /examples para ver ejemplos prácticos!`,
+
+  dorkExamples: `📚 <b>Ejemplos de Google Dork</b>
+
+<b>Investigación de seguridad:</b>
+• <code>intitle:"index of" password</code>
+• <code>filetype:log inurl:"/logs/"</code>
+• <code>site:pastebin.com "password"</code>
+• <code>inurl:admin intitle:login</code>
+
+<b>Búsqueda de archivos:</b>
+• <code>filetype:pdf site:company.com confidential</code>
+• <code>ext:xlsx "employee" OR "salary"</code>
+• <code>filetype:doc site:*.gov "classified"</code>
+• <code>inurl:upload filetype:php</code>
+
+<b>Inteligencia en redes sociales:</b>
+• <code>site:twitter.com "CEO announces"</code>
+• <code>site:linkedin.com "data scientist" "hiring"</code>
+• <code>site:reddit.com cryptocurrency 2024</code>
+
+<b>Investigación técnica:</b>
+• <code>site:stackoverflow.com "machine learning" python</code>
+• <code>site:github.com "API key" language:python</code>
+• <code>intitle:"swagger" inurl:api</code>
+• <code>site:*.edu filetype:pdf "research paper"</code>
+
+<b>Inteligencia de negocio:</b>
+• <code>"quarterly report" filetype:pdf site:*.com</code>
+• <code>intitle:"company presentation" filetype:ppt</code>
+• <code>site:crunchbase.com "startup funding"</code>
+
+<b>Investigación académica:</b>
+• <code>site:scholar.google.com "climate change" 2024</code>
+• <code>filetype:pdf "peer reviewed" machine learning</code>
+• <code>site:*.edu "research methodology"</code>
+
+<b>Noticias y tendencias:</b>
+• <code>site:news.google.com "breaking news" today</code>
+• <code>intitle:"press release" 2024</code>
+• <code>site:*.com "market analysis" filetype:pdf</code>
+
+<b>Combinar varios operadores:</b>
+• <code>site:reddit.com OR site:stackoverflow.com "python tips"</code>
+• <code>intitle:"data breach" -site:wikipedia.org 2024</code>
+• <code>"machine learning" (site:medium.com OR site:towardsdatascience.com)</code>
+
+¡Escribe cualquiera de estos ejemplos y haré la búsqueda con análisis de IA! 🚀`,
+
+  searching: '🔍 Buscando y analizando los resultados...',
+  searchingDork: '🔍 Ejecutando la búsqueda con Google Dork y analizando los resultados...',
+  noResults: '❌ No se encontraron resultados para tu búsqueda. Prueba con otras palabras.',
+  noResultsDork: '❌ No se encontraron resultados para tu Google Dork. Prueba a ajustar los operadores o los términos.',
+  searchError: '❌ Lo siento, hubo un error al procesar tu búsqueda. Inténtalo de nuevo.',
+  aiBudgetExhausted: '🤖 Los resúmenes de IA están en pausa por hoy porque se ha agotado el presupuesto diario de IA. Aquí tienes solo los resultados.',
+  noMoreResults: '📭 No hay más resultados para esta búsqueda.',
+
+  newSession: '🆕 Empezamos de nuevo. Tu próximo mensaje será una búsqueda nueva.',
+  searchUsage: '🔍 Añade qué quieres buscar, por ejemplo:\n/search site:github.com rate limiter',
+  readUsage: '📖 Envía un enlace para leer, por ejemplo:\n/read https://example.com/article',
+  readingPage: '📖 Leyendo la página y resumiéndola...',
+  pageBudgetExhausted: '🤖 Los resúmenes de páginas están en pausa por hoy porque se ha agotado el presupuesto diario de IA.',
+  pageReadError: reason => `❌ No se pudo leer esa página: ${reason}`,
+  pageSummaryError: '❌ Lo siento, no se pudo resumir la página. Inténtalo de nuevo.',
+  pageReadProblems: {
+    notALink: () => 'Eso no parece un enlace. Envíalo así: /read https://example.com/article',
+    unsupportedScheme: () => 'Solo se pueden leer enlaces http y https.',
+    privateAddress: () => 'Esa dirección no es accesible públicamente.',
+    timeout: seconds => `La página tardó más de ${seconds} segundos en responder.`,
+    unreachable: () => 'No se pudo acceder a la página.',
+    httpStatus: status => `La página respondió con HTTP ${status}.`,
+    unsupportedType: type => `Solo se pueden leer páginas web y texto plano, este enlace es ${type || 'de un tipo desconocido'}.`,
+    noText: () => 'No se encontró texto legible en la página. Puede que necesite JavaScript o iniciar sesión.'
+  },
+
+  dorkError: (problem, hint) => `⚠️ No entendí esa consulta de Google Dork: ${problem}.\n\n💡 ${hint}\n\nEscribe /dork para ver la guía de operadores.`,
+  dorkProblems: {
+    unbalancedQuote: () => 'Comillas sin cerrar',
+    unclosedGroup: () => 'Paréntesis sin cerrar',
+    extraParenthesis: () => 'Paréntesis de más',
+    unclosedParenthesis: () => 'Paréntesis sin cerrar',
+    emptySearch: () => 'Búsqueda vacía',
+    emptyQuotes: () => 'Comillas vacías',
+    emptyParentheses: () => 'Paréntesis vacíos',
+    unexpectedSymbol: () => 'Símbolo inesperado',
+    emptyOperator: ({ operator }) => `Operador ${operator}: vacío`,
+    invalidRange: () => 'Valor de numrange: no válido'
+  },
+  dorkHints: {
+    unbalancedQuote: ({ fragment }) => `Añade las " de cierre después de "${fragment}`,
+    unclosedGroup: ({ operator }) => `Añade el ")" de cierre al grupo de ${operator}:`,
+    extraParenthesis: () => 'Quita el ")" de más o añade un "(" que le corresponda',
+    unclosedParenthesis: () => 'Añade el ")" de cierre',
+    emptySearch: () => 'Escribe algunos términos de búsqueda',
+    emptyQuotes: () => 'Pon la frase exacta entre las comillas o quítalas',
+    emptyParentheses: () => 'Pon algunos términos entre "(" y ")" o quítalos',
+    unexpectedSymbol: () => 'Revisa dónde están -, +, OR, AND y los paréntesis',
+    emptyOperator: ({ example }) => `Pon un valor justo después de los dos puntos, p. ej. ${example}`,
+    invalidRange: () => 'Usa dos números, p. ej. numrange:100-500'
+  },
+
+  leftOut: operator => `La API de Custom Search no admite ${operator}: y se ha omitido`,
+  mayBeIgnored: operator => `La API de Custom Search no admite ${operator}: y puede que se ignore`,
+  invalidDateRange: value => `daterange:${value} no es un intervalo de fechas pasado válido y se ha omitido`,
+  oneDateRange: 'Solo se puede aplicar un daterange:, los demás se han omitido',
+  dateRangeEndIgnored: days => `daterange: no admite fecha final, se muestra todo lo de los últimos ${days} días`,
+  dateRangeUnsupported: provider => `${provider} no admite daterange: y se ha omitido`,
+  searchedAsText: (operator, provider, value) => `${provider} no admite ${operator}:, se buscó "${value}" como texto`,
+  rangesUnsupported: provider => `${provider} no admite intervalos de números y se han omitido`,
+  providerOutOfQuota: provider => `${provider} agotó su cuota`,
+  providerUnavailable: provider => `${provider} no estaba disponible`,
+  answeredInstead: (problems, provider) => `${problems}, así que respondió ${provider}`,
+
+  watchUsage: '👀 Añade la búsqueda que quieres vigilar y con qué frecuencia, por ejemplo:\n/watch site:pastebin.com "ourcompany" daily\n\nSolo te enviaré los resultados nuevos desde la última comprobación.',
+  watchLimit: max => `❌ Este chat ya tiene ${max} búsquedas guardadas. Elimina una con /unwatch primero.`,
+  unwatchUsage: '👀 Añade el número de la búsqueda guardada que quieres detener, por ejemplo:\n/unwatch 3\n\nConsulta los números con /watches.',
+  watchStopped: id => `🔕 Búsqueda guardada #${id} detenida.`,
+  watchNotFound: id => `❌ No hay ninguna búsqueda guardada #${id} en este chat.`,
+
+  exportUsage: '📤 Usa /export [número de búsquedas] [csv|json], por ejemplo:\n/export 20 json',
+  exportEmpty: '📤 Todavía no hay nada que exportar. Busca algo primero.',
+  exportCaption: count => count === 1 ? '📤 Tu última búsqueda' : `📤 Tus últimas ${count} búsquedas`,
+  forgotten: (searches, watches) => `🗑 Se han borrado ${searches} búsquedas de tu historial, ${watches} búsquedas guardadas que creaste, tus solicitudes de acceso y tus ajustes.\n\nLos resultados guardados para pasar de página y la memoria de conversación de los grupos no están vinculados a ti, así que se quedan hasta que caducan en menos de un día.`,
+
+  langCurrent: language => `🌐 <b>Idioma:</b> ${language}\n\nElige otro abajo, o envía /lang auto para seguir el idioma de cada búsqueda.`,
+  langAuto: '🌐 Buscaré y responderé en el idioma de cada búsqueda, o en el idioma de tu Telegram cuando no esté claro.',
+  langChanged: language => `🌐 A partir de ahora buscaré y responderé en ${language}.`,
+  langUsage: codes => `🌐 Usa /lang seguido de uno de estos: ${codes}`,
+
+  dorkMembersOnly: '🔒 Las búsquedas con Google Dorks son para miembros aprobados de este bot. Pide a un administrador que te añada con /allow.',
+  accessBlocked: reason => `🚫 Esta búsqueda no está permitida para ti: ${reason}.`,
+  approvalRequested: '🛂 Esta búsqueda necesita la aprobación de un administrador. Ya se lo he pedido y la ejecutaré aquí en cuanto uno la apruebe.',
+  approvalDeclined: query => `❌ Un administrador rechazó tu búsqueda: ${query}`,
+  watchNeedsApproval: '🛂 Las búsquedas guardadas como esta necesitarían aprobación cada vez que se ejecutan. Pide a un administrador que la cree.',
+  adminOnly: '🔒 Solo los administradores del bot pueden hacer eso.',
+  accessControlOff: '🔓 El control de acceso está desactivado, así que cualquiera puede hacer cualquier búsqueda. Pon en BOT_ADMINS los ids de Telegram de los administradores para activarlo.',
+  allowUsage: '🔐 Usa /allow &lt;id de usuario&gt;, /allow admin &lt;id de usuario&gt; o /allow chat [id del chat], o responde a un mensaje de esa persona con /allow.\n\nEnvía /allow sin más para ver la lista.',
+  denyUsage: '🔐 Usa /deny &lt;id de usuario&gt; o /deny chat [id del chat], o responde a un mensaje de esa persona con /deny.',
+  allowedUser: id => `✅ El usuario ${id} ya puede hacer búsquedas dork.`,
+  allowedAdmin: id => `✅ El usuario ${id} ahora es administrador del bot.`,
+  allowedChat: id => `✅ Todos en el chat ${id} ya pueden hacer búsquedas dork.`,
+  deniedUser: id => `🚫 El usuario ${id} ya no está en la lista de acceso.`,
+  deniedChat: id => `🚫 El chat ${id} ya no está en la lista de acceso.`,
+  notListed: id => `ℹ️ ${id} no está en la lista de acceso.`,
+  configuredAdmin: id => `ℹ️ El usuario ${id} es administrador por BOT_ADMINS; quítalo de ahí.`,
+  approve: '✅ Aprobar',
+  decline: '❌ Rechazar',
+  approvalWaiting: 'Búsqueda pendiente de aprobación:',
+  askedIn: (user, id, where) => `${user} (${id}) en ${where}`,
+  aPrivateChat: 'un chat privado',
+  aGroup: 'un grupo',
+  approvedBy: admin => `Aprobada por ${admin}:`,
+  declinedBy: admin => `Rechazada por ${admin}:`,
+  accessListTitle: 'Lista de acceso',
+  envAdmins: ids => `Administradores de BOT_ADMINS: ${ids}`,
+  listedSubject: (chat, id, admin) => `${chat ? 'Grupo' : 'Usuario'} ${id}${admin ? ' (administrador)' : ''}`,
+  accessListEmpty: 'Todavía no hay nadie más en la lista.',
+  accessListTip: 'Añade con /allow <id de usuario>, /allow admin <id de usuario> o /allow chat, quita con /deny.',
+  noDenials: 'Todavía no hay intentos denegados.',
+  recentDenials: 'Intentos denegados recientes:',
+  deniedInline: 'en línea',
+  deniedInPrivate: 'chat privado',
+  deniedInChat: id => `el chat ${id}`,
+  deniedUserRole: (id, role) => `usuario ${id} (${role})`,
+  decidedBy: (approved, admin) => `${approved ? 'aprobada' : 'rechazada'} por ${admin}`,
+
+  resultsFor: 'Resultados de:',
+  dorkResultsFor: 'Resultados de Google Dork para:',
+  answeredBy: provider => `Respondido por ${provider}`,
+  resultCount: total => `${total} resultados`,
+  cachedAgo: minutes => `⚡ en caché hace ${minutes} min`,
+  aiOverview: 'Resumen de IA:',
+  writingOverview: 'Escribiendo el resumen…',
+  analyzing: 'Analizando…',
+  analysisInProgress: '⏳ Análisis de IA en curso…',
+  resultsTip: '💡 Pulsa 📖 para resumir una página, o haz una pregunta de seguimiento.',
+
+  searchTypeLabel: 'Tipo de búsqueda:',
+  sentTo: provider => `Enviado a ${provider}:`,
+  searchNotes: 'Notas de la búsqueda:',
+  searchStats: 'Estadísticas:',
+  foundTotal: total => `${total} resultados en total`,
+  completedIn: seconds => `Búsqueda completada en ${seconds} segundos`,
+  showingTop: count => `Mostrando los ${count} mejores resultados`,
+  showingTopWithAI: count => `Mostrando los ${count} mejores resultados con análisis de IA`,
+  servedFromCache: minutes => `⚡ Desde la caché (obtenido hace ${minutes} min, añade !fresh para actualizar)`,
+  resultsBelow: 'Resultados a continuación:',
+  resultNumber: index => `Resultado ${index}`,
+  source: 'Fuente:',
+  cached: 'en caché',
+  description: 'Descripción:',
+  aiInsight: 'Análisis de IA:',
+  aiInsightCached: 'Análisis de IA (en caché):',
+  aiUnavailable: 'Análisis de IA no disponible.',
+  readFullArticle: 'Leer el artículo completo',
+  searchComplete: '¡Búsqueda completada!',
+  searchTips: '💡 <b>Consejos:</b>\n• Usa operadores de Google Dork para búsquedas concretas\n• Prueba /dork para aprender técnicas de búsqueda avanzada\n• Pregúntame lo que quieras o afina tu búsqueda\n\n🔍 ¡Listo para tu próxima búsqueda!',
+  dorkSearchTips: '💡 <b>Consejos:</b>\n• Prueba /examples para ver más patrones de Google Dork\n• Usa /dork como referencia de operadores\n• Combina varios operadores para resultados precisos\n\n🔍 ¡Listo para tu próxima búsqueda avanzada!',
+  pageRange: (from, to) => `📄 Resultados ${from}–${to}`,
+  pageTotal: total => ` de unos ${total}`,
+  pageProvider: provider => ` de ${provider}`,
+  detailedResults: 'Resultados detallados:',
+  rankProviderOrder: 'orden del proveedor',
+  rankRelevance: score => `relevancia ${score}`,
+  rankMerged: links => `fusionado ${links}`,
+
+  foundIn: (total, seconds) => `${total} resultados en ${seconds} segundos`,
+  topResults: count => `Los ${count} mejores resultados:`,
+  readMore: 'Leer más',
+  fallbackTip: '💡 Consejo: usa operadores de Google Dork para búsquedas concretas o pregúntame cualquier otra cosa.',
+  dorkFallbackTip: '💡 Consejo: prueba /examples para ver ejemplos de Google Dork o pregúntame cualquier otra cosa.',
+
+  allLinksFor: 'Todos los enlaces de:',
+  pageSummaryTitle: title => `Resumen de la página: ${title}`,
+  aboutWords: count => `unas ${count.toLocaleString('es-ES')} palabras`,
+  tldr: 'En resumen:',
+  keyPoints: 'Puntos clave:',
+  pageTruncated: '⚠️ La página es larga; solo se resumió su primera parte.',
+  openThePage: 'Abrir la página',
+
+  summarizePage: '📖 Resumir la página completa',
+  previousPage: size => `⬅️ ${size} anteriores`,
+  nextPage: size => `${size} siguientes ➡️`,
+  showAllLinks: '🔗 Ver todos los enlaces',
+  searchExpired: '⌛ Esta búsqueda ha caducado. Vuelve a buscar.',
+  historyExpired: '⌛ Esa búsqueda ya no está en tu historial.',
+  adminsDecide: '🔒 Solo los administradores del bot pueden decidir sobre las búsquedas.',
+  approved: '✅ Aprobada',
+  declined: '❌ Rechazada',
+  alreadyDecided: '⌛ Esta búsqueda ya se decidió.',
+
+  openPage: '🔗 Abrir la página',
+  insightOnItsWay: '🤖 El análisis de IA está en camino…',
+  searchNotAllowed: '🚫 Búsqueda no permitida',
+  searchLimitReached: '⏳ Límite de búsquedas alcanzado',
+  askAdminInChat: reason => `${reason}; envíamela en un chat para pedírsela a un administrador`,
+
+  rateLimited: (max, period) => `⏳ Has alcanzado el límite de ${max} búsquedas ${period}.`,
+  retryAt: (wait, time) => `Podrás volver a buscar dentro de ${wait} (a las ${time} UTC).`,
+  limitPeriods: { minute: 'por minuto', day: 'por día', chatMinute: 'por minuto en este chat', chatDay: 'por día en este chat' },
+  seconds: count => `${count} segundo${count === 1 ? '' : 's'}`,
+  minutes: count => `${count} minuto${count === 1 ? '' : 's'}`,
+  hours: count => `${count} hora${count === 1 ? '' : 's'}`,
+
+  settingsTitle: 'Tus ajustes',
+  settingsTip: 'Toca un ajuste para cambiarlo. Los cambios se aplican a tu próxima búsqueda.',
+  settingLabels: {
+    resultCount: '📊 Resultados por página',
+    language: '🌐 Idioma',
+    region: '📍 Región',
+    safeSearch: '🛡 Búsqueda segura',
+    aiSummaries: '🤖 Resúmenes de IA',
+    summaryLength: '📏 Longitud del resumen',
+    display: '🖥 Presentación',
+    rankDebug: '🧪 Detalles del ranking'
+  },
+  safeSearchLevels: { off: 'Desactivada', moderate: 'Moderada', strict: 'Estricta' },
+  summaryLengths: { short: 'Corto', medium: 'Medio', long: 'Largo' },
+  displayModes: { live: 'Un solo mensaje', classic: 'Un mensaje por resultado' },
+  auto: 'Automático',
+  on: 'Sí',
+  off: 'No',
+  resetSettings: '♻️ Restablecer valores predeterminados',
+  settingsReset: '♻️ Ajustes restablecidos',
+  back: '⬅️ Volver',
+
+  noWatches: '👀 <b>No hay búsquedas guardadas en este chat.</b>\n\nCrea una con /watch &lt;consulta&gt; [daily|hourly].',
+  watchesTitle: 'Búsquedas guardadas:',
+  watchSchedule: (hourly, checked) => `${hourly ? 'Cada hora' : 'Cada día'}, última comprobación ${checked}`,
+  minutesAgo: minutes => `hace ${minutes} min`,
+  hoursAgo: hours => `hace ${hours} h`,
+  watchesTip: 'Detén una con /unwatch <id>.',
+  noHistory: '🕘 <b>Todavía no hay búsquedas.</b>\n\nTus búsquedas aparecen aquí para que puedas repetirlas.',
+  historyTitle: 'Tus búsquedas recientes:',
+  resultTotal: count => `${count} resultado${count === 1 ? '' : 's'}`,
+  historyTip: 'Toca un número para buscar de nuevo. /export las envía como archivo, /forget las borra.',
+  watching: 'Vigilando:',
+  watchCreated: (hourly, baseline) => `Comprobaré ${hourly ? 'cada hora' : 'una vez al día'} y solo enviaré los resultados nuevos. ${baseline === 1 ? 'El resultado actual cuenta como ya visto' : `Los ${baseline} resultados actuales cuentan como ya vistos`}.`,
+  watchCreatedTip: id => `Para detenerla, /unwatch ${id}; para verlas todas, /watches.`,
+  newResultsFor: count => `${count} ${count === 1 ? 'resultado nuevo' : 'resultados nuevos'} de:`,
+  watchAlertTip: id => `Búsqueda guardada #${id} · /unwatch ${id} para detenerla`,
+
+  aboutYourSearch: 'Sobre tu búsqueda:',
+  followUpTip: '💡 Pregunta más sobre estos resultados, o usa /new para empezar una búsqueda nueva.',
+
+  commands: {
+    search: 'Buscar en la web (la forma de buscar en grupos)',
+    read: 'Resumir una página completa',
+    new: 'Olvidar la última búsqueda y empezar de nuevo',
+    history: 'Tus búsquedas recientes',
+    watch: 'Recibir avisos de resultados nuevos de una búsqueda',
+    watches: 'Ver las búsquedas guardadas de este chat',
+    unwatch: 'Detener una búsqueda guardada',
+    settings: 'Resultados, idioma, SafeSearch y opciones de IA',
+    lang: 'Elegir el idioma en el que busco y respondo',
+    export: 'Descargar tu historial de búsquedas',
+    forget: 'Borrar tu historial, búsquedas guardadas y ajustes',
+    dork: 'Guía de operadores de Google Dork',
+    examples: 'Ejemplos de Google Dork',
+    help: 'Cómo usar el bot',
+    start: 'Mensaje de bienvenida'
+  }
+};
@@ -0,0 +1,452 @@
+// Russian messages
+
+import type { Messages } from '../i18n';
+
+// "1 поиск", "2 поиска", "5 поисков"
+function plural(count: number, one: string, few: string, many: string): string {
+  const lastTwo = count % 100;
+  const last = count % 10;
+  if (last === 1 && lastTwo !== 11) {
+    return one;
+  }
+  if (last >= 2 && last <= 4 && (lastTwo < 12 || lastTwo > 14)) {
+    return few;
+  }
+  return many;
+}
+
+export const ru: Messages = {
+  welcome: `🤖 <b>Добро пожаловать в AI Search Engine Bot!</b>
+
+Я умный помощник для поиска на основе Google Search, Google Dorks и Cloudflare AI.
+
+✨ <b>Что я умею:</b>
+• 🔍 Обычный веб-поиск с помощью Google
+• 🎯 Расширенный поиск с Google Dorks для точных результатов
+• 🤖 Анализ всех результатов с помощью ИИ
+• 📊 Показываю самые релевантные результаты (по умолчанию 3, см. /settings)
+• 💡 Выводы и краткое содержание каждого результата
+
+<b>Как пользоваться:</b>
+Просто напишите запрос, а я сам определю, Google Dork это или обычный поиск!
+
+<b>Примеры обычного поиска:</b>
+• "Последние достижения ИИ 2024"
+• "Лучшие языки программирования для начинающих"
+• "Решения проблемы изменения климата"
+
+<b>Примеры Google Dork:</b>
+• <code>site:github.com machine learning</code>
+• <code>filetype:pdf кибербезопасность</code>
+• "password reset" site:company.com
+
+<b>Команды:</b>
+• /help - Подробная справка
+• /dork - Руководство по Google Dorks
+• /examples - Больше примеров Dorks
+• /read &lt;ссылка&gt; - Краткое содержание всей страницы
+• /new - Начать новый поиск
+• /settings - Результаты, язык, SafeSearch и настройки ИИ
+• /lang - Выбрать язык поиска и ответов
+• /watch &lt;запрос&gt; - Получать уведомления о новых результатах
+• /history - Повторить один из недавних поисков
+
+Готов к поиску! 🚀`,
+
+  help: `🔧 <b>Справка AI Search Engine Bot</b>
+
+<b>Команды:</b>
+• /start - Показать приветствие
+• /help - Показать эту справку
+• /dork - Руководство по операторам Google Dork
+• /examples - Примеры поиска с Google Dork
+• /read &lt;ссылка&gt; - Загрузить страницу и кратко изложить весь её текст
+• /new - Забыть последний поиск и начать заново
+• /search &lt;запрос&gt; - Поиск (так ищут в группах)
+• /lang [код|auto] - Выбрать язык поиска и ответов
+• /settings - Выбрать число результатов, язык, регион, SafeSearch, ответы ИИ и вид результатов
+• /watch &lt;запрос&gt; [daily|hourly] - Повторять поиск по расписанию и присылать только новые результаты
+• /watches - Список сохранённых поисков этого чата
+• /unwatch &lt;id&gt; - Остановить сохранённый поиск
+• /history - Недавние поиски с кнопками для повтора
+• /export [n] [csv|json] - Получить последние n поисков с результатами в виде файла
+• /forget - Удалить историю поиска, сохранённые поиски и настройки
+• /allow, /deny, /audit - Управлять доступом к поиску с операторами (только для администраторов)
+
+<b>Виды поиска:</b>
+
+🔍 <b>Обычный поиск:</b>
+Просто напишите любой запрос
+• "Уроки машинного обучения для начинающих"
+• "Лучшие рестораны Токио"
+• "Последние новости о возобновляемой энергии"
+
+🎯 <b>Поиск с Google Dork:</b>
+Я сам распознаю расширенные операторы!
+• <code>site:reddit.com programming tips</code>
+• <code>filetype:pdf "data science"</code>
+• <code>intitle:"admin panel" inurl:login</code>
+
+<b>Возможности:</b>
+🔍 <b>Умный поиск</b> - На основе Google Custom Search
+🎯 <b>Google Dorks</b> - Расширенные операторы поиска
+🤖 <b>Анализ ИИ</b> - Каждый результат получает свой разбор
+📊 <b>Лучшие результаты</b> - Показываю 3 самых релевантных результата или столько, сколько выбрано в /settings
+🌐 <b>Подробная информация</b> - Заголовки, фрагменты и ссылки
+💡 <b>С учётом контекста</b> - ИИ понимает контекст поиска
+⚡ <b>Кэш результатов</b> - Повторные поиски мгновенны; добавьте <code>!fresh</code>, чтобы обойти кэш
+📖 <b>Краткое содержание страниц</b> - Нажмите 📖 под результатом, чтобы увидеть главное
+💬 <b>Уточняющие вопросы</b> - Спросите «расскажи подробнее о результате 2» или «сравни первые два» после поиска
+
+<b>В группах:</b>
+Я отвечаю только на /search &lt;запрос&gt;, на сообщения с упоминанием меня и на ответы на мои сообщения.
+
+<b>Инлайн-режим:</b>
+Напишите моё имя пользователя и запрос в любом чате, чтобы поделиться результатом; анализ ИИ добавится после отправки.
+
+<b>Автоопределение:</b>
+Я сам определяю, есть ли в запросе операторы Google Dork, анализирую его соответственно и отвечаю на языке вашего запроса!
+
+Удачного поиска! 🚀`,
+
+  dorkHelp: `🎯 <b>Руководство по операторам Google Dork</b>
+
+<b>Сайты и домены:</b>
+• <code>site:example.com</code> - Поиск по одному сайту
+• <code>site:*.edu</code> - Поиск по всем доменам .edu
+• <code>-site:example.com</code> - Исключить сайт
+
+<b>Типы файлов:</b>
+• <code>filetype:pdf</code> - Найти PDF-файлы
+• <code>ext:docx</code> - Найти документы Word
+• <code>filetype:xls OR filetype:xlsx</code> - Файлы Excel
+
+<b>Где искать текст:</b>
+• <code>intitle:"error"</code> - Страницы со словом "error" в заголовке
+• <code>inurl:admin</code> - Страницы с "admin" в URL
+• <code>intext:password</code> - Страницы, содержащие "password"
+• <code>inanchor:"click here"</code> - Ссылки с определённым текстом
+
+<b>Точные фразы:</b>
+• <code>"точная фраза"</code> - Поиск точной фразы
+• <code>"admin panel" site:company.com</code> - Сочетание операторов
+
+<b>Расширенные операторы:</b>
+• <code>allintitle:admin panel login</code> - Все слова в заголовке
+• <code>allinurl:admin login</code> - Все слова в URL
+• <code>allintext:username password</code> - Все слова в тексте
+
+<b>Логика и исключения:</b>
+• <code>term1 OR term2</code> - Любое из слов
+• <code>term1 AND term2</code> - Оба слова
+• <code>-unwanted</code> - Исключить слово
+• <code>+required</code> - Обязательное слово
+
+<b>Подстановки и диапазоны:</b>
+• <code>* security</code> - Подстановочный знак
+• <code>"admin * panel"</code> - Подстановка внутри фразы
+• <code>price $100..$500</code> - Диапазоны чисел
+
+Напишите /examples, чтобы увидеть практические примеры!`,
+
+  dorkExamples: `📚 <b>Примеры Google Dork</b>
+
+<b>Исследования безопасности:</b>
+• <code>intitle:"index of" password</code>
+• <code>filetype:log inurl:"/logs/"</code>
+• <code>site:pastebin.com "password"</code>
+• <code>inurl:admin intitle:login</code>
+
+<b>Поиск файлов:</b>
+• <code>filetype:pdf site:company.com confidential</code>
+• <code>ext:xlsx "employee" OR "salary"</code>
+• <code>filetype:doc site:*.gov "classified"</code>
+• <code>inurl:upload filetype:php</code>
+
+<b>Разведка в соцсетях:</b>
+• <code>site:twitter.com "CEO announces"</code>
+• <code>site:linkedin.com "data scientist" "hiring"</code>
+• <code>site:reddit.com cryptocurrency 2024</code>
+
+<b>Технические исследования:</b>
+• <code>site:stackoverflow.com "machine learning" python</code>
+• <code>site:github.com "API key" language:python</code>
+• <code>intitle:"swagger" inurl:api</code>
+• <code>site:*.edu filetype:pdf "research paper"</code>
+
+<b>Бизнес-аналитика:</b>
+• <code>"quarterly report" filetype:pdf site:*.com</code>
+• <code>intitle:"company presentation" filetype:ppt</code>
+• <code>site:crunchbase.com "startup funding"</code>
+
+<b>Научные исследования:</b>
+• <code>site:scholar.google.com "climate change" 2024</code>
+• <code>filetype:pdf "peer reviewed" machine learning</code>
+• <code>site:*.edu "research methodology"</code>
+
+<b>Новости и тренды:</b>
+• <code>site:news.google.com "breaking news" today</code>
+• <code>intitle:"press release" 2024</code>
+• <code>site:*.com "market analysis" filetype:pdf</code>
+
+<b>Сочетание нескольких операторов:</b>
+• <code>site:reddit.com OR site:stackoverflow.com "python tips"</code>
+• <code>intitle:"data breach" -site:wikipedia.org 2024</code>
+• <code>"machine learning" (site:medium.com OR site:towardsdatascience.com)</code>
+
+Напишите любой из этих примеров, и я выполню поиск с анализом ИИ! 🚀`,
+
+  searching: '🔍 Ищу и анализирую результаты...',
+  searchingDork: '🔍 Выполняю поиск с Google Dork и анализирую результаты...',
+  noResults: '❌ По вашему запросу ничего не найдено. Попробуйте другие слова.',
+  noResultsDork: '❌ По вашему Google Dork ничего не найдено. Попробуйте изменить операторы или слова.',
+  searchError: '❌ Извините, при обработке поиска произошла ошибка. Попробуйте ещё раз.',
+  aiBudgetExhausted: '🤖 Ответы ИИ на сегодня приостановлены: дневной лимит ИИ исчерпан. Вот результаты поиска без них.',
+  noMoreResults: '📭 Больше результатов по этому поиску нет.',
+
+  newSession: '🆕 Начинаем заново. Следующее сообщение будет новым поиском.',
+  searchUsage: '🔍 Добавьте, что искать, например:\n/search site:github.com rate limiter',
+  readUsage: '📖 Пришлите ссылку, например:\n/read https://example.com/article',
+  readingPage: '📖 Читаю страницу и готовлю краткое содержание...',
+  pageBudgetExhausted: '🤖 Краткое содержание страниц на сегодня приостановлено: дневной лимит ИИ исчерпан.',
+  pageReadError: reason => `❌ Не удалось прочитать страницу: ${reason}`,
+  pageSummaryError: '❌ Извините, не удалось кратко изложить страницу. Попробуйте ещё раз.',
+  pageReadProblems: {
+    notALink: () => 'Это не похоже на ссылку. Отправьте её так: /read https://example.com/article',
+    unsupportedScheme: () => 'Читать можно только ссылки http и https.',
+    privateAddress: () => 'Этот адрес недоступен из интернета.',
+    timeout: seconds => `Страница не ответила за ${seconds} секунд.`,
+    unreachable: () => 'Не удалось открыть страницу.',
+    httpStatus: status => `Страница ответила кодом HTTP ${status}.`,
+    unsupportedType: type => `Читать можно только веб-страницы и простой текст, а эта ссылка ведёт на ${type || 'файл неизвестного типа'}.`,
+    noText: () => 'На странице не нашлось текста. Возможно, ей нужен JavaScript или вход в аккаунт.'
+  },
+
+  dorkError: (problem, hint) => `⚠️ Не удалось разобрать запрос Google Dork: ${problem}.\n\n💡 ${hint}\n\nНаберите /dork, чтобы открыть справку по операторам.`,
+  dorkProblems: {
+    unbalancedQuote: () => 'незакрытая кавычка',
+    unclosedGroup: () => 'незакрытая скобка',
+    extraParenthesis: () => 'лишняя скобка',
+    unclosedParenthesis: () => 'незакрытая скобка',
+    emptySearch: () => 'пустой запрос',
+    emptyQuotes: () => 'пустые кавычки',
+    emptyParentheses: () => 'пустые скобки',
+    unexpectedSymbol: () => 'неожиданный символ',
+    emptyOperator: ({ operator }) => `пустой оператор ${operator}:`,
+    invalidRange: () => 'неверное значение numrange:'
+  },
+  dorkHints: {
+    unbalancedQuote: ({ fragment }) => `Добавьте закрывающую " после "${fragment}`,
+    unclosedGroup: ({ operator }) => `Добавьте закрывающую ")" в группу ${operator}:`,
+    extraParenthesis: () => 'Уберите лишнюю ")" или добавьте парную "("',
+    unclosedParenthesis: () => 'Добавьте закрывающую ")"',
+    emptySearch: () => 'Введите слова для поиска',
+    emptyQuotes: () => 'Напишите точную фразу между кавычками или уберите их',
+    emptyParentheses: () => 'Напишите слова между "(" и ")" или уберите скобки',
+    unexpectedSymbol: () => 'Проверьте, где стоят -, +, OR, AND и скобки',
+    emptyOperator: ({ example }) => `Укажите значение сразу после двоеточия, например ${example}`,
+    invalidRange: () => 'Укажите два числа, например numrange:100-500'
+  },
+
+  leftOut: operator => `Custom Search API не поддерживает ${operator}:, оператор пропущен`,
+  mayBeIgnored: operator => `Custom Search API не поддерживает ${operator}:, оператор может быть проигнорирован`,
+  invalidDateRange: value => `daterange:${value} — неверный диапазон прошедших дат, он пропущен`,
+  oneDateRange: 'Можно применить только один daterange:, остальные пропущены',
+  dateRangeEndIgnored: days => `daterange: не поддерживает конечную дату, показано всё за последние ${days} ${plural(days, 'день', 'дня', 'дней')}`,
+  dateRangeUnsupported: provider => `${provider} не поддерживает daterange:, оператор пропущен`,
+  searchedAsText: (operator, provider, value) => `${provider} не поддерживает ${operator}:, «${value}» искали как обычный текст`,
+  rangesUnsupported: provider => `${provider} не поддерживает диапазоны чисел, они пропущены`,
+  providerOutOfQuota: provider => `У ${provider} закончилась квота`,
+  providerUnavailable: provider => `${provider} был недоступен`,
+  answeredInstead: (problems, provider) => `${problems}, поэтому ответил ${provider}`,
+
+  watchUsage: '👀 Добавьте поиск для отслеживания и как часто его повторять, например:\n/watch site:pastebin.com "ourcompany" daily\n\nЯ буду присылать только результаты, появившиеся после прошлой проверки.',
+  watchLimit: max => `❌ В этом чате уже ${max} сохранённых поисков. Сначала удалите один командой /unwatch.`,
+  unwatchUsage: '👀 Добавьте номер сохранённого поиска, который нужно остановить, например:\n/unwatch 3\n\nНомера можно посмотреть в /watches.',
+  watchStopped: id => `🔕 Сохранённый поиск #${id} остановлен.`,
+  watchNotFound: id => `❌ В этом чате нет сохранённого поиска #${id}.`,
+
+  exportUsage: '📤 Используйте /export [число поисков] [csv|json], например:\n/export 20 json',
+  exportEmpty: '📤 Пока нечего экспортировать. Сначала что-нибудь найдите.',
+  exportCaption: count => `📤 Ваши последние ${count} ${plural(count, 'поиск', 'поиска', 'поисков')}`,
+  forgotten: (searches, watches) => `🗑 Удалено из истории: ${searches}, удалено сохранённых поисков: ${watches}. Запросы доступа удалены, настройки сброшены.\n\nРезультаты для перелистывания и память разговоров в группах не связаны с вами, поэтому они хранятся, пока не истекут — не дольше суток.`,
+
+  langCurrent: language => `🌐 <b>Язык:</b> ${language}\n\nВыберите другой ниже или отправьте /lang auto, чтобы следовать языку каждого запроса.`,
+  langAuto: '🌐 Буду искать и отвечать на языке каждого запроса, а если он неясен — на языке вашего Telegram.',
+  langChanged: language => `🌐 Теперь я ищу и отвечаю на языке: ${language}.`,
+  langUsage: codes => `🌐 Используйте /lang и один из кодов: ${codes}`,
+
+  dorkMembersOnly: '🔒 Поиск с операторами Google Dork доступен только одобренным участникам. Попросите администратора добавить вас через /allow.',
+  accessBlocked: reason => `🚫 Этот поиск вам недоступен: ${reason}.`,
+  approvalRequested: '🛂 Этот поиск должен одобрить администратор. Я уже отправил запрос и выполню поиск здесь, как только его одобрят.',
+  approvalDeclined: query => `❌ Администратор отклонил ваш поиск: ${query}`,
+  watchNeedsApproval: '🛂 Такой сохранённый поиск пришлось бы одобрять при каждом запуске. Попросите администратора создать его.',
+  adminOnly: '🔒 Это могут делать только администраторы бота.',
+  accessControlOff: '🔓 Контроль доступа выключен, поэтому любой может выполнять любой поиск. Укажите в BOT_ADMINS Telegram id администраторов, чтобы включить его.',
+  allowUsage: '🔐 Используйте /allow &lt;id пользователя&gt;, /allow admin &lt;id пользователя&gt; или /allow chat [id чата], либо ответьте на сообщение человека командой /allow.\n\nОтправьте просто /allow, чтобы увидеть список.',
+  denyUsage: '🔐 Используйте /deny &lt;id пользователя&gt; или /deny chat [id чата], либо ответьте на сообщение человека командой /deny.',
+  allowedUser: id => `✅ Пользователь ${id} теперь может искать с операторами.`,
+  allowedAdmin: id => `✅ Пользователь ${id} теперь администратор бота.`,
+  allowedChat: id => `✅ Все участники чата ${id} теперь могут искать с операторами.`,
+  deniedUser: id => `🚫 Пользователь ${id} удалён из списка доступа.`,
+  deniedChat: id => `🚫 Чат ${id} удалён из списка доступа.`,
+  notListed: id => `ℹ️ ${id} нет в списке доступа.`,
+  configuredAdmin: id => `ℹ️ Пользователь ${id} — администратор через BOT_ADMINS; уберите его оттуда.`,
+  approve: '✅ Одобрить',
+  decline: '❌ Отклонить',
+  approvalWaiting: 'Поиск ждёт одобрения:',
+  askedIn: (user, id, where) => `${user} (${id}), ${where}`,
+  aPrivateChat: 'личный чат',
+  aGroup: 'группа',
+  approvedBy: admin => `Одобрил ${admin}:`,
+  declinedBy: admin => `Отклонил ${admin}:`,
+  accessListTitle: 'Список доступа',
+  envAdmins: ids => `Администраторы из BOT_ADMINS: ${ids}`,
+  listedSubject: (chat, id, admin) => `${chat ? 'Чат' : 'Пользователь'} ${id}${admin ? ' (администратор)' : ''}`,
+  accessListEmpty: 'Больше в списке пока никого нет.',
+  accessListTip: 'Добавить: /allow <id пользователя>, /allow admin <id пользователя> или /allow chat, убрать: /deny.',
+  noDenials: 'Отклонённых попыток пока нет.',
+  recentDenials: 'Последние отклонённые попытки:',
+  deniedInline: 'инлайн',
+  deniedInPrivate: 'личный чат',
+  deniedInChat: id => `чат ${id}`,
+  deniedUserRole: (id, role) => `пользователь ${id} (${role})`,
+  decidedBy: (approved, admin) => `${approved ? 'одобрил' : 'отклонил'} ${admin}`,
+
+  resultsFor: 'Результаты поиска:',
+  dorkResultsFor: 'Результаты Google Dork:',
+  answeredBy: provider => `Источник: ${provider}`,
+  resultCount: total => `результатов: ${total}`,
+  cachedAgo: minutes => `⚡ из кэша, ${minutes} мин назад`,
+  aiOverview: 'Обзор ИИ:',
+  writingOverview: 'Пишу обзор…',
+  analyzing: 'Анализирую…',
+  analysisInProgress: '⏳ Идёт анализ ИИ…',
+  resultsTip: '💡 Нажмите 📖, чтобы кратко изложить страницу, или задайте уточняющий вопрос.',
+
+  searchTypeLabel: 'Тип поиска:',
+  sentTo: provider => `Отправлено в ${provider}:`,
+  searchNotes: 'Замечания к поиску:',
+  searchStats: 'Статистика:',
+  foundTotal: total => `Всего найдено: ${total}`,
+  completedIn: seconds => `Поиск занял ${seconds} с`,
+  showingTop: count => `Показаны первые результаты: ${count}`,
+  showingTopWithAI: count => `Показаны первые результаты с анализом ИИ: ${count}`,
+  servedFromCache: minutes => `⚡ Из кэша (получено ${minutes} мин назад, добавьте !fresh, чтобы обновить)`,
+  resultsBelow: 'Результаты ниже:',
+  resultNumber: index => `Результат ${index}`,
+  source: 'Источник:',
+  cached: 'из кэша',
+  description: 'Описание:',
+  aiInsight: 'Анализ ИИ:',
+  aiInsightCached: 'Анализ ИИ (из кэша):',
+  aiUnavailable: 'Анализ ИИ недоступен.',
+  readFullArticle: 'Читать статью целиком',
+  searchComplete: 'Поиск завершён!',
+  searchTips: '💡 <b>Советы:</b>\n• Используйте операторы Google Dork для точного поиска\n• Команда /dork расскажет о продвинутых приёмах поиска\n• Спросите что-нибудь ещё или уточните запрос\n\n🔍 Готов к следующему поиску!',
+  dorkSearchTips: '💡 <b>Советы:</b>\n• Больше шаблонов Google Dork в /examples\n• Справка по операторам в /dork\n• Сочетайте несколько операторов для точных результатов\n\n🔍 Готов к следующему продвинутому поиску!',
+  pageRange: (from, to) => `📄 Результаты ${from}–${to}`,
+  pageTotal: total => ` из примерно ${total}`,
+  pageProvider: provider => `, источник: ${provider}`,
+  detailedResults: 'Подробные результаты:',
+  rankProviderOrder: 'порядок поисковика',
+  rankRelevance: score => `релевантность ${score}`,
+  rankMerged: links => `объединено ${links}`,
+
+  foundIn: (total, seconds) => `Найдено ${total} за ${seconds} с`,
+  topResults: count => `Лучшие результаты (${count}):`,
+  readMore: 'Подробнее',
+  fallbackTip: '💡 Совет: используйте операторы Google Dork для точного поиска или спросите меня о чём-нибудь ещё!',
+  dorkFallbackTip: '💡 Совет: примеры Google Dork есть в /examples, или спросите меня о чём-нибудь ещё!',
+
+  allLinksFor: 'Все ссылки по запросу:',
+  pageSummaryTitle: title => `Краткое содержание: ${title}`,
+  aboutWords: count => `около ${count.toLocaleString('ru-RU')} ${plural(count, 'слова', 'слов', 'слов')}`,
+  tldr: 'Коротко:',
+  keyPoints: 'Главное:',
+  pageTruncated: '⚠️ Страница длинная, изложена только её первая часть.',
+  openThePage: 'Открыть страницу',
+
+  summarizePage: '📖 Кратко изложить страницу',
+  previousPage: size => `⬅️ Предыдущие ${size}`,
+  nextPage: size => `Следующие ${size} ➡️`,
+  showAllLinks: '🔗 Все ссылки',
+  searchExpired: '⌛ Этот поиск устарел. Пожалуйста, повторите поиск.',
+  historyExpired: '⌛ Этого поиска больше нет в вашей истории.',
+  adminsDecide: '🔒 Решать о поисках могут только администраторы бота.',
+  approved: '✅ Одобрено',
+  declined: '❌ Отклонено',
+  alreadyDecided: '⌛ По этому поиску уже принято решение.',
+
+  openPage: '🔗 Открыть страницу',
+  insightOnItsWay: '🤖 Анализ ИИ скоро появится…',
+  searchNotAllowed: '🚫 Поиск запрещён',
+  searchLimitReached: '⏳ Достигнут лимит поисков',
+  askAdminInChat: reason => `${reason}; отправьте запрос мне в чат, чтобы спросить администратора`,
+
+  rateLimited: (max, period) => `⏳ Вы достигли лимита: ${max} ${plural(max, 'поиск', 'поиска', 'поисков')} ${period}.`,
+  retryAt: (wait, time) => `Искать снова можно через ${wait} (в ${time} UTC).`,
+  limitPeriods: { minute: 'в минуту', day: 'в день', chatMinute: 'в минуту в этом чате', chatDay: 'в день в этом чате' },
+  seconds: count => `${count} ${plural(count, 'секунду', 'секунды', 'секунд')}`,
+  minutes: count => `${count} ${plural(count, 'минуту', 'минуты', 'минут')}`,
+  hours: count => `${count} ${plural(count, 'час', 'часа', 'часов')}`,
+
+  settingsTitle: 'Ваши настройки',
+  settingsTip: 'Нажмите на настройку, чтобы изменить её. Изменения применятся к следующему поиску.',
+  settingLabels: {
+    resultCount: '📊 Результатов на странице',
+    language: '🌐 Язык',
+    region: '📍 Регион',
+    safeSearch: '🛡 Безопасный поиск',
+    aiSummaries: '🤖 Сводки ИИ',
+    summaryLength: '📏 Длина сводки',
+    display: '🖥 Отображение',
+    rankDebug: '🧪 Подробности ранжирования'
+  },
+  safeSearchLevels: { off: 'Выкл.', moderate: 'Умеренный', strict: 'Строгий' },
+  summaryLengths: { short: 'Короткая', medium: 'Средняя', long: 'Длинная' },
+  displayModes: { live: 'Одно сообщение', classic: 'Сообщение на результат' },
+  auto: 'Авто',
+  on: 'Вкл.',
+  off: 'Выкл.',
+  resetSettings: '♻️ Сбросить настройки',
+  settingsReset: '♻️ Настройки сброшены',
+  back: '⬅️ Назад',
+
+  noWatches: '👀 <b>В этом чате нет сохранённых поисков.</b>\n\nСоздайте поиск командой /watch &lt;запрос&gt; [daily|hourly].',
+  watchesTitle: 'Сохранённые поиски:',
+  watchSchedule: (hourly, checked) => `${hourly ? 'Каждый час' : 'Каждый день'}, последняя проверка ${checked}`,
+  minutesAgo: minutes => `${minutes} мин назад`,
+  hoursAgo: hours => `${hours} ч назад`,
+  watchesTip: 'Остановить поиск: /unwatch <id>.',
+  noHistory: '🕘 <b>Поисков пока нет.</b>\n\nЗдесь появляются ваши поиски, чтобы их можно было повторить.',
+  historyTitle: 'Ваши недавние поиски:',
+  resultTotal: count => `${count} ${plural(count, 'результат', 'результата', 'результатов')}`,
+  historyTip: 'Нажмите на номер, чтобы повторить поиск. /export присылает их файлом, /forget удаляет.',
+  watching: 'Слежу за запросом:',
+  watchCreated: (hourly, baseline) => `Буду проверять ${hourly ? 'каждый час' : 'раз в день'} и присылать только новые результаты. Текущие (${baseline}) считаются уже просмотренными.`,
+  watchCreatedTip: id => `Остановить: /unwatch ${id}, все подписки: /watches.`,
+  newResultsFor: count => `${count} ${plural(count, 'новый результат', 'новых результата', 'новых результатов')} по запросу:`,
+  watchAlertTip: id => `Сохранённый поиск #${id} · /unwatch ${id}, чтобы остановить`,
+
+  aboutYourSearch: 'О вашем поиске:',
+  followUpTip: '💡 Спросите ещё что-нибудь об этих результатах или начните новый поиск командой /new.',
+
+  commands: {
+    search: 'Поиск в интернете (так ищут в группах)',
+    read: 'Краткое содержание всей страницы',
+    new: 'Забыть последний поиск и начать заново',
+    history: 'Недавние поиски',
+    watch: 'Уведомления о новых результатах поиска',
+    watches: 'Сохранённые поиски этого чата',
+    unwatch: 'Остановить сохранённый поиск',
+    settings: 'Результаты, язык, SafeSearch и настройки ИИ',
+    lang: 'Выбрать язык поиска и ответов',
+    export: 'Скачать историю поиска',
+    forget: 'Удалить историю, сохранённые поиски и настройки',
+    dork: 'Руководство по операторам Google Dork',
+    examples: 'Примеры Google Dork',
+    help: 'Как пользоваться ботом',
+    start: 'Приветствие'
+  }
+};
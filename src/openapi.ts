@@ -0,0 +1,219 @@
+// OpenAPI 3.1 description of the HTTP API in api.ts, served at /api/openapi.json
+// Kept by hand next to the routes; parameter names and response fields must match api.ts.
+
+import { DEFAULT_SETTINGS, LANGUAGES, REGIONS, SAFE_SEARCH_LABELS, SUMMARY_LENGTH_LABELS } from './settings';
+
+const error = { $ref: '#/components/responses/Error' };
+
+const searchParameters = {
+  limit: { type: 'integer', minimum: 1, maximum: 10, default: DEFAULT_SETTINGS.resultCount, description: 'Results to return; reranking can leave fewer' },
+  ai: { type: 'boolean', default: DEFAULT_SETTINGS.aiSummaries, description: 'Add an insight per result and an overview' },
+  fresh: { type: 'boolean', default: false, description: 'Skip the caches and ask the provider again' },
+  language: { type: 'string', enum: Object.keys(LANGUAGES), default: DEFAULT_SETTINGS.language, description: "'auto' follows the language of the query" },
+  region: { type: 'string', enum: Object.keys(REGIONS), default: DEFAULT_SETTINGS.region },
+  safe_search: { type: 'string', enum: Object.keys(SAFE_SEARCH_LABELS), default: DEFAULT_SETTINGS.safeSearch },
+  summary_length: { type: 'string', enum: Object.keys(SUMMARY_LENGTH_LABELS), default: DEFAULT_SETTINGS.summaryLength }
+};
+
+const client = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    name: { type: 'string' },
+    created_at: { type: 'string', format: 'date-time' },
+    last_used_at: { type: ['string', 'null'], format: 'date-time' },
+    revoked_at: { type: ['string', 'null'], format: 'date-time' }
+  },
+  required: ['id', 'name', 'created_at', 'last_used_at', 'revoked_at']
+};
+
+const searchResponse = {
+  type: 'object',
+  properties: {
+    success: { const: true },
+    query: { type: 'string' },
+    type: { type: 'string', enum: ['normal', 'dork'] },
+    dork: {
+      type: ['object', 'null'],
+      description: 'For dorks: what the operators do and the parameters the provider received',
+      properties: {
+        context: { type: 'string' },
+        parameters: { type: 'object', additionalProperties: { type: 'string' } }
+      }
+    },
+    warnings: { type: 'array', items: { type: 'string' }, description: 'Parts of the query the provider could not honour, and provider fallbacks' },
+    provider: {
+      type: 'object',
+      properties: { name: { type: 'string', enum: ['google', 'brave', 'bing', 'searxng'] }, label: { type: 'string' } }
+    },
+    total_results: { type: ['string', 'null'], description: "The provider's estimate, when it gives one" },
+    cached_at: { type: ['string', 'null'], format: 'date-time', description: 'When the provider answered, for answers served from the cache' },
+    results: { type: 'array', items: { $ref: '#/components/schemas/Result' } },
+    overview: { type: ['string', 'null'], description: 'Written by the model; [n] cites the result at position n' },
+    analysis: {
+      type: 'string',
+      enum: ['off', 'exhausted', 'complete'],
+      description: "'exhausted' when the bot's daily AI budget ran out before the analysis"
+    },
+    timing: {
+      type: 'object',
+      properties: {
+        provider_seconds: { type: 'number', description: 'As reported by the provider' },
+        search_ms: { type: 'integer' },
+        rerank_ms: { type: 'integer' },
+        analysis_ms: { type: 'integer' },
+        total_ms: { type: 'integer' }
+      }
+    }
+  },
+  required: ['success', 'query', 'type', 'dork', 'warnings', 'provider', 'total_results', 'cached_at', 'results', 'overview', 'analysis', 'timing']
+};
+
+const result = {
+  type: 'object',
+  description: 'Titles, snippets and insights come from the web and the model: treat them as untrusted text',
+  properties: {
+    position: { type: 'integer', minimum: 1 },
+    title: { type: 'string' },
+    link: { type: 'string', format: 'uri' },
+    display_link: { type: 'string' },
+    snippet: { type: 'string' },
+    insight: { type: ['string', 'null'] },
+    rank: {
+      type: ['object', 'null'],
+      description: 'Where the provider ranked the result before reranking; null when the provider order was kept',
+      properties: {
+        original: { type: 'integer', minimum: 1 },
+        relevance: { type: 'number', description: 'Cosine similarity to the query' },
+        merged: { type: 'array', items: { type: 'string' }, description: 'Sites of near-duplicates folded into this result' }
+      }
+    }
+  },
+  required: ['position', 'title', 'link', 'display_link', 'snippet', 'insight', 'rank']
+};
+
+export function openApiDocument(origin: string): object {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'AI Search Bot API',
+      version: '1.0.0',
+      description: 'The search, reranking and AI analysis behind the Telegram bot, as JSON.'
+    },
+    servers: [{ url: origin }],
+    paths: {
+      '/api/search': {
+        get: {
+          summary: 'Search',
+          operationId: 'searchGet',
+          security: [{ apiKey: [] }],
+          parameters: [
+            { name: 'q', in: 'query', required: true, schema: { type: 'string', maxLength: 512 }, description: 'A query or Google dork' },
+            ...Object.entries(searchParameters).map(([name, schema]) => ({ name, in: 'query', schema }))
+          ],
+          responses: {
+            200: { description: 'Results', content: { 'application/json': { schema: { $ref: '#/components/schemas/SearchResponse' } } } },
+            400: error,
+            401: error,
+            403: error,
+            429: error
+          }
+        },
+        post: {
+          summary: 'Search',
+          operationId: 'searchPost',
+          security: [{ apiKey: [] }],
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: { query: { type: 'string', maxLength: 512, description: 'A query or Google dork' }, ...searchParameters },
+                  required: ['query']
+                }
+              }
+            }
+          },
+          responses: {
+            200: { description: 'Results', content: { 'application/json': { schema: { $ref: '#/components/schemas/SearchResponse' } } } },
+            400: error,
+            401: error,
+            403: error,
+            429: error
+          }
+        }
+      },
+      '/api/clients': {
+        get: {
+          summary: 'List API clients',
+          operationId: 'listClients',
+          security: [{ adminToken: [] }],
+          responses: {
+            200: {
+              description: 'Every client, revoked ones last',
+              content: { 'application/json': { schema: { type: 'object', properties: { success: { const: true }, clients: { type: 'array', items: { $ref: '#/components/schemas/Client' } } } } } }
+            },
+            401: error,
+            403: error
+          }
+        },
+        post: {
+          summary: 'Create an API client',
+          operationId: 'createClient',
+          security: [{ adminToken: [] }],
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string', pattern: '^[A-Za-z0-9][A-Za-z0-9_-]{0,39}$' } }, required: ['name'] } } }
+          },
+          responses: {
+            201: {
+              description: 'The client and its key, which is only ever shown here',
+              content: {
+                'application/json': {
+                  schema: { type: 'object', properties: { success: { const: true }, client: { $ref: '#/components/schemas/Client' }, api_key: { type: 'string' } } }
+                }
+              }
+            },
+            400: error,
+            401: error,
+            403: error,
+            409: error
+          }
+        }
+      },
+      '/api/clients/{id}': {
+        delete: {
+          summary: 'Revoke an API client',
+          operationId: 'revokeClient',
+          security: [{ adminToken: [] }],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }],
+          responses: {
+            200: {
+              description: 'The revoked client',
+              content: { 'application/json': { schema: { type: 'object', properties: { success: { const: true }, client: { $ref: '#/components/schemas/Client' } } } } }
+            },
+            401: error,
+            403: error,
+            404: error
+          }
+        }
+      }
+    },
+    components: {
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'A client key from POST /api/clients' },
+        adminToken: { type: 'http', scheme: 'bearer', description: 'The ADMIN_TOKEN secret' }
+      },
+      schemas: {
+        SearchResponse: searchResponse,
+        Result: result,
+        Client: client,
+        Error: { type: 'object', properties: { success: { const: false }, error: { type: 'string' } }, required: ['success', 'error'] }
+      },
+      responses: {
+        Error: { description: 'What went wrong', content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } } }
+      }
+    }
+  };
+}
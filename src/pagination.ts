@@ -0,0 +1,126 @@
+// Result pagination state and inline keyboards
+// Callback data is capped at 64 bytes by Telegram, so buttons only carry a short state id
+// and an offset; the query and the results fetched so far are kept in KV.
+
+import type { SearchType } from './dork';
+import type { EnrichedResult, SearchInfo } from './results';
+import type { SearchParameters } from './query-builder';
+import type { ProviderName } from './providers/provider';
+import type { ResultDisplay, SummaryLength } from './settings';
+import { messages, type Locale } from './i18n';
+import type { InlineKeyboardButton, InlineKeyboardMarkup } from './telegram';
+
+// None of the search APIs return results past the 100th
+export const MAX_RESULTS = 100;
+
+const STATE_TTL_SECONDS = 60 * 60 * 24;
+
+export interface SearchState {
+  query: string;
+  searchType: SearchType;
+  searchContext: string;
+  provider: ProviderName; // Later pages come from the provider that answered the first one
+  params: SearchParameters;
+  searchInfo: SearchInfo;
+  // The searching user's settings at the time, so every page looks like the first
+  pageSize: number;
+  aiSummaries: boolean;
+  summaryLength: SummaryLength;
+  display: ResultDisplay;
+  language: string; // What the search ran and is answered in, or 'auto' when it was not known
+  locale: Locale; // Of the bot's own text on later pages
+  rankDebug: boolean;
+  // Every result fetched so far, with AI insights once they have been generated
+  results: EnrichedResult[];
+  // How many results the provider has returned; fewer are kept when reranking merges some
+  fetched: number;
+  // False once the API has no further pages
+  hasMore: boolean;
+}
+
+export type PaginationAction =
+  | { action: 'page'; stateId: string; offset: number }
+  | { action: 'links'; stateId: string }
+  | { action: 'read'; stateId: string; index: number };
+
+function stateKey(stateId: string): string {
+  return `search:${stateId}`;
+}
+
+function newStateId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, byte => byte.toString(36).padStart(2, '0')).join('').slice(0, 12);
+}
+
+export async function saveSearchState(state: SearchState, kv: KVNamespace, stateId: string = newStateId()): Promise<string> {
+  await kv.put(stateKey(stateId), JSON.stringify(state), { expirationTtl: STATE_TTL_SECONDS });
+  return stateId;
+}
+
+export async function loadSearchState(stateId: string, kv: KVNamespace): Promise<SearchState | null> {
+  return kv.get<SearchState>(stateKey(stateId), 'json');
+}
+
+export async function deleteSearchState(stateId: string, kv: KVNamespace): Promise<void> {
+  await kv.delete(stateKey(stateId));
+}
+
+export function parsePaginationData(data: string): PaginationAction | null {
+  const [prefix, stateId, number] = data.split(':');
+
+  if (prefix === 'pg' && stateId && /^\d+$/.test(number ?? '')) {
+    return { action: 'page', stateId, offset: Number(number) };
+  }
+
+  if (prefix === 'ln' && stateId) {
+    return { action: 'links', stateId };
+  }
+
+  if (prefix === 'rd' && stateId && /^\d+$/.test(number ?? '')) {
+    return { action: 'read', stateId, index: Number(number) };
+  }
+
+  return null;
+}
+
+export function canShowPage(state: SearchState, offset: number): boolean {
+  return offset >= 0 && offset < MAX_RESULTS && (offset < state.results.length || state.hasMore);
+}
+
+// Button under a single result; `index` points into the stored results
+export function buildResultKeyboard(stateId: string, index: number, locale: Locale = 'en'): InlineKeyboardMarkup {
+  return { inline_keyboard: [[{ text: messages(locale).summarizePage, callback_data: `rd:${stateId}:${index}` }]] };
+}
+
+// With readButtons the page's "Summarize full page" buttons are included, for results shown in a single message
+export function buildResultsKeyboard(stateId: string, state: SearchState, offset: number, readButtons: boolean = false): InlineKeyboardMarkup {
+  const t = messages(state.locale);
+  const navigation: InlineKeyboardButton[] = [];
+  const size = state.pageSize;
+  const rows: InlineKeyboardButton[][] = [];
+
+  if (readButtons) {
+    const count = Math.min(size, state.results.length - offset);
+    for (let i = 0; i < count; i += 5) {
+      rows.push(Array.from({ length: Math.min(5, count - i) }, (_, j) => ({
+        text: `📖 ${offset + i + j + 1}`,
+        callback_data: `rd:${stateId}:${offset + i + j}`
+      })));
+    }
+  }
+
+  if (offset > 0) {
+    navigation.push({ text: t.previousPage(size), callback_data: `pg:${stateId}:${Math.max(0, offset - size)}` });
+  }
+
+  if (canShowPage(state, offset + size)) {
+    navigation.push({ text: t.nextPage(size), callback_data: `pg:${stateId}:${offset + size}` });
+  }
+
+  if (navigation.length > 0) {
+    rows.push(navigation);
+  }
+  rows.push([{ text: t.showAllLinks, callback_data: `ln:${stateId}` }]);
+
+  return { inline_keyboard: rows };
+}
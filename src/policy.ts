@@ -0,0 +1,127 @@
+// Search policy: which searches each role may run
+// A rule matches on a search being a dork at all, on the operators it uses and on a pattern in its
+// text; every condition a rule gives has to hold. A matching rule either blocks the search or holds
+// it until an admin approves it, and when several match, blocking wins. ACCESS_POLICY replaces the
+// default below with JSON of the same shape.
+
+import { detectSearchType, walkDork, type DorkQuery } from './dork';
+
+export type Role = 'guest' | 'member' | 'admin';
+
+export const ROLES: Role[] = ['guest', 'member', 'admin'];
+
+export type PolicyAction = 'block' | 'approve';
+
+export interface PolicyRule {
+  action: PolicyAction;
+  dork?: boolean; // true: only dork searches, false: only plain ones
+  operators?: string[]; // Any of these operators, e.g. ["filetype", "ext"]
+  pattern?: string; // Case-insensitive regular expression tested against the whole query
+  reason: string; // Shown to the user and kept in the audit log
+}
+
+export type AccessPolicy = Record<Role, PolicyRule[]>;
+
+export type PolicyDecision =
+  | { action: 'allow' }
+  | { action: PolicyAction; reason: string };
+
+// The kind of dorks /examples advertises: credentials, exposed files and personal data
+const SENSITIVE_TERMS = '\\b(passw(or)?d|passwd|credentials?|api[ _-]?keys?|private[ _-]?key|secret[ _-]?key|salary|salaries|payroll|employee|ssn|confidential|classified)\\b|index of';
+const SENSITIVE_FILES = '\\b(filetype|ext):\\s*"?(log|sql|env|bak|pem|key|cfg|conf|ini)\\b';
+
+export const DEFAULT_POLICY: AccessPolicy = {
+  guest: [
+    { action: 'block', dork: true, reason: 'Dork searches are for approved members' }
+  ],
+  member: [
+    { action: 'approve', dork: true, pattern: SENSITIVE_TERMS, reason: 'Looks for credentials or personal data' },
+    { action: 'approve', pattern: SENSITIVE_FILES, reason: 'Looks for logs, backups or key files' }
+  ],
+  admin: []
+};
+
+function isRule(value: unknown): value is PolicyRule {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const rule = value as Record<string, unknown>;
+  if ((rule.action !== 'block' && rule.action !== 'approve') || typeof rule.reason !== 'string') {
+    return false;
+  }
+  if (rule.dork !== undefined && typeof rule.dork !== 'boolean') {
+    return false;
+  }
+  if (rule.operators !== undefined && !(Array.isArray(rule.operators) && rule.operators.every(op => typeof op === 'string'))) {
+    return false;
+  }
+  if (rule.pattern !== undefined) {
+    if (typeof rule.pattern !== 'string') {
+      return false;
+    }
+    try {
+      new RegExp(rule.pattern, 'iu');
+    } catch {
+      return false;
+    }
+  }
+  return true;
+}
+
+// A role left out of ACCESS_POLICY has no rules; a policy that does not parse is replaced by the default
+export function parsePolicy(value: string | undefined): AccessPolicy {
+  if (!value) {
+    return DEFAULT_POLICY;
+  }
+
+  try {
+    const parsed = JSON.parse(value) as Record<string, unknown>;
+    const policy: AccessPolicy = { guest: [], member: [], admin: [] };
+    for (const role of ROLES) {
+      const rules = parsed[role] ?? [];
+      if (!Array.isArray(rules) || !rules.every(isRule)) {
+        throw new Error(`invalid rules for ${role}`);
+      }
+      policy[role] = rules;
+    }
+    return policy;
+  } catch (error) {
+    console.error('ACCESS_POLICY is not a valid policy, using the default:', error);
+    return DEFAULT_POLICY;
+  }
+}
+
+function usedOperators(dork: DorkQuery): Set<string> {
+  const operators = new Set<string>();
+  walkDork(dork.root, node => {
+    if (node.type === 'operator') {
+      operators.add(node.name);
+    }
+  });
+  return operators;
+}
+
+function matches(rule: PolicyRule, dork: DorkQuery, operators: Set<string>): boolean {
+  if (rule.dork !== undefined && (detectSearchType(dork) === 'dork') !== rule.dork) {
+    return false;
+  }
+  if (rule.operators && !rule.operators.some(operator => operators.has(operator.toLowerCase()))) {
+    return false;
+  }
+  if (rule.pattern !== undefined && !new RegExp(rule.pattern, 'iu').test(dork.source)) {
+    return false;
+  }
+  return true;
+}
+
+export function evaluatePolicy(dork: DorkQuery, role: Role, policy: AccessPolicy): PolicyDecision {
+  const operators = usedOperators(dork);
+  const matched = policy[role].filter(rule => matches(rule, dork, operators));
+  const rule = matched.find(candidate => candidate.action === 'block') ?? matched[0];
+  return rule ? { action: rule.action, reason: rule.reason } : { action: 'allow' };
+}
+
+// Whether the role may not run any dork at all, so there is no point showing it the dork guides
+export function blocksAllDorks(role: Role, policy: AccessPolicy): boolean {
+  return policy[role].some(rule => rule.action === 'block' && rule.dork !== false && !rule.operators && rule.pattern === undefined);
+}
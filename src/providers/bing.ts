@@ -0,0 +1,65 @@
+// Bing Web Search API
+
+import { buildQueryRequest } from '../query-builder';
+import { fetchJson, hostnameOf, secondsSince, RESULTS_PER_REQUEST, type SearchProvider } from './provider';
+
+interface BingSearchResponse {
+  webPages?: {
+    totalEstimatedMatches?: number;
+    value: Array<{
+      name: string;
+      url: string;
+      snippet?: string;
+      displayUrl?: string;
+    }>;
+  };
+}
+
+export const bingProvider: SearchProvider = {
+  name: 'bing',
+  label: 'Bing',
+  supportedOperators: new Set(['site', 'filetype', 'ext', 'intitle', 'inanchor', 'loc', 'location']),
+
+  isConfigured(env) {
+    return Boolean(env.BING_SEARCH_API_KEY);
+  },
+
+  buildRequest(dork, locale) {
+    return buildQueryRequest(dork, this.label, this.supportedOperators, locale);
+  },
+
+  async search(params, env, start) {
+    const searchUrl = new URL(env.BING_SEARCH_ENDPOINT || 'https://api.bing.microsoft.com/v7.0/search');
+    searchUrl.searchParams.set('q', params.q);
+    searchUrl.searchParams.set('count', String(RESULTS_PER_REQUEST));
+    searchUrl.searchParams.set('offset', String(start - 1));
+    searchUrl.searchParams.set('textFormat', 'Raw');
+    if (params.safe) {
+      searchUrl.searchParams.set('safeSearch', params.safe[0].toUpperCase() + params.safe.slice(1));
+    }
+    if (params.hl) {
+      searchUrl.searchParams.set('setLang', params.hl);
+    }
+    if (params.gl) {
+      searchUrl.searchParams.set('cc', params.gl);
+    }
+
+    const startedAt = Date.now();
+    const result = await fetchJson<BingSearchResponse>(this.label, searchUrl, {
+      headers: { 'Ocp-Apim-Subscription-Key': env.BING_SEARCH_API_KEY ?? '' }
+    });
+    const items = result.webPages?.value ?? [];
+    const total = result.webPages?.totalEstimatedMatches;
+
+    return {
+      items: items.map(item => ({
+        title: item.name,
+        link: item.url,
+        snippet: item.snippet ?? '',
+        displayLink: hostnameOf(item.url)
+      })),
+      searchInfo: { totalResults: total === undefined ? undefined : String(total), searchTime: secondsSince(startedAt), provider: this.label },
+      hasMore: items.length === RESULTS_PER_REQUEST && (total === undefined || total >= start + RESULTS_PER_REQUEST)
+    };
+  }
+};
@@ -0,0 +1,71 @@
+// Brave Search API
+
+import { toPlainText } from '../render';
+import { buildQueryRequest } from '../query-builder';
+import { fetchJson, hostnameOf, secondsSince, RESULTS_PER_REQUEST, type SearchProvider } from './provider';
+
+interface BraveSearchResponse {
+  query?: {
+    more_results_available?: boolean;
+  };
+  web?: {
+    results: Array<{
+      title: string;
+      url: string;
+      description?: string;
+      meta_url?: { hostname?: string };
+    }>;
+  };
+}
+
+// Brave pages by page number rather than by result, and stops after the tenth page
+const MAX_OFFSET = 9;
+
+export const braveProvider: SearchProvider = {
+  name: 'brave',
+  label: 'Brave Search',
+  supportedOperators: new Set(['site', 'filetype', 'ext', 'intitle', 'loc']),
+
+  isConfigured(env) {
+    return Boolean(env.BRAVE_SEARCH_API_KEY);
+  },
+
+  buildRequest(dork, locale) {
+    return buildQueryRequest(dork, this.label, this.supportedOperators, locale);
+  },
+
+  async search(params, env, start) {
+    const offset = Math.floor((start - 1) / RESULTS_PER_REQUEST);
+    const searchUrl = new URL('https://api.search.brave.com/res/v1/web/search');
+    searchUrl.searchParams.set('q', params.q);
+    searchUrl.searchParams.set('count', String(RESULTS_PER_REQUEST));
+    searchUrl.searchParams.set('offset', String(offset));
+    if (params.safe) {
+      searchUrl.searchParams.set('safesearch', params.safe);
+    }
+    if (params.hl) {
+      searchUrl.searchParams.set('search_lang', params.hl);
+    }
+    if (params.gl) {
+      searchUrl.searchParams.set('country', params.gl);
+    }
+
+    const startedAt = Date.now();
+    const result = await fetchJson<BraveSearchResponse>(this.label, searchUrl, {
+      headers: { 'Accept': 'application/json', 'X-Subscription-Token': env.BRAVE_SEARCH_API_KEY ?? '' }
+    });
+    const items = result.web?.results ?? [];
+
+    return {
+      // Descriptions come with <strong> highlighting and HTML entities
+      items: items.map(item => ({
+        title: toPlainText(item.title),
+        link: item.url,
+        snippet: toPlainText(item.description ?? ''),
+        displayLink: item.meta_url?.hostname ?? hostnameOf(item.url)
+      })),
+      searchInfo: { searchTime: secondsSince(startedAt), provider: this.label },
+      hasMore: Boolean(result.query?.more_results_available) && offset < MAX_OFFSET
+    };
+  }
+};
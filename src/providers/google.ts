@@ -0,0 +1,49 @@
+// Google Custom Search JSON API
+
+import { DORK_OPERATORS } from '../dork';
+import { buildSearchRequest, UNSUPPORTED_OPERATORS } from '../query-builder';
+import type { GoogleSearchResult } from '../types';
+import { fetchJson, RESULTS_PER_REQUEST, type SearchProvider } from './provider';
+
+export const googleProvider: SearchProvider = {
+  name: 'google',
+  label: 'Google',
+  supportedOperators: new Set(DORK_OPERATORS.filter(name => !UNSUPPORTED_OPERATORS.has(name))),
+
+  isConfigured(env) {
+    return Boolean(env.GOOGLE_SEARCH_API_KEY && env.GOOGLE_SEARCH_ENGINE_ID);
+  },
+
+  buildRequest(dork, locale) {
+    return buildSearchRequest(dork, new Date(), locale);
+  },
+
+  async search(params, env, start) {
+    const searchUrl = new URL('https://www.googleapis.com/customsearch/v1');
+    searchUrl.searchParams.set('key', env.GOOGLE_SEARCH_API_KEY);
+    searchUrl.searchParams.set('cx', env.GOOGLE_SEARCH_ENGINE_ID);
+    const { safe, ...rest } = params;
+    for (const [name, value] of Object.entries(rest)) {
+      if (value !== undefined) {
+        searchUrl.searchParams.set(name, value);
+      }
+    }
+    // The JSON API only knows on and off
+    if (safe) {
+      searchUrl.searchParams.set('safe', safe === 'off' ? 'off' : 'active');
+    }
+    searchUrl.searchParams.set('num', String(RESULTS_PER_REQUEST));
+    if (start > 1) {
+      searchUrl.searchParams.set('start', String(start));
+    }
+
+    const result = await fetchJson<GoogleSearchResult>('Google', searchUrl);
+    const items = result.items ?? [];
+
+    return {
+      items: items.map(item => ({ title: item.title, link: item.link, snippet: item.snippet ?? '', displayLink: item.displayLink })),
+      searchInfo: { ...result.searchInformation, provider: 'Google' },
+      hasMore: items.length === RESULTS_PER_REQUEST && Number(result.searchInformation.totalResults) >= start + RESULTS_PER_REQUEST
+    };
+  }
+};
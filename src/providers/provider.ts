@@ -0,0 +1,77 @@
+// Search provider contract
+// Every backend turns a query into the same normalised page of results, so the bot, the cache
+// and the paging state never depend on one vendor's response format.
+
+import type { DorkOperatorName, DorkQuery } from '../dork';
+import type { SearchInfo } from '../results';
+import type { SearchParameters, SearchRequest } from '../query-builder';
+import type { Environment } from '../types';
+import type { Locale } from '../i18n';
+
+export type ProviderName = 'google' | 'brave' | 'bing' | 'searxng';
+
+// Every provider is asked for this many results per request, so `start` offsets line up across pages
+export const RESULTS_PER_REQUEST = 10;
+
+export interface SearchItem {
+  title: string;
+  link: string;
+  snippet: string;
+  displayLink: string;
+}
+
+export interface SearchPage {
+  items: SearchItem[];
+  searchInfo: SearchInfo;
+  hasMore: boolean; // Whether asking for the following page can return anything
+}
+
+export interface SearchProvider {
+  name: ProviderName;
+  label: string; // Shown to users, e.g. "Brave Search"
+  // Dork operators passed on to the backend; anything else is rewritten or dropped with a warning
+  supportedOperators: ReadonlySet<DorkOperatorName>;
+  isConfigured(env: Environment): boolean;
+  buildRequest(dork: DorkQuery, locale?: Locale): SearchRequest; // Warnings are written in `locale`
+  // `start` is the 1-based index of the first result wanted
+  search(params: SearchParameters, env: Environment, start: number): Promise<SearchPage>;
+}
+
+export class SearchProviderError extends Error {
+  constructor(
+    readonly provider: string,
+    readonly status: number,
+    message: string = `${provider} API error: ${status}`
+  ) {
+    super(message);
+    this.name = 'SearchProviderError';
+  }
+
+  // Search APIs report an exhausted quota as either 429 or 403
+  get quotaExceeded(): boolean {
+    return this.status === 429 || this.status === 403;
+  }
+}
+
+export async function fetchJson<T>(provider: string, url: URL, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url.toString(), init);
+
+  if (!response.ok) {
+    throw new SearchProviderError(provider, response.status);
+  }
+
+  return await response.json<T>();
+}
+
+export function hostnameOf(link: string): string {
+  try {
+    return new URL(link).hostname;
+  } catch {
+    return link;
+  }
+}
+
+// Providers that do not report their own timing get the round trip, in seconds like Google's
+export function secondsSince(startedAt: number): number {
+  return Math.round((Date.now() - startedAt) / 10) / 100;
+}
@@ -0,0 +1,62 @@
+// Self-hosted SearXNG instance
+// The instance must have the json format enabled under `search.formats` in its settings.yml.
+
+import { buildQueryRequest } from '../query-builder';
+import { fetchJson, hostnameOf, secondsSince, type SearchProvider } from './provider';
+
+interface SearxngResponse {
+  number_of_results?: number;
+  results: Array<{
+    title: string;
+    url: string;
+    content?: string;
+  }>;
+}
+
+// SearXNG returns however many results its engines produced for a page, usually around ten
+const RESULTS_PER_PAGE = 10;
+
+export const searxngProvider: SearchProvider = {
+  name: 'searxng',
+  label: 'SearXNG',
+  // Passed through to the upstream engines, most of which understand these
+  supportedOperators: new Set(['site', 'filetype', 'intitle', 'inurl']),
+
+  isConfigured(env) {
+    return Boolean(env.SEARXNG_URL);
+  },
+
+  buildRequest(dork, locale) {
+    return buildQueryRequest(dork, this.label, this.supportedOperators, locale);
+  },
+
+  async search(params, env, start) {
+    const searchUrl = new URL('search', (env.SEARXNG_URL ?? '').replace(/\/?$/, '/'));
+    searchUrl.searchParams.set('q', params.q);
+    searchUrl.searchParams.set('format', 'json');
+    searchUrl.searchParams.set('pageno', String(Math.floor((start - 1) / RESULTS_PER_PAGE) + 1));
+    if (params.safe) {
+      searchUrl.searchParams.set('safesearch', String(['off', 'moderate', 'strict'].indexOf(params.safe)));
+    }
+    if (params.hl) {
+      searchUrl.searchParams.set('language', params.gl ? `${params.hl}-${params.gl.toUpperCase()}` : params.hl);
+    }
+
+    const startedAt = Date.now();
+    const result = await fetchJson<SearxngResponse>(this.label, searchUrl, {
+      headers: { 'Accept': 'application/json' }
+    });
+
+    return {
+      items: result.results.map(item => ({
+        title: item.title,
+        link: item.url,
+        snippet: item.content ?? '',
+        displayLink: hostnameOf(item.url)
+      })),
+      // number_of_results is 0 for most engine mixes, which means unknown rather than none
+      searchInfo: { totalResults: result.number_of_results ? String(result.number_of_results) : undefined, searchTime: secondsSince(startedAt), provider: this.label },
+      hasMore: result.results.length > 0
+    };
+  }
+};
@@ -0,0 +1,307 @@
+// Search request builders
+// For the Custom Search API, dork operators are mapped onto the JSON API's structured parameters
+// where possible and everything else stays in `q`. Other providers only take a query string, so
+// operators they do not understand are rewritten as plain text or left out, with a warning either way.
+
+import type { DorkNode, DorkOperatorName, DorkQuery } from './dork';
+import type { SafeSearchLevel } from './settings';
+import { messages, type Locale } from './i18n';
+
+export interface SearchParameters {
+  q: string;
+  siteSearch?: string;
+  siteSearchFilter?: 'i' | 'e';
+  fileType?: string;
+  exactTerms?: string;
+  excludeTerms?: string;
+  orTerms?: string;
+  dateRestrict?: string;
+  lowRange?: string;
+  highRange?: string;
+  // From the user's settings rather than the query
+  lr?: string; // Result language, e.g. lang_de
+  hl?: string; // Interface language
+  gl?: string; // Country to favour
+  safe?: SafeSearchLevel; // Each provider maps this onto its own levels
+}
+
+export interface SearchRequest {
+  params: SearchParameters;
+  warnings: string[];
+}
+
+// Operators the JSON API drops silently or that Google has retired
+export const UNSUPPORTED_OPERATORS: ReadonlySet<DorkOperatorName> = new Set([
+  'cache', 'info', 'link', 'related', 'define', 'stocks', 'weather', 'map', 'movie',
+  'inanchor', 'allinanchor', 'author', 'group', 'insubject', 'msgid', 'loc', 'location', 'source'
+]);
+
+const UNIX_EPOCH_JULIAN_DAY = 2440588;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function serializeDork(node: DorkNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.value;
+    case 'phrase':
+      return `"${node.value}"`;
+    case 'operator': {
+      // allin* values are a list of words rather than a phrase, and (a|b) groups stand as written
+      const needsQuotes = node.quoted || (/\s/.test(node.value) && !node.name.startsWith('allin') && !node.value.startsWith('('));
+      return needsQuotes ? `${node.name}:"${node.value}"` : `${node.name}:${node.value}`;
+    }
+    case 'range':
+      return `${node.low === undefined ? '' : node.unit + node.low}..${node.high === undefined ? '' : node.unit + node.high}`;
+    case 'not':
+      return `-${serializeDork(node.operand)}`;
+    case 'required':
+      return `+${serializeDork(node.operand)}`;
+    case 'or':
+      return node.children.map(serializeDork).join(' OR ');
+    case 'and':
+      return node.children.map(serializeDork).join(node.explicit ? ' AND ' : ' ');
+    case 'group':
+      return `(${serializeDork(node.child)})`;
+  }
+}
+
+function parseDateBound(value: string): Date | null {
+  if (/^\d{7}$/.test(value)) {
+    return new Date((Number(value) - UNIX_EPOCH_JULIAN_DAY) * DAY_MS);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  return null;
+}
+
+// daterange: takes Julian days (2460000-2460300) or ISO dates (2024-01-01..2024-06-30)
+function parseDateRange(value: string): { start: Date; end: Date | null } | null {
+  const [startText, endText] = value.includes('..') ? value.split('..') : value.split('-');
+  const start = parseDateBound(startText ?? '');
+  if (!start) {
+    return null;
+  }
+
+  const end = endText ? parseDateBound(endText) : null;
+  return { start, end };
+}
+
+// The plain words of an OR node, when it contains nothing the orTerms parameter can't express
+function plainOrTerms(node: DorkNode): string[] | null {
+  const or = node.type === 'group' ? node.child : node;
+  if (or.type !== 'or') {
+    return null;
+  }
+
+  const words: string[] = [];
+  for (const child of or.children) {
+    if (child.type !== 'term' || child.wildcard) {
+      return null;
+    }
+    words.push(child.value);
+  }
+
+  return words;
+}
+
+function containsUnsupported(node: DorkNode): DorkOperatorName[] {
+  const found: DorkOperatorName[] = [];
+  const visit = (current: DorkNode) => {
+    switch (current.type) {
+      case 'operator':
+        if (UNSUPPORTED_OPERATORS.has(current.name) || current.name === 'daterange') {
+          found.push(current.name);
+        }
+        break;
+      case 'not':
+      case 'required':
+        visit(current.operand);
+        break;
+      case 'or':
+      case 'and':
+        current.children.forEach(visit);
+        break;
+      case 'group':
+        visit(current.child);
+        break;
+    }
+  };
+  visit(node);
+  return found;
+}
+
+export function buildSearchRequest(dork: DorkQuery, now: Date = new Date(), locale: Locale = 'en'): SearchRequest {
+  const t = messages(locale);
+  const params: Omit<SearchParameters, 'q'> = {};
+  const warnings: string[] = [];
+  const remaining: DorkNode[] = [];
+  const droppedValues: string[] = [];
+
+  // Only top-level clauses are ANDed with the rest of the query, so only they can become parameters
+  const clauses = dork.root.type === 'and' ? dork.root.children : [dork.root];
+
+  for (const clause of clauses) {
+    const negated = clause.type === 'not';
+    const target = negated ? clause.operand : clause;
+
+    if (target.type === 'operator') {
+      if (UNSUPPORTED_OPERATORS.has(target.name)) {
+        warnings.push(t.leftOut(target.name));
+        droppedValues.push(target.value);
+        continue;
+      }
+
+      if (target.name === 'site' && !params.siteSearch && !target.value.includes('*')) {
+        params.siteSearch = target.value;
+        params.siteSearchFilter = negated ? 'e' : 'i';
+        continue;
+      }
+
+      if ((target.name === 'filetype' || target.name === 'ext') && !negated && !params.fileType) {
+        params.fileType = target.value.replace(/^\./, '');
+        continue;
+      }
+
+      if (target.name === 'daterange' && !negated) {
+        const range = parseDateRange(target.value);
+        const days = range ? Math.ceil((now.getTime() - range.start.getTime()) / DAY_MS) : 0;
+
+        if (!range || days < 1) {
+          warnings.push(t.invalidDateRange(target.value));
+        } else if (params.dateRestrict) {
+          warnings.push(t.oneDateRange);
+        } else {
+          params.dateRestrict = `d${days}`;
+          if (range.end && now.getTime() - range.end.getTime() > DAY_MS) {
+            warnings.push(t.dateRangeEndIgnored(days));
+          }
+        }
+        continue;
+      }
+    }
+
+    if (target.type === 'phrase' && !negated && !params.exactTerms) {
+      params.exactTerms = target.value;
+      continue;
+    }
+
+    if (negated && (target.type === 'term' || target.type === 'phrase') && !params.excludeTerms) {
+      params.excludeTerms = target.value;
+      continue;
+    }
+
+    if (!negated && !params.orTerms) {
+      const orWords = plainOrTerms(clause);
+      if (orWords) {
+        params.orTerms = orWords.join(' ');
+        continue;
+      }
+    }
+
+    if (clause.type === 'range' && params.lowRange === undefined && params.highRange === undefined) {
+      if (clause.low !== undefined) {
+        params.lowRange = `${clause.unit}${clause.low}`;
+      }
+      if (clause.high !== undefined) {
+        params.highRange = `${clause.unit}${clause.high}`;
+      }
+      continue;
+    }
+
+    for (const name of containsUnsupported(clause)) {
+      warnings.push(t.mayBeIgnored(name));
+    }
+    remaining.push(clause);
+  }
+
+  let q = remaining.map(serializeDork).join(' ');
+
+  // q is mandatory; fall back to whatever the query was about when every clause became a parameter
+  if (!q && params.exactTerms) {
+    q = `"${params.exactTerms}"`;
+    delete params.exactTerms;
+  } else if (!q && params.orTerms) {
+    q = params.orTerms.split(' ').join(' OR ');
+    delete params.orTerms;
+  } else if (!q) {
+    q = droppedValues.length > 0 ? droppedValues.join(' ') : serializeDork(dork.root);
+  }
+
+  return { params: { q, ...params }, warnings };
+}
+
+// Query-string request for providers that understand `supported` operators inline
+export function buildQueryRequest(
+  dork: DorkQuery,
+  providerLabel: string,
+  supported: ReadonlySet<DorkOperatorName>,
+  locale: Locale = 'en'
+): SearchRequest {
+  const t = messages(locale);
+  const warnings: string[] = [];
+
+  const rewrite = (node: DorkNode): DorkNode | null => {
+    switch (node.type) {
+      case 'operator':
+        if (supported.has(node.name)) {
+          return node;
+        }
+        // A date range means nothing as plain text
+        if (node.name === 'daterange') {
+          warnings.push(t.dateRangeUnsupported(providerLabel));
+          return null;
+        }
+        warnings.push(t.searchedAsText(node.name, providerLabel, node.value));
+        return /\s/.test(node.value) && !node.name.startsWith('allin') ?
+          { type: 'phrase', value: node.value } :
+          { type: 'term', value: node.value, wildcard: false };
+      case 'range':
+        warnings.push(t.rangesUnsupported(providerLabel));
+        return null;
+      case 'not':
+      case 'required': {
+        const operand = rewrite(node.operand);
+        return operand ? { ...node, operand } : null;
+      }
+      case 'or':
+      case 'and': {
+        const children = node.children.map(rewrite).filter((child): child is DorkNode => child !== null);
+        if (children.length === 0) {
+          return null;
+        }
+        return children.length === 1 ? children[0] : { ...node, children };
+      }
+      case 'group': {
+        const child = rewrite(node.child);
+        return child ? { ...node, child } : null;
+      }
+      default:
+        return node;
+    }
+  };
+
+  const root = rewrite(dork.root);
+  return { params: { q: root ? serializeDork(root) : dork.source }, warnings };
+}
+
+// Compact one-line-per-parameter view of what is sent to the API
+export function describeSearchParameters(params: SearchParameters): string[] {
+  const lines = [`q: ${params.q}`];
+
+  if (params.siteSearch) {
+    lines.push(`siteSearch: ${params.siteSearch} (${params.siteSearchFilter === 'e' ? 'exclude' : 'include'})`);
+  }
+
+  const named: Array<keyof SearchParameters> = ['fileType', 'exactTerms', 'excludeTerms', 'orTerms', 'dateRestrict', 'lowRange', 'highRange', 'lr', 'gl'];
+  for (const name of named) {
+    if (params[name] !== undefined) {
+      lines.push(`${name}: ${params[name]}`);
+    }
+  }
+
+  return lines;
+}
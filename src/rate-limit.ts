@@ -0,0 +1,170 @@
+// Per-user, per-chat and per-API-client rate limiting plus the global daily AI budget
+// Counters live in a Durable Object, one instance per user, chat, client or budget, so limits hold
+// across every isolate serving the worker.
+
+import { DurableObject } from 'cloudflare:workers';
+import type { Environment } from './types';
+import { messages, type Locale, type Messages } from './i18n';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Named in the message catalog, e.g. "per minute in this chat"
+export type LimitPeriod = 'minute' | 'day' | 'chatMinute' | 'chatDay';
+
+export interface RateLimit {
+  windowMs: number;
+  max: number;
+  period: LimitPeriod;
+  label: string; // e.g. "per minute", for the API's English errors
+}
+
+export type RateLimitDecision =
+  | { allowed: true; hit: number } // The recorded hit, for refund()
+  | { allowed: false; retryAt: number; limit: RateLimit };
+
+export interface BudgetDecision {
+  allowed: boolean;
+  remaining: number;
+}
+
+export class RateLimiter extends DurableObject<Environment> {
+  // Numbers the calls to settle(), so a waiting call can tell whether a newer one came in
+  private latestSettle = 0;
+
+  // Sliding window log of hit timestamps, checked against every limit before recording a new hit
+  async consume(limits: RateLimit[]): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const longestWindow = Math.max(...limits.map(limit => limit.windowMs));
+    const hits = ((await this.ctx.storage.get<number[]>('hits')) ?? []).filter(hit => hit > now - longestWindow);
+
+    for (const limit of limits) {
+      const inWindow = hits.filter(hit => hit > now - limit.windowMs);
+      if (inWindow.length >= limit.max) {
+        // The hit that has to age out before the count drops below the limit again
+        const blocking = inWindow[inWindow.length - limit.max];
+        await this.ctx.storage.put('hits', hits);
+        return { allowed: false, retryAt: blocking + limit.windowMs, limit };
+      }
+    }
+
+    hits.push(now);
+    await this.ctx.storage.put('hits', hits);
+    return { allowed: true, hit: now };
+  }
+
+  // Takes back a hit that consume() recorded, for a search that another limit stopped after this one allowed it
+  async refund(hit: number): Promise<void> {
+    const hits = (await this.ctx.storage.get<number[]>('hits')) ?? [];
+    const index = hits.indexOf(hit);
+    if (index !== -1) {
+      hits.splice(index, 1);
+      await this.ctx.storage.put('hits', hits);
+    }
+  }
+
+  // True when no newer call arrived while waiting, e.g. the user stopped typing an inline query
+  async settle(ms: number): Promise<boolean> {
+    const call = ++this.latestSettle;
+    await new Promise(resolve => setTimeout(resolve, ms));
+    return call === this.latestSettle;
+  }
+
+  // Daily spend against a budget that resets at midnight UTC
+  async spend(amount: number, budget: number): Promise<BudgetDecision> {
+    const key = `spent:${new Date().toISOString().slice(0, 10)}`;
+    const spent = (await this.ctx.storage.get<number>(key)) ?? 0;
+
+    if (spent + amount > budget) {
+      return { allowed: false, remaining: Math.max(0, budget - spent) };
+    }
+
+    await this.ctx.storage.put(key, spent + amount);
+    // Only today's counter matters; drop yesterday's instead of letting keys pile up
+    const stale = [...(await this.ctx.storage.list({ prefix: 'spent:' })).keys()].filter(existing => existing !== key);
+    if (stale.length > 0) {
+      await this.ctx.storage.delete(stale);
+    }
+
+    return { allowed: true, remaining: budget - spent - amount };
+  }
+}
+
+function configuredLimit(value: string | undefined, fallback: number): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+function limiter(name: string, env: Environment) {
+  return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(name));
+}
+
+// Checks the searching user and, in groups, the chat as a whole
+export async function checkSearchAllowance(userId: number, chatId: number, env: Environment): Promise<RateLimitDecision> {
+  const userLimits: RateLimit[] = [
+    { windowMs: MINUTE_MS, max: configuredLimit(env.USER_SEARCHES_PER_MINUTE, 5), period: 'minute', label: 'per minute' },
+    { windowMs: DAY_MS, max: configuredLimit(env.USER_SEARCHES_PER_DAY, 50), period: 'day', label: 'per day' }
+  ];
+  const userDecision = await limiter(`user:${userId}`, env).consume(userLimits);
+
+  if (!userDecision.allowed || chatId === userId) {
+    return userDecision;
+  }
+
+  const chatLimits: RateLimit[] = [
+    { windowMs: MINUTE_MS, max: configuredLimit(env.CHAT_SEARCHES_PER_MINUTE, 10), period: 'chatMinute', label: 'per minute in this chat' },
+    { windowMs: DAY_MS, max: configuredLimit(env.CHAT_SEARCHES_PER_DAY, 200), period: 'chatDay', label: 'per day in this chat' }
+  ];
+  const chatDecision = await limiter(`chat:${chatId}`, env).consume(chatLimits);
+
+  // A search the chat turned away must not count against the user
+  if (!chatDecision.allowed) {
+    await limiter(`user:${userId}`, env).refund(userDecision.hit);
+  }
+  return chatDecision;
+}
+
+// Inline previews have limits of their own, so typing in inline mode cannot use up the user's chat searches
+export async function checkInlineAllowance(userId: number, env: Environment): Promise<RateLimitDecision> {
+  return limiter(`inline:${userId}`, env).consume([
+    { windowMs: MINUTE_MS, max: configuredLimit(env.INLINE_SEARCHES_PER_MINUTE, 10), period: 'minute', label: 'per minute' },
+    { windowMs: DAY_MS, max: configuredLimit(env.INLINE_SEARCHES_PER_DAY, 100), period: 'day', label: 'per day' }
+  ]);
+}
+
+// Waits `ms` for a newer inline query from the same user; false when one arrived
+export async function inlineQuerySettled(userId: number, ms: number, env: Environment): Promise<boolean> {
+  return limiter(`inline:${userId}`, env).settle(ms);
+}
+
+// Searches through the HTTP API count against the calling client only
+export async function checkClientAllowance(clientId: number, env: Environment): Promise<RateLimitDecision> {
+  return limiter(`client:${clientId}`, env).consume([
+    { windowMs: MINUTE_MS, max: configuredLimit(env.API_SEARCHES_PER_MINUTE, 30), period: 'minute', label: 'per minute' },
+    { windowMs: DAY_MS, max: configuredLimit(env.API_SEARCHES_PER_DAY, 1000), period: 'day', label: 'per day' }
+  ]);
+}
+
+// Reserves model calls from the bot-wide daily budget; once it runs out searches continue without AI
+export async function spendAIBudget(calls: number, env: Environment): Promise<boolean> {
+  const decision = await limiter('budget:ai', env).spend(calls, configuredLimit(env.DAILY_AI_CALL_BUDGET, 2000));
+  return decision.allowed;
+}
+
+function formatWait(ms: number, t: Messages): string {
+  const seconds = Math.max(1, Math.ceil(ms / 1000));
+  if (seconds < 60) {
+    return t.seconds(seconds);
+  }
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) {
+    return t.minutes(minutes);
+  }
+  return t.hours(Math.ceil(minutes / 60));
+}
+
+export function formatRateLimitMessage(decision: Extract<RateLimitDecision, { allowed: false }>, locale: Locale = 'en', now: number = Date.now()): string {
+  const t = messages(locale);
+  const at = new Date(decision.retryAt).toISOString().slice(11, 16);
+  return `${t.rateLimited(decision.limit.max, t.limitPeriods[decision.limit.period])}\n\n${t.retryAt(formatWait(decision.retryAt - now, t), at)}`;
+}
@@ -0,0 +1,276 @@
+// Full-page reader for /read and the "Summarize full page" button
+// Fetches a page within size, time and content-type limits, keeps the main article text with
+// HTMLRewriter and cuts it into chunks small enough for one model call each.
+
+import { messages } from './i18n';
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_PAGE_BYTES = 2_000_000;
+const CHUNK_CHARS = 6_000;
+// Anything past this many chunks is left out of the summary
+const MAX_CHUNKS = 5;
+// Less text than this is usually a JavaScript-only page or a login wall
+const MIN_TEXT_CHARS = 200;
+
+const HTML_TYPES = ['text/html', 'application/xhtml+xml'];
+const TEXT_TYPES = ['text/plain'];
+
+// Never worth reading: scripts, chrome around the article and interactive widgets
+const SKIP_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'svg', 'nav', 'header', 'footer', 'aside', 'form', 'iframe', 'button', 'select', 'dialog']);
+const BOILERPLATE_CONTAINERS = new Set(['div', 'section', 'ul', 'ol']);
+const BOILERPLATE_PATTERN = /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|footer|sidebar|cookies?|consent|banner|advert|ads|promo|share|social|comments?|related|newsletter|subscribe)([\s_-]|$)/i;
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary']);
+const MAIN_TAGS = new Set(['article', 'main']);
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'tr', 'td', 'th', 'dt', 'dd']);
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©'
+};
+
+export type PageReadProblem =
+  | 'notALink' | 'unsupportedScheme' | 'privateAddress' | 'timeout'
+  | 'unreachable' | 'httpStatus' | 'unsupportedType' | 'noText';
+
+// The message is English for logs; chats show pageReadProblems in their own language
+export class PageReadError extends Error {
+  constructor(readonly problem: PageReadProblem, readonly detail = '') {
+    super(messages('en').pageReadProblems[problem](detail));
+    this.name = 'PageReadError';
+  }
+}
+
+export interface ReadablePage {
+  url: string; // After redirects
+  title: string;
+  text: string;
+  chunks: string[];
+  wordCount: number;
+  truncated: boolean; // The page was cut at the size limit or had more chunks than are summarised
+}
+
+// Workers cannot reach private networks, but refusing them up front gives a clearer answer
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  return host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host.endsWith('.internal') ||
+    /^(127|10|0)\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^169\.254\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host) ||
+    host === '::1' ||
+    /^(fc|fd|fe80)[0-9a-f]*:/.test(host);
+}
+
+export function parseReadableUrl(input: string): URL {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new PageReadError('notALink');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PageReadError('unsupportedScheme');
+  }
+
+  if (isPrivateHost(url.hostname)) {
+    throw new PageReadError('privateAddress');
+  }
+
+  return url;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function normalizeText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n\n');
+}
+
+// Reads at most MAX_PAGE_BYTES of the body, whatever Content-Length claims
+async function readLimitedBody(response: Response): Promise<{ body: string; truncated: boolean }> {
+  if (!response.body) {
+    return { body: '', truncated: false };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let body = '';
+  let bytes = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { body: body + decoder.decode(), truncated: false };
+    }
+
+    const remaining = MAX_PAGE_BYTES - bytes;
+    if (value.byteLength >= remaining) {
+      body += decoder.decode(value.subarray(0, remaining));
+      await reader.cancel();
+      return { body, truncated: true };
+    }
+
+    bytes += value.byteLength;
+    body += decoder.decode(value, { stream: true });
+  }
+}
+
+export async function extractArticle(html: string): Promise<{ title: string; text: string }> {
+  let skipDepth = 0;
+  let mainDepth = 0;
+  let title = '';
+  const all: string[] = [];
+  const main: string[] = [];
+
+  const breakLine = () => {
+    all.push('\n');
+    main.push('\n');
+  };
+  const isBoilerplate = (element: Element) => {
+    const marker = `${element.getAttribute('id') ?? ''} ${element.getAttribute('class') ?? ''}`;
+    return BOILERPLATE_PATTERN.test(marker) || BOILERPLATE_ROLES.has(element.getAttribute('role') ?? '');
+  };
+
+  const rewriter = new HTMLRewriter()
+    .on('title', {
+      text(chunk) {
+        title += chunk.text;
+      }
+    })
+    // One handler for every element: an element only keeps the last end tag handler registered on it
+    .on('*', {
+      element(element) {
+        const tag = element.tagName;
+        if (tag === 'br') {
+          breakLine();
+          return;
+        }
+
+        const skipped = SKIP_TAGS.has(tag) || (BOILERPLATE_CONTAINERS.has(tag) && isBoilerplate(element));
+        const isMain = MAIN_TAGS.has(tag) || (tag === 'div' && element.getAttribute('role') === 'main');
+        const isBlock = BLOCK_TAGS.has(tag);
+        if (!skipped && !isMain && !isBlock) {
+          return;
+        }
+
+        skipDepth += skipped ? 1 : 0;
+        mainDepth += isMain ? 1 : 0;
+        if (isBlock) {
+          breakLine();
+        }
+
+        element.onEndTag(() => {
+          skipDepth -= skipped ? 1 : 0;
+          mainDepth -= isMain ? 1 : 0;
+          if (isBlock) {
+            breakLine();
+          }
+        });
+      }
+    })
+    .onDocument({
+      text(chunk) {
+        if (skipDepth > 0) {
+          return;
+        }
+        all.push(chunk.text);
+        if (mainDepth > 0) {
+          main.push(chunk.text);
+        }
+      }
+    });
+
+  // The rewriter only runs while its output is consumed
+  await rewriter.transform(new Response(html)).arrayBuffer();
+
+  const mainText = normalizeText(decodeEntities(main.join('')));
+  const text = mainText.length >= MIN_TEXT_CHARS ? mainText : normalizeText(decodeEntities(all.join('')));
+
+  return { title: decodeEntities(title).replace(/\s+/g, ' ').trim(), text };
+}
+
+// Paragraph-aligned chunks of at most `size` characters; a longer paragraph is cut on its own
+export function chunkText(text: string, size: number = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split('\n\n')) {
+    const pieces = paragraph.length > size ? paragraph.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g')) ?? [] : [paragraph];
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 2 > size) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+export async function readPage(input: string): Promise<ReadablePage> {
+  const url = parseReadableUrl(input);
+
+  let response: Response;
+  try {
+    response = await fetch(url.toString(), {
+      headers: { 'Accept': 'text/html,application/xhtml+xml,text/plain;q=0.9', 'User-Agent': 'Mozilla/5.0 (compatible; AISearchBot/1.0)' },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      throw new PageReadError('timeout', String(FETCH_TIMEOUT_MS / 1000));
+    }
+    throw new PageReadError('unreachable');
+  }
+
+  if (!response.ok) {
+    throw new PageReadError('httpStatus', String(response.status));
+  }
+
+  const contentType = (response.headers.get('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+  const isHtml = HTML_TYPES.includes(contentType);
+  if (!isHtml && !TEXT_TYPES.includes(contentType)) {
+    await response.body?.cancel();
+    throw new PageReadError('unsupportedType', contentType);
+  }
+
+  const { body, truncated: cut } = await readLimitedBody(response);
+  const { title, text } = isHtml ? await extractArticle(body) : { title: '', text: normalizeText(body) };
+
+  if (text.length < MIN_TEXT_CHARS) {
+    throw new PageReadError('noText');
+  }
+
+  const chunks = chunkText(text);
+  const finalUrl = response.url || url.toString();
+
+  return {
+    url: finalUrl,
+    title: title || new URL(finalUrl).hostname,
+    text,
+    chunks: chunks.slice(0, MAX_CHUNKS),
+    wordCount: text.split(/\s+/).length,
+    truncated: cut || chunks.length > MAX_CHUNKS
+  };
+}
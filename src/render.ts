@@ -0,0 +1,201 @@
+// Telegram HTML rendering helpers
+// Bot output uses parse_mode HTML: only &, < and > need escaping, which is far less fragile
+// than MarkdownV2 for untrusted titles and snippets coming back from search results.
+
+// Telegram counts the limit on the text left after entity parsing
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function bold(text: string): string {
+  return `<b>${escapeHtml(text)}</b>`;
+}
+
+export function italic(text: string): string {
+  return `<i>${escapeHtml(text)}</i>`;
+}
+
+export function code(text: string): string {
+  return `<code>${escapeHtml(text)}</code>`;
+}
+
+// Only http(s) links are rendered as links; anything else is shown as text
+export function link(label: string, url: string): string {
+  if (!/^https?:\/\//i.test(url)) {
+    return escapeHtml(label);
+  }
+  return `<a href="${escapeHtml(url)}">${escapeHtml(label)}</a>`;
+}
+
+const ENTITY_NAMES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"' };
+
+export function unescapeHtml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|#\d+);/g, (_, entity: string) =>
+    entity.startsWith('#') ? String.fromCharCode(Number(entity.slice(1))) : ENTITY_NAMES[entity]
+  );
+}
+
+// Plain text version of a rendered message, used when Telegram rejects the markup
+export function toPlainText(html: string): string {
+  const withLinks = html.replace(/<a href="([^"]*)">([\s\S]*?)<\/a>/g, (_, href: string, label: string) => {
+    const url = unescapeHtml(href);
+    const text = unescapeHtml(label.replace(/<[^>]+>/g, ''));
+    return text === url ? text : `${text} (${url})`;
+  });
+  return unescapeHtml(withLinks.replace(/<[^>]+>/g, ''));
+}
+
+type Piece =
+  | { kind: 'open'; name: string; raw: string }
+  | { kind: 'close'; name: string; raw: string }
+  | { kind: 'text'; raw: string };
+
+function tokenizeHtml(html: string): Piece[] {
+  const pieces: Piece[] = [];
+  const tagPattern = /<(\/?)([a-z-]+)[^>]*>/gi;
+  let last = 0;
+
+  for (const match of html.matchAll(tagPattern)) {
+    const index = match.index ?? 0;
+    if (index > last) {
+      pieces.push({ kind: 'text', raw: html.slice(last, index) });
+    }
+    pieces.push({ kind: match[1] ? 'close' : 'open', name: match[2].toLowerCase(), raw: match[0] });
+    last = index + match[0].length;
+  }
+
+  if (last < html.length) {
+    pieces.push({ kind: 'text', raw: html.slice(last) });
+  }
+
+  return pieces;
+}
+
+// Length of escaped text as Telegram counts it, with each entity counting as one character
+function visibleLength(raw: string): number {
+  return unescapeHtml(raw).length;
+}
+
+// Largest prefix of escaped text that fits in `budget` visible characters without cutting an entity
+function fittingPrefix(raw: string, budget: number): number {
+  let visible = 0;
+  let index = 0;
+
+  while (index < raw.length) {
+    let step = 1;
+    if (raw[index] === '&') {
+      const end = raw.indexOf(';', index);
+      step = end === -1 ? 1 : end - index + 1;
+    }
+    if (visible + 1 > budget) {
+      break;
+    }
+    visible++;
+    index += step;
+  }
+
+  return index;
+}
+
+// Prefers a line break, then a space, in the second half of the allowed range
+function preferredBreak(raw: string, limit: number): number {
+  const minimum = Math.floor(limit / 2);
+  const newline = raw.lastIndexOf('\n', limit - 1);
+  if (newline >= minimum) {
+    return newline + 1;
+  }
+  const space = raw.lastIndexOf(' ', limit - 1);
+  if (space >= minimum) {
+    return space + 1;
+  }
+  return -1;
+}
+
+function splitPlain(text: string, limit: number): string[] {
+  const chunks: string[] = [];
+  let rest = text;
+
+  while (rest.length > limit) {
+    const soft = preferredBreak(rest, limit);
+    const cut = soft > 0 ? soft : limit;
+    chunks.push(rest.slice(0, cut).trimEnd());
+    rest = rest.slice(cut).trimStart();
+  }
+
+  if (rest.length > 0) {
+    chunks.push(rest);
+  }
+
+  return chunks;
+}
+
+// Splits a message into parts Telegram accepts, closing and reopening HTML tags at each cut
+export function splitMessage(text: string, options: { html: boolean; limit?: number }): string[] {
+  const limit = options.limit ?? TELEGRAM_MESSAGE_LIMIT;
+
+  if (!options.html) {
+    return splitPlain(text, limit);
+  }
+
+  const chunks: string[] = [];
+  const openTags: Array<{ name: string; raw: string }> = [];
+  let current = '';
+  let currentLength = 0;
+
+  const flush = () => {
+    const closing = [...openTags].reverse().map(tag => `</${tag.name}>`).join('');
+    const chunk = (current + closing).trim();
+    if (toPlainText(chunk).trim().length > 0) {
+      chunks.push(chunk);
+    }
+    current = openTags.map(tag => tag.raw).join('');
+    currentLength = 0;
+  };
+
+  for (const piece of tokenizeHtml(text)) {
+    if (piece.kind === 'open') {
+      openTags.push({ name: piece.name, raw: piece.raw });
+      current += piece.raw;
+      continue;
+    }
+
+    if (piece.kind === 'close') {
+      const openIndex = openTags.map(tag => tag.name).lastIndexOf(piece.name);
+      if (openIndex !== -1) {
+        openTags.splice(openIndex, 1);
+      }
+      current += piece.raw;
+      continue;
+    }
+
+    let raw = piece.raw;
+    while (currentLength + visibleLength(raw) > limit) {
+      const fits = fittingPrefix(raw, limit - currentLength);
+      const soft = preferredBreak(raw, fits);
+
+      // No word boundary fits: start this text in the next message rather than cutting a word
+      if (soft <= 0 && currentLength > 0) {
+        flush();
+        continue;
+      }
+
+      // Breaks land on spaces or line breaks, which are never inside an entity
+      const cut = soft > 0 ? soft : fits;
+      current += raw.slice(0, cut);
+      raw = raw.slice(cut);
+      flush();
+    }
+
+    current += raw;
+    currentLength += visibleLength(raw);
+  }
+
+  flush();
+  return chunks;
+}
@@ -0,0 +1,188 @@
+// Reranking of the first page of results
+// Providers often lead with the same article syndicated across sites, or with several pages of
+// one site. The page is embedded together with the query: near-duplicates are merged into their
+// most relevant copy, each site keeps only its best result (unless the search is limited to sites
+// anyway), and the rest is ordered by maximal marginal relevance, so every result is relevant to
+// the query without repeating the ones above it. Without a model the provider's order stands.
+
+import type { Environment } from './types';
+import { walkDork, type DorkNode, type DorkQuery } from './dork';
+import type { SearchItem } from './providers/provider';
+import { cached, cacheKey, normalizeQuery, parseTtl, DEFAULT_SUMMARY_CACHE_TTL } from './cache';
+import { spendAIBudget } from './rate-limit';
+
+export const DEFAULT_EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+
+// bge models match queries to passages better with this instruction in front of the query
+const QUERY_INSTRUCTION = 'Represent this sentence for searching relevant passages: ';
+// Results at least this similar to a more relevant one are the same text
+const DUPLICATE_SIMILARITY = 0.95;
+// Weight of relevance against novelty; 1 would order by relevance alone
+const MMR_LAMBDA = 0.7;
+
+// Operators whose values say what the pages should be about, rather than where they are
+const TOPIC_OPERATORS: ReadonlySet<string> = new Set(['intitle', 'allintitle', 'intext', 'allintext', 'inanchor', 'allinanchor']);
+
+export interface RankInfo {
+  original: number; // 1-based position in the provider's answer
+  relevance: number; // Cosine similarity to the query
+  merged: string[]; // Sites of the near-duplicates folded into this result
+}
+
+export type RankedItem = SearchItem & { rank?: RankInfo };
+
+// What gets cached: the new order as positions in the provider's answer
+interface RankingPlan {
+  index: number;
+  relevance: number;
+  merged: number[];
+}
+
+export interface RerankOptions {
+  fresh?: boolean;
+  onePerSite?: boolean; // Off for searches already limited to sites with site:
+}
+
+class RerankUnavailable extends Error {}
+
+function embeddingModel(env: Environment): string {
+  return env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL;
+}
+
+// Visits what a dork asks for, skipping everything it excludes
+function walkWanted(dork: DorkQuery, visit: (node: DorkNode) => void): void {
+  const excluded = new Set<DorkNode>();
+  walkDork(dork.root, node => {
+    if (node.type === 'not') {
+      walkDork(node.operand, inner => excluded.add(inner));
+    } else if (!excluded.has(node)) {
+      visit(node);
+    }
+  });
+}
+
+// The words a dork is looking for, without its operators, exclusions and site restrictions
+export function rankingText(dork: DorkQuery): string {
+  const words: string[] = [];
+
+  walkWanted(dork, node => {
+    if (node.type === 'term' || node.type === 'phrase') {
+      words.push(node.value);
+    } else if (node.type === 'operator' && TOPIC_OPERATORS.has(node.name)) {
+      words.push(node.value);
+    }
+  });
+
+  const text = words.join(' ').replace(/\*/g, ' ').replace(/\s+/g, ' ').trim();
+  return text || dork.source;
+}
+
+function siteOf(item: SearchItem): string {
+  return item.displayLink.toLowerCase().replace(/^www\./, '');
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+async function embed(texts: string[], env: Environment): Promise<number[][]> {
+  const output = await env.AI.run(embeddingModel(env), { text: texts });
+  const vectors: unknown = output?.data;
+  if (!Array.isArray(vectors) || vectors.length !== texts.length || !vectors.every(Array.isArray)) {
+    throw new Error('Embedding model returned no vectors');
+  }
+  return vectors as number[][];
+}
+
+// The ranking itself, on the query's and the results' embeddings
+export function planRanking(queryVector: number[], vectors: number[][], items: SearchItem[], onePerSite: boolean): RankingPlan[] {
+  const relevance = vectors.map(vector => cosine(queryVector, vector));
+  const byRelevance = items.map((_, i) => i).sort((a, b) => relevance[b] - relevance[a] || a - b);
+
+  // Most relevant first, so the copy that survives a merge is the best one
+  const kept: RankingPlan[] = [];
+  const sites = new Set<string>();
+  for (const index of byRelevance) {
+    const original = kept.find(plan => cosine(vectors[plan.index], vectors[index]) >= DUPLICATE_SIMILARITY);
+    if (original) {
+      original.merged.push(index);
+      continue;
+    }
+    if (onePerSite && sites.has(siteOf(items[index]))) {
+      continue;
+    }
+    sites.add(siteOf(items[index]));
+    kept.push({ index, relevance: relevance[index], merged: [] });
+  }
+
+  // Maximal marginal relevance: each pick trades relevance against similarity to the picks above it
+  const ordered: RankingPlan[] = [];
+  const remaining = [...kept];
+  while (remaining.length > 0) {
+    let best = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((plan, i) => {
+      const redundancy = Math.max(0, ...ordered.map(picked => cosine(vectors[picked.index], vectors[plan.index])));
+      const score = MMR_LAMBDA * plan.relevance - (1 - MMR_LAMBDA) * redundancy;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    ordered.push(...remaining.splice(best, 1));
+  }
+
+  return ordered;
+}
+
+function applyPlan(items: SearchItem[], plan: RankingPlan[]): RankedItem[] {
+  return plan.map(({ index, relevance, merged }) => ({
+    ...items[index],
+    rank: { original: index + 1, relevance, merged: merged.map(i => items[i].displayLink) }
+  }));
+}
+
+// The page in its new order, or in the provider's order when the model cannot be used
+export async function rerankResults(dork: DorkQuery, items: SearchItem[], env: Environment, options: RerankOptions = {}): Promise<RankedItem[]> {
+  if (items.length < 2) {
+    return items;
+  }
+
+  const query = rankingText(dork);
+  const key = await cacheKey('rerank', [embeddingModel(env), normalizeQuery(query), options.onePerSite ?? true, items.map(item => item.link)]);
+
+  try {
+    const plan = await cached(env.BOT_KV, key, { ttlSeconds: parseTtl(env.SUMMARY_CACHE_TTL, DEFAULT_SUMMARY_CACHE_TTL), bypass: options.fresh }, async () => {
+      // One call embeds the query and every result
+      if (!(await spendAIBudget(1, env))) {
+        throw new RerankUnavailable('the daily AI budget is used up');
+      }
+      const [queryVector, ...vectors] = await embed([
+        QUERY_INSTRUCTION + query,
+        ...items.map(item => `${item.title}. ${item.snippet}`)
+      ], env);
+      return planRanking(queryVector, vectors, items, options.onePerSite ?? true);
+    });
+    return applyPlan(items, plan.value);
+  } catch (error) {
+    console.warn('Keeping the provider order, reranking failed:', error instanceof RerankUnavailable ? error.message : error);
+    return items;
+  }
+}
+
+// Whether the search is already limited to sites, so one result per site would leave almost nothing
+export function usesSiteOperator(dork: DorkQuery): boolean {
+  let found = false;
+  walkWanted(dork, node => {
+    found ||= node.type === 'operator' && node.name === 'site';
+  });
+  return found;
+}
@@ -0,0 +1,172 @@
+// The shared result model: one search with its ranking and AI analysis
+// Telegram and the HTTP API both run searches through here and only differ in how they render the
+// response, so a result looks the same wherever it is read. Analysis is a separate step because
+// Telegram shows the raw results before the model is asked about them.
+
+import type { Environment } from './types';
+import { describeDork, type DorkQuery, type SearchType } from './dork';
+import type { SearchRequest } from './query-builder';
+import { searchWithFallback } from './search';
+import { rerankResults, usesSiteOperator, type RankInfo, type RankedItem } from './rerank';
+import { generateAISummary, generateOverallSummary, generateSearchAnalysis, type SummaryOptions } from './ai';
+import { spendAIBudget } from './rate-limit';
+import type { UserSettings } from './settings';
+import type { Locale } from './i18n';
+import type { ProviderName } from './providers/provider';
+
+export interface SearchInfo {
+  totalResults?: string; // Not every provider reports a total
+  searchTime: number;
+  provider?: string; // Label of the provider that answered
+}
+
+export interface EnrichedResult {
+  title: string;
+  link: string;
+  snippet: string;
+  displayLink: string;
+  aiSummary?: string;
+  fromCache?: boolean; // The search result itself was served from the cache
+  aiSummaryFromCache?: boolean;
+  rank?: RankInfo; // Set when the result was reranked
+}
+
+// 'off' when insights were not asked for, 'exhausted' when the daily budget ran out first
+export type AnalysisStatus = 'off' | 'exhausted' | 'complete';
+
+// Milliseconds spent in each step
+export interface SearchTiming {
+  search: number;
+  rerank: number;
+  analysis: number;
+  total: number;
+}
+
+export interface SearchResponse {
+  query: string;
+  searchType: SearchType;
+  searchContext: string; // What the dork's operators do, empty for plain searches
+  provider: ProviderName; // The provider that answered
+  request: SearchRequest;
+  searchInfo: SearchInfo;
+  results: EnrichedResult[]; // The ones shown, with insights once analysed
+  remaining: EnrichedResult[]; // Fetched and ranked but left for later pages
+  fetched: number; // Results taken from the provider, before reranking dropped any
+  hasMore: boolean;
+  overview: string;
+  analysis: AnalysisStatus;
+  cachedAt?: number; // When the provider's answer was stored, for answers served from the cache
+  timing: SearchTiming;
+}
+
+export interface FetchOptions {
+  fresh?: boolean;
+  settings: UserSettings;
+  locale?: Locale; // Language of the search warnings
+}
+
+export interface AnalyzeOptions extends SummaryOptions {
+  // Called as insights and the overview arrive
+  onProgress?: (response: SearchResponse) => Promise<void>;
+}
+
+// Searches the providers and ranks their first page; nothing is analysed yet
+export async function fetchResults(dork: DorkQuery, searchType: SearchType, env: Environment, options: FetchOptions): Promise<SearchResponse> {
+  const { fresh = false, settings, locale } = options;
+  const started = Date.now();
+
+  // Ask the configured providers in turn, reusing a recent identical search unless fresh is set
+  const { provider, request, search } = await searchWithFallback(dork, searchType, env, { fresh, settings, locale });
+  const searchedAt = Date.now();
+
+  // Near-duplicates and repeats of a site are folded away before the top results are picked
+  const ranked = await rerankResults(dork, search.value.items, env, { fresh, onePerSite: !usesSiteOperator(dork) });
+  const all = ranked.map(item => ({ ...toEnrichedResult(item), fromCache: search.fromCache }));
+  const rankedAt = Date.now();
+
+  return {
+    query: dork.source,
+    searchType,
+    searchContext: searchType === 'dork' ? describeDork(dork) : '',
+    provider: provider.name,
+    request,
+    searchInfo: search.value.searchInfo,
+    results: all.slice(0, settings.resultCount),
+    remaining: all.slice(settings.resultCount),
+    fetched: search.value.items.length,
+    hasMore: search.value.hasMore,
+    overview: '',
+    analysis: 'off',
+    cachedAt: search.fromCache ? search.storedAt : undefined,
+    timing: { search: searchedAt - started, rerank: rankedAt - searchedAt, analysis: 0, total: rankedAt - started }
+  };
+}
+
+// Adds insights and the overview; the caller has already reserved the first model call
+export async function analyzeResults(response: SearchResponse, env: Environment, options: AnalyzeOptions = {}): Promise<SearchResponse> {
+  const { onProgress, ...summaryOptions } = options;
+  const started = Date.now();
+  const { query, results, searchContext } = response;
+  const finish = (analysed: EnrichedResult[], overview: string, status: AnalysisStatus = 'complete'): SearchResponse => {
+    const analysis = Date.now() - started;
+    return {
+      ...response,
+      results: analysed,
+      overview,
+      analysis: status,
+      timing: { ...response.timing, analysis, total: response.timing.total + analysis }
+    };
+  };
+
+  // One model call for all insights and the overview
+  const analysis = await generateSearchAnalysis(query, results, searchContext, env, {
+    ...summaryOptions,
+    onProgress: onProgress && (async progress => {
+      const analysed = results.map((result, i) => progress.insights[i] ? { ...result, aiSummary: progress.insights[i] } : result);
+      await onProgress({ ...response, results: analysed, overview: progress.overview ?? '' });
+    })
+  });
+  if (analysis) {
+    return finish(analysis.results, analysis.overview);
+  }
+
+  // The model never produced valid JSON: one call per result plus the overview, as before
+  if (!(await spendAIBudget(results.length + 1, env))) {
+    return finish(results, '', 'exhausted');
+  }
+  const analysed = [...results];
+  await Promise.all(results.map(async (result, i) => {
+    analysed[i] = await generateAISummary(result, query, searchContext, env, summaryOptions);
+    await onProgress?.({ ...response, results: [...analysed] });
+  }));
+  return finish(analysed, await generateOverallSummary(query, analysed, searchContext, env, summaryOptions));
+}
+
+// Both steps in one, for callers that only want the finished response
+export async function runSearch(dork: DorkQuery, searchType: SearchType, env: Environment, options: FetchOptions): Promise<SearchResponse> {
+  const { fresh, settings } = options;
+  const response = await fetchResults(dork, searchType, env, options);
+  if (response.results.length === 0 || !settings.aiSummaries) {
+    return response;
+  }
+
+  if (!(await spendAIBudget(1, env))) {
+    return { ...response, analysis: 'exhausted' };
+  }
+  return analyzeResults(response, env, {
+    fresh,
+    length: settings.summaryLength,
+    language: settings.language !== 'auto' ? settings.language : undefined
+  });
+}
+
+// Only the fields the bot shows are kept, which keeps the stored search state small
+export function toEnrichedResult(item: RankedItem): EnrichedResult {
+  return {
+    title: item.title,
+    link: item.link,
+    snippet: item.snippet,
+    displayLink: item.displayLink,
+    rank: item.rank
+  };
+}
@@ -0,0 +1,130 @@
+// Search across the configured providers
+// SEARCH_PROVIDERS lists the backends in order of preference; when one fails or runs out of
+// quota the next one answers. Responses are cached in KV keyed by provider, normalised
+// parameters and page, so asking the same question twice only spends one request.
+
+import type { Environment } from './types';
+import type { DorkQuery, SearchType } from './dork';
+import { messages, type Locale } from './i18n';
+import type { SearchParameters, SearchRequest } from './query-builder';
+import { cached, cacheKey, peekCached, normalizeQuery, parseTtl, DEFAULT_SEARCH_CACHE_TTL, type CachedValue } from './cache';
+import { applySearchSettings, type UserSettings } from './settings';
+import { SearchProviderError, type SearchPage, type SearchProvider } from './providers/provider';
+import { googleProvider } from './providers/google';
+import { braveProvider } from './providers/brave';
+import { bingProvider } from './providers/bing';
+import { searxngProvider } from './providers/searxng';
+
+export interface SearchOptions {
+  start?: number;
+  fresh?: boolean;
+  settings?: UserSettings; // Language, region and SafeSearch of the user searching
+  locale?: Locale; // Language of the warnings
+}
+
+export interface ProviderSearch {
+  provider: SearchProvider;
+  request: SearchRequest;
+  search: CachedValue<SearchPage>;
+}
+
+const PROVIDERS = new Map<string, SearchProvider>(
+  [googleProvider, braveProvider, bingProvider, searxngProvider].map(provider => [provider.name, provider])
+);
+
+const DEFAULT_PROVIDERS = 'google';
+
+export function getProvider(name: string): SearchProvider | undefined {
+  return PROVIDERS.get(name);
+}
+
+// Providers in order of preference, skipping unknown names and those missing credentials
+export function configuredProviders(env: Environment): SearchProvider[] {
+  const names = (env.SEARCH_PROVIDERS || DEFAULT_PROVIDERS).split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+  const providers: SearchProvider[] = [];
+
+  for (const name of names) {
+    const provider = getProvider(name);
+    if (!provider) {
+      console.warn(`Unknown search provider in SEARCH_PROVIDERS: ${name}`);
+    } else if (!provider.isConfigured(env)) {
+      console.warn(`Search provider ${name} is listed but not configured, skipping it`);
+    } else if (!providers.includes(provider)) {
+      providers.push(provider);
+    }
+  }
+
+  return providers;
+}
+
+// Plain queries go through untouched; dorks are translated for the provider
+export function buildProviderRequest(
+  provider: SearchProvider,
+  dork: DorkQuery,
+  searchType: SearchType,
+  settings?: UserSettings,
+  locale: Locale = 'en'
+): SearchRequest {
+  const request: SearchRequest = searchType === 'dork' ? provider.buildRequest(dork, locale) : { params: { q: dork.source }, warnings: [] };
+  return settings ? { ...request, params: applySearchSettings(request.params, settings) } : request;
+}
+
+function normalizeParameters(params: SearchParameters): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const name of Object.keys(params).sort() as Array<keyof SearchParameters>) {
+    const value = params[name];
+    if (value !== undefined) {
+      normalized[name] = normalizeQuery(value);
+    }
+  }
+  return normalized;
+}
+
+function searchCacheKey(provider: SearchProvider, params: SearchParameters, start: number): Promise<string> {
+  return cacheKey('search', [provider.name, normalizeParameters(params), start]);
+}
+
+export async function cachedSearch(provider: SearchProvider, params: SearchParameters, env: Environment, options: SearchOptions = {}): Promise<CachedValue<SearchPage>> {
+  const start = options.start ?? 1;
+  const key = await searchCacheKey(provider, params, start);
+
+  return cached(env.BOT_KV, key, { ttlSeconds: parseTtl(env.SEARCH_CACHE_TTL, DEFAULT_SEARCH_CACHE_TTL), bypass: options.fresh }, () =>
+    provider.search(params, env, start)
+  );
+}
+
+// A page the provider already answered, without asking it again on a miss
+export async function peekSearch(provider: SearchProvider, params: SearchParameters, env: Environment, options: SearchOptions = {}): Promise<CachedValue<SearchPage> | null> {
+  return peekCached<SearchPage>(env.BOT_KV, await searchCacheKey(provider, params, options.start ?? 1));
+}
+
+// First page from the first provider that answers; an empty page is an answer, not a failure
+export async function searchWithFallback(dork: DorkQuery, searchType: SearchType, env: Environment, options: SearchOptions = {}): Promise<ProviderSearch> {
+  const providers = configuredProviders(env);
+  if (providers.length === 0) {
+    throw new Error('No search provider is configured');
+  }
+
+  const t = messages(options.locale ?? 'en');
+  const skipped: string[] = [];
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    const request = buildProviderRequest(provider, dork, searchType, options.settings, options.locale);
+    try {
+      const search = await cachedSearch(provider, request.params, env, options);
+      if (skipped.length > 0) {
+        request.warnings.unshift(t.answeredInstead(skipped.join(', '), provider.label));
+      }
+      return { provider, request, search };
+    } catch (error) {
+      console.error(`${provider.label} search failed:`, error);
+      lastError = error;
+      skipped.push(error instanceof SearchProviderError && error.quotaExceeded ?
+        t.providerOutOfQuota(provider.label) :
+        t.providerUnavailable(provider.label));
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,63 @@
+// Per-chat conversation memory
+// A session points at the last search's stored state and keeps its overview plus the recent
+// follow-up exchanges, so questions like "compare the first two" are answered from those results
+// instead of starting a new search.
+
+const SESSION_TTL_SECONDS = 60 * 60 * 6;
+// Older exchanges are dropped so the follow-up prompt stays small
+const MAX_TURNS = 4;
+
+export interface SessionTurn {
+  question: string;
+  answer: string;
+}
+
+export interface ChatSession {
+  stateId: string; // Search state holding the query and its results
+  overview: string;
+  turns: SessionTurn[];
+}
+
+export type MessageIntent = 'search' | 'followup' | 'unsure';
+
+// Phrases that only make sense about results already shown
+const FOLLOW_UP_PATTERNS = [
+  /\b(result|link|source|article|number|item|option)\s*#?\d+\b/i,
+  /#\d+\b/,
+  /\b(first|second|third|fourth|fifth|last|top)\s+(one|two|three|result|results|link|links|source|sources|article|articles)\b/i,
+  /\b(compare|contrast)\b/i,
+  /\b(tell|say|explain)\s+(me\s+)?more\b/i,
+  /\bmore\s+(about|on|details)\b/i,
+  /\b(these|those|them|the)\s+(results|links|sources|articles)\b/i,
+  /\bwhich\s+(one|of\s+(these|those|them))\b/i,
+  /\b(summari[sz]e|recap)\s+(it|them|these|those|that|this)\b/i,
+  /^(and|also|but|so|what about|how about)\b/i
+];
+
+const QUESTION_START = /^(why|how|what|which|who|where|when|is|are|does|do|did|can|could|should|would|will)\b/i;
+
+function sessionKey(chatId: number): string {
+  return `session:${chatId}`;
+}
+
+export async function loadSession(chatId: number, kv: KVNamespace): Promise<ChatSession | null> {
+  return kv.get<ChatSession>(sessionKey(chatId), 'json');
+}
+
+export async function saveSession(chatId: number, session: ChatSession, kv: KVNamespace): Promise<void> {
+  const trimmed = { ...session, turns: session.turns.slice(-MAX_TURNS) };
+  await kv.put(sessionKey(chatId), JSON.stringify(trimmed), { expirationTtl: SESSION_TTL_SECONDS });
+}
+
+export async function clearSession(chatId: number, kv: KVNamespace): Promise<void> {
+  await kv.delete(sessionKey(chatId));
+}
+
+// Cheap first pass; questions that could go either way are left to the model
+export function classifyMessage(text: string): MessageIntent {
+  if (FOLLOW_UP_PATTERNS.some(pattern => pattern.test(text))) {
+    return 'followup';
+  }
+
+  return text.trim().endsWith('?') || QUESTION_START.test(text.trim()) ? 'unsure' : 'search';
+}
@@ -0,0 +1,210 @@
+// Per-user settings and the /settings menu
+// Settings are stored in KV per Telegram user and apply wherever that user searches. Menu buttons
+// carry "st:" callback data, short enough for Telegram's 64-byte limit.
+
+import type { SearchParameters } from './query-builder';
+import type { InlineKeyboardButton, InlineKeyboardMarkup } from './telegram';
+import { messages, type Locale, type Messages } from './i18n';
+
+export type SafeSearchLevel = 'off' | 'moderate' | 'strict';
+export type SummaryLength = 'short' | 'medium' | 'long';
+// 'live' edits one message as results and insights arrive; 'classic' sends a message per result
+export type ResultDisplay = 'live' | 'classic';
+
+export interface UserSettings {
+  resultCount: number; // Results shown per page, 1-10
+  language: string; // ISO 639-1 code, or 'auto' to follow the query and then the Telegram app
+  region: string; // ISO 3166-1 alpha-2 code, or 'auto'
+  safeSearch: SafeSearchLevel;
+  aiSummaries: boolean;
+  summaryLength: SummaryLength;
+  display: ResultDisplay;
+  rankDebug: boolean; // Show each result's provider rank and reranking score
+}
+
+export type SettingsField = 'resultCount' | 'language' | 'region' | 'safeSearch' | 'summaryLength' | 'display';
+
+export type SettingsAction =
+  | { action: 'menu' }
+  | { action: 'open'; field: SettingsField }
+  | { action: 'set'; field: SettingsField; value: string }
+  | { action: 'toggleAI' }
+  | { action: 'toggleRankDebug' }
+  | { action: 'reset' };
+
+export const DEFAULT_SETTINGS: UserSettings = {
+  resultCount: 3,
+  language: 'auto',
+  region: 'auto',
+  safeSearch: 'moderate',
+  aiSummaries: true,
+  summaryLength: 'medium',
+  display: 'live',
+  rankDebug: false
+};
+
+export const LANGUAGES: Record<string, string> = {
+  auto: 'Auto', en: 'English', es: 'Español', fr: 'Français', de: 'Deutsch', it: 'Italiano',
+  pt: 'Português', ru: 'Русский', uk: 'Українська', tr: 'Türkçe', pl: 'Polski', ja: '日本語'
+};
+
+export const REGIONS: Record<string, string> = {
+  auto: 'Auto', us: '🇺🇸 US', gb: '🇬🇧 UK', ca: '🇨🇦 Canada', au: '🇦🇺 Australia', in: '🇮🇳 India', de: '🇩🇪 Germany',
+  fr: '🇫🇷 France', es: '🇪🇸 Spain', it: '🇮🇹 Italy', br: '🇧🇷 Brazil', ru: '🇷🇺 Russia', jp: '🇯🇵 Japan'
+};
+
+export const SAFE_SEARCH_LABELS: Record<SafeSearchLevel, string> = { off: 'Off', moderate: 'Moderate', strict: 'Strict' };
+export const SUMMARY_LENGTH_LABELS: Record<SummaryLength, string> = { short: 'Short', medium: 'Medium', long: 'Long' };
+export const DISPLAY_LABELS: Record<ResultDisplay, string> = { live: 'Single message', classic: 'Message per result' };
+
+// Every choice of each field; the labels shown in the menu come from the message catalog
+const FIELD_OPTIONS: Record<SettingsField, Record<string, string>> = {
+  resultCount: Object.fromEntries(Array.from({ length: 10 }, (_, i) => [String(i + 1), String(i + 1)])),
+  language: LANGUAGES,
+  region: REGIONS,
+  safeSearch: SAFE_SEARCH_LABELS,
+  summaryLength: SUMMARY_LENGTH_LABELS,
+  display: DISPLAY_LABELS
+};
+
+function settingsKey(userId: number): string {
+  return `settings:${userId}`;
+}
+
+export async function loadSettings(userId: number, kv: KVNamespace): Promise<UserSettings> {
+  const stored = await kv.get<Partial<UserSettings>>(settingsKey(userId), 'json');
+  // Settings added later fall back to their defaults
+  return { ...DEFAULT_SETTINGS, ...stored };
+}
+
+export async function saveSettings(userId: number, settings: UserSettings, kv: KVNamespace): Promise<void> {
+  await kv.put(settingsKey(userId), JSON.stringify(settings));
+}
+
+export async function deleteSettings(userId: number, kv: KVNamespace): Promise<void> {
+  await kv.delete(settingsKey(userId));
+}
+
+function hasOption(options: Record<string, string>, value: string): boolean {
+  return Object.prototype.hasOwnProperty.call(options, value);
+}
+
+function isSettingsField(value: string): value is SettingsField {
+  return Object.prototype.hasOwnProperty.call(FIELD_OPTIONS, value);
+}
+
+export function parseSettingsData(data: string): SettingsAction | null {
+  const [prefix, action, field, value] = data.split(':');
+  if (prefix !== 'st') {
+    return null;
+  }
+
+  if (action === 'menu' || action === 'reset') {
+    return { action };
+  }
+
+  if (action === 'ai') {
+    return { action: 'toggleAI' };
+  }
+
+  if (action === 'debug') {
+    return { action: 'toggleRankDebug' };
+  }
+
+  if (action === 'open' && isSettingsField(field ?? '')) {
+    return { action: 'open', field: field as SettingsField };
+  }
+
+  if (action === 'set' && isSettingsField(field ?? '') && value !== undefined && hasOption(FIELD_OPTIONS[field as SettingsField], value)) {
+    return { action: 'set', field: field as SettingsField, value };
+  }
+
+  return null;
+}
+
+// Applies a validated menu choice
+export function updateSettings(settings: UserSettings, field: SettingsField, value: string): UserSettings {
+  switch (field) {
+    case 'resultCount':
+      return { ...settings, resultCount: Number(value) };
+    case 'safeSearch':
+      return { ...settings, safeSearch: value as SafeSearchLevel };
+    case 'summaryLength':
+      return { ...settings, summaryLength: value as SummaryLength };
+    case 'display':
+      return { ...settings, display: value as ResultDisplay };
+    default:
+      return { ...settings, [field]: value };
+  }
+}
+
+// Option labels in the user's language; language and region names stay as they are
+function fieldOptions(field: SettingsField, t: Messages): Record<string, string> {
+  switch (field) {
+    case 'language':
+      return { ...LANGUAGES, auto: t.auto };
+    case 'region':
+      return { ...REGIONS, auto: t.auto };
+    case 'safeSearch':
+      return t.safeSearchLevels;
+    case 'summaryLength':
+      return t.summaryLengths;
+    case 'display':
+      return t.displayModes;
+    default:
+      return FIELD_OPTIONS[field];
+  }
+}
+
+export function settingValueLabel(settings: UserSettings, field: SettingsField, locale: Locale = 'en'): string {
+  return fieldOptions(field, messages(locale))[String(settings[field])] ?? String(settings[field]);
+}
+
+export function buildSettingsKeyboard(settings: UserSettings, field?: SettingsField, locale: Locale = 'en'): InlineKeyboardMarkup {
+  const t = messages(locale);
+  const labels = t.settingLabels;
+
+  if (!field) {
+    const rows: InlineKeyboardButton[][] = (['resultCount', 'language', 'region', 'safeSearch'] as SettingsField[]).map(name => [
+      { text: `${labels[name]}: ${settingValueLabel(settings, name, locale)}`, callback_data: `st:open:${name}` }
+    ]);
+    rows.push([{ text: `${labels.aiSummaries}: ${settings.aiSummaries ? t.on : t.off}`, callback_data: 'st:ai' }]);
+    rows.push([{ text: `${labels.summaryLength}: ${settingValueLabel(settings, 'summaryLength', locale)}`, callback_data: 'st:open:summaryLength' }]);
+    rows.push([{ text: `${labels.display}: ${settingValueLabel(settings, 'display', locale)}`, callback_data: 'st:open:display' }]);
+    rows.push([{ text: `${labels.rankDebug}: ${settings.rankDebug ? t.on : t.off}`, callback_data: 'st:debug' }]);
+    rows.push([{ text: t.resetSettings, callback_data: 'st:reset' }]);
+    return { inline_keyboard: rows };
+  }
+
+  const current = String(settings[field]);
+  const options = Object.entries(fieldOptions(field, t)).map(([value, label]) => ({
+    text: value === current ? `✅ ${label}` : label,
+    callback_data: `st:set:${field}:${value}`
+  }));
+
+  // Numbers fit five to a row, names three, the longer display names two
+  const perRow = field === 'resultCount' ? 5 : field === 'display' ? 2 : 3;
+  const rows: InlineKeyboardButton[][] = [];
+  for (let i = 0; i < options.length; i += perRow) {
+    rows.push(options.slice(i, i + perRow));
+  }
+  rows.push([{ text: t.back, callback_data: 'st:menu' }]);
+
+  return { inline_keyboard: rows };
+}
+
+// Language, region and SafeSearch as request parameters; 'auto' leaves the provider's defaults
+export function applySearchSettings(params: SearchParameters, settings: UserSettings): SearchParameters {
+  const applied: SearchParameters = { ...params, safe: settings.safeSearch };
+
+  if (settings.language !== 'auto') {
+    applied.lr = `lang_${settings.language}`;
+    applied.hl = settings.language;
+  }
+
+  if (settings.region !== 'auto') {
+    applied.gl = settings.region;
+  }
+
+  return applied;
+}
@@ -0,0 +1,308 @@
+// Telegram Bot API client
+// Every call checks the `ok` flag, honours retry_after on 429, retries transient 5xx and
+// network failures with backoff, and paces messages per chat to stay under flood limits.
+
+import type { Environment, TelegramMessage, TelegramUser } from './types';
+
+export type TelegramConfig = Pick<Environment, 'TELEGRAM_BOT_TOKEN' | 'TELEGRAM_API_BASE'>;
+
+const DEFAULT_API_BASE = 'https://api.telegram.org';
+const MAX_ATTEMPTS = 4;
+const BACKOFF_BASE_MS = 250;
+// Waiting longer than this inside a worker invocation is pointless; surface the error instead
+const MAX_RETRY_AFTER_SECONDS = 20;
+
+export class TelegramApiError extends Error {
+  constructor(
+    readonly method: string,
+    readonly errorCode: number,
+    readonly description: string,
+    readonly retryAfter?: number
+  ) {
+    super(`Telegram ${method} failed (${errorCode}): ${description}`);
+    this.name = 'TelegramApiError';
+  }
+}
+
+// Telegram rejected the HTML markup of a message, e.g. an unclosed tag
+export function isEntityParseError(error: unknown): error is TelegramApiError {
+  return error instanceof TelegramApiError && error.errorCode === 400 && /can't parse entities/i.test(error.description);
+}
+
+interface TelegramResponse<T> {
+  ok: boolean;
+  result?: T;
+  error_code?: number;
+  description?: string;
+  parameters?: {
+    retry_after?: number;
+    migrate_to_chat_id?: number;
+  };
+}
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data?: string;
+  url?: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export type ParseMode = 'HTML' | 'MarkdownV2';
+
+export interface SendMessageParams {
+  chat_id: number | string;
+  text: string;
+  parse_mode?: ParseMode;
+  disable_web_page_preview?: boolean;
+  reply_to_message_id?: number;
+  allow_sending_without_reply?: boolean;
+  reply_markup?: InlineKeyboardMarkup;
+}
+
+export interface EditMessageTextParams {
+  chat_id?: number | string;
+  message_id?: number;
+  inline_message_id?: string;
+  text: string;
+  parse_mode?: ParseMode;
+  disable_web_page_preview?: boolean;
+  reply_markup?: InlineKeyboardMarkup;
+}
+
+export interface SendChatActionParams {
+  chat_id: number | string;
+  action: 'typing' | 'upload_document';
+}
+
+export interface AnswerCallbackQueryParams {
+  callback_query_id: string;
+  text?: string;
+  show_alert?: boolean;
+}
+
+export interface SendDocumentParams {
+  chat_id: number | string;
+  document: Blob;
+  filename: string;
+  caption?: string;
+  parse_mode?: ParseMode;
+  reply_to_message_id?: number;
+  allow_sending_without_reply?: boolean;
+}
+
+export interface InlineQueryResultArticle {
+  type: 'article';
+  id: string; // At most 64 bytes
+  title: string;
+  description?: string;
+  url?: string;
+  input_message_content: {
+    message_text: string;
+    parse_mode?: ParseMode;
+    disable_web_page_preview?: boolean;
+  };
+  reply_markup?: InlineKeyboardMarkup;
+}
+
+export interface AnswerInlineQueryParams {
+  inline_query_id: string;
+  results: InlineQueryResultArticle[];
+  cache_time?: number;
+  is_personal?: boolean;
+  next_offset?: string;
+}
+
+export interface SetWebhookParams {
+  url: string;
+  secret_token?: string;
+  allowed_updates?: string[];
+  drop_pending_updates?: boolean;
+}
+
+export interface DeleteWebhookParams {
+  drop_pending_updates?: boolean;
+}
+
+export interface WebhookInfo {
+  url: string; // Empty when no webhook is set
+  has_custom_certificate: boolean;
+  pending_update_count: number;
+  ip_address?: string;
+  last_error_date?: number;
+  last_error_message?: string;
+  last_synchronization_error_date?: number;
+  max_connections?: number;
+  allowed_updates?: string[];
+}
+
+// An entry of the command menu; `command` is the name without the slash
+export interface TelegramBotCommand {
+  command: string;
+  description: string;
+}
+
+export interface SetMyCommandsParams {
+  commands: TelegramBotCommand[];
+  language_code?: string; // Shown to users whose app is in this language; without it, the default list
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Telegram allows about one message per second in a chat and twenty per minute in groups,
+// with short bursts tolerated. Buckets live per isolate, which is where a search's messages are sent from.
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+const chatBuckets = new Map<string, Bucket>();
+const BURST_SIZE = 4;
+
+function refillRate(chatId: number | string): number {
+  const isGroup = typeof chatId === 'string' ? chatId.startsWith('@') || chatId.startsWith('-') : chatId < 0;
+  return isGroup ? 20 / 60_000 : 1 / 1000; // Tokens per millisecond
+}
+
+async function waitForChatSlot(chatId: number | string): Promise<void> {
+  const key = String(chatId);
+  const rate = refillRate(chatId);
+  const now = Date.now();
+  const bucket = chatBuckets.get(key) ?? { tokens: BURST_SIZE, updatedAt: now };
+
+  bucket.tokens = Math.min(BURST_SIZE, bucket.tokens + (now - bucket.updatedAt) * rate);
+  bucket.updatedAt = now;
+  bucket.tokens -= 1;
+  chatBuckets.set(key, bucket);
+
+  // A negative balance is the wait owed before this message may go out
+  if (bucket.tokens < 0) {
+    await sleep(Math.ceil(-bucket.tokens / rate));
+  }
+}
+
+// Exponential pause between attempts, skipped once no attempt is left
+async function backoff(attempt: number): Promise<void> {
+  if (attempt < MAX_ATTEMPTS) {
+    await sleep(BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  }
+}
+
+function toBody(params: object): FormData | string {
+  if (!Object.values(params).some(value => value instanceof Blob)) {
+    return JSON.stringify(params);
+  }
+
+  const form = new FormData();
+  const { filename, ...fields } = params as Record<string, unknown>;
+  for (const [name, value] of Object.entries(fields)) {
+    if (value === undefined) {
+      continue;
+    }
+    if (value instanceof Blob) {
+      form.append(name, value, typeof filename === 'string' ? filename : name);
+    } else {
+      form.append(name, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+  }
+  return form;
+}
+
+export async function callTelegram<T>(method: string, params: object, config: TelegramConfig): Promise<T> {
+  const url = `${config.TELEGRAM_API_BASE || DEFAULT_API_BASE}/bot${config.TELEGRAM_BOT_TOKEN}/${method}`;
+  const body = toBody(params);
+  const headers: Record<string, string> = typeof body === 'string' ? { 'Content-Type': 'application/json' } : {};
+
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, { method: 'POST', headers, body });
+    } catch (error) {
+      // Network failure: worth another try after a pause
+      lastError = error;
+      await backoff(attempt);
+      continue;
+    }
+
+    const payload: TelegramResponse<T> | null = await response.json<TelegramResponse<T>>().catch(() => null);
+
+    if (payload?.ok) {
+      return payload.result as T;
+    }
+
+    const errorCode = payload?.error_code ?? response.status;
+    const description = payload?.description ?? `HTTP ${response.status}`;
+    const retryAfter = payload?.parameters?.retry_after;
+    lastError = new TelegramApiError(method, errorCode, description, retryAfter);
+
+    if (errorCode === 429 && retryAfter !== undefined && retryAfter <= MAX_RETRY_AFTER_SECONDS && attempt < MAX_ATTEMPTS) {
+      await sleep(retryAfter * 1000);
+      continue;
+    }
+
+    if (errorCode >= 500) {
+      await backoff(attempt);
+      continue;
+    }
+
+    // Anything else (bad request, forbidden, ...) will not succeed on a retry
+    throw lastError;
+  }
+
+  throw lastError;
+}
+
+export async function sendMessage(params: SendMessageParams, config: TelegramConfig): Promise<TelegramMessage> {
+  await waitForChatSlot(params.chat_id);
+  return callTelegram<TelegramMessage>('sendMessage', params, config);
+}
+
+export async function editMessageText(params: EditMessageTextParams, config: TelegramConfig): Promise<TelegramMessage | true> {
+  if (params.chat_id !== undefined) {
+    await waitForChatSlot(params.chat_id);
+  }
+  return callTelegram<TelegramMessage | true>('editMessageText', params, config);
+}
+
+export async function sendChatAction(params: SendChatActionParams, config: TelegramConfig): Promise<true> {
+  return callTelegram<true>('sendChatAction', params, config);
+}
+
+export async function answerCallbackQuery(params: AnswerCallbackQueryParams, config: TelegramConfig): Promise<true> {
+  return callTelegram<true>('answerCallbackQuery', params, config);
+}
+
+export async function sendDocument(params: SendDocumentParams, config: TelegramConfig): Promise<TelegramMessage> {
+  await waitForChatSlot(params.chat_id);
+  return callTelegram<TelegramMessage>('sendDocument', params, config);
+}
+
+export async function answerInlineQuery(params: AnswerInlineQueryParams, config: TelegramConfig): Promise<true> {
+  return callTelegram<true>('answerInlineQuery', params, config);
+}
+
+export async function getMe(config: TelegramConfig): Promise<TelegramUser> {
+  return callTelegram<TelegramUser>('getMe', {}, config);
+}
+
+export async function setWebhook(params: SetWebhookParams, config: TelegramConfig): Promise<true> {
+  return callTelegram<true>('setWebhook', params, config);
+}
+
+export async function deleteWebhook(params: DeleteWebhookParams, config: TelegramConfig): Promise<true> {
+  return callTelegram<true>('deleteWebhook', params, config);
+}
+
+export async function getWebhookInfo(config: TelegramConfig): Promise<WebhookInfo> {
+  return callTelegram<WebhookInfo>('getWebhookInfo', {}, config);
+}
+
+export async function setMyCommands(params: SetMyCommandsParams, config: TelegramConfig): Promise<true> {
+  return callTelegram<true>('setMyCommands', params, config);
+}
@@ -0,0 +1,107 @@
+// Shared types for the worker environment and the Telegram Bot API payloads it handles
+
+import type { RateLimiter } from './rate-limit';
+
+export interface Environment {
+  TELEGRAM_BOT_TOKEN: string;
+  TELEGRAM_WEBHOOK_SECRET: string; // Must match the secret_token registered with setWebhook
+  ADMIN_TOKEN?: string; // Bearer token for /setup, /status, /teardown and /api/clients; they are disabled without it
+  BOT_ADMINS?: string; // Comma-separated Telegram user ids of the bot admins; access control is off without it
+  ACCESS_POLICY?: string; // JSON rules for what each role may search for, see policy.ts
+  TELEGRAM_API_BASE?: string; // Bot API server, defaults to https://api.telegram.org
+  TELEGRAM_BOT_USERNAME?: string; // Used to spot @mentions in groups; looked up with getMe when unset
+  GOOGLE_SEARCH_API_KEY: string;
+  GOOGLE_SEARCH_ENGINE_ID: string;
+  SEARCH_PROVIDERS?: string; // Comma-separated, in order of preference (google, brave, bing, searxng), defaults to google
+  BRAVE_SEARCH_API_KEY?: string;
+  BING_SEARCH_API_KEY?: string;
+  BING_SEARCH_ENDPOINT?: string; // Defaults to https://api.bing.microsoft.com/v7.0/search
+  SEARXNG_URL?: string; // Base URL of a SearXNG instance with the json format enabled
+  AI: any; // Cloudflare AI binding
+  AI_MODEL?: string; // Workers AI text model for every prompt, defaults to @cf/meta/llama-3.1-8b-instruct
+  EMBEDDING_MODEL?: string; // Workers AI embedding model used to rerank results, defaults to @cf/baai/bge-base-en-v1.5
+  BOT_KV: KVNamespace; // Bot state (settings, sessions, paging state, caches)
+  DB: D1Database; // Saved searches; schema in migrations/
+  SEARCH_CACHE_TTL?: string; // Seconds a search response is reused, defaults to an hour
+  SUMMARY_CACHE_TTL?: string; // Seconds an AI summary is reused, defaults to a day
+  RATE_LIMITER: DurableObjectNamespace<RateLimiter>; // Search rate limits and the daily AI budget
+  USER_SEARCHES_PER_MINUTE?: string;
+  USER_SEARCHES_PER_DAY?: string;
+  CHAT_SEARCHES_PER_MINUTE?: string; // Group chats only; private chats are covered by the user limits
+  CHAT_SEARCHES_PER_DAY?: string;
+  INLINE_SEARCHES_PER_MINUTE?: string; // Inline previews that reach a provider, per user
+  INLINE_SEARCHES_PER_DAY?: string;
+  API_SEARCHES_PER_MINUTE?: string; // Per API client
+  API_SEARCHES_PER_DAY?: string;
+  DAILY_AI_CALL_BUDGET?: string; // Model calls per day across all users
+}
+
+export interface TelegramUser {
+  id: number;
+  is_bot?: boolean;
+  first_name: string;
+  username?: string;
+  language_code?: string;
+}
+
+export interface TelegramChat {
+  id: number;
+  type: string;
+  title?: string;
+  username?: string;
+}
+
+export interface TelegramMessage {
+  message_id: number;
+  from: TelegramUser;
+  chat: TelegramChat;
+  date?: number;
+  text?: string;
+  reply_to_message?: TelegramMessage;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: TelegramMessage;
+  data?: string;
+}
+
+export interface TelegramInlineQuery {
+  id: string;
+  from: TelegramUser;
+  query: string;
+  offset: string;
+  chat_type?: string;
+}
+
+// Only delivered when inline feedback is enabled with @BotFather's /setinlinefeedback
+export interface TelegramChosenInlineResult {
+  result_id: string;
+  from: TelegramUser;
+  query: string;
+  inline_message_id?: string; // Only set when the sent message has an inline keyboard
+}
+
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+  inline_query?: TelegramInlineQuery;
+  chosen_inline_result?: TelegramChosenInlineResult;
+}
+
+export interface GoogleSearchResult {
+  kind: string;
+  items?: Array<{
+    title: string;
+    link: string;
+    snippet?: string; // Left out for some pages, e.g. PDFs without extractable text
+    displayLink: string;
+    formattedUrl: string;
+  }>;
+  searchInformation: {
+    totalResults: string;
+    searchTime: number;
+  };
+}
@@ -0,0 +1,242 @@
+// Saved searches for /watch and the scheduled alerts
+// The Cron Trigger re-runs every due watch and sends its chat only the results whose URLs have
+// not been reported before. The results present when a watch is created are its baseline, so the
+// first alert only holds what appeared afterwards.
+
+import type { Environment } from './types';
+import { parseDork, detectSearchType, describeDork } from './dork';
+import { formatIndividualResult, formatWatchAlert } from './format';
+import type { EnrichedResult } from './results';
+import * as telegram from './telegram';
+import { TelegramApiError } from './telegram';
+import { searchWithFallback } from './search';
+import type { SearchItem } from './providers/provider';
+import { generateAISummary } from './ai';
+import { spendAIBudget } from './rate-limit';
+import { loadSettings, type UserSettings } from './settings';
+import { resolveLanguage, type Locale } from './i18n';
+import { checkSearchAccess } from './access';
+
+export type WatchFrequency = 'hourly' | 'daily';
+
+export interface Watch {
+  id: number;
+  chatId: number;
+  userId: number; // Whose settings the scheduled searches use
+  query: string;
+  frequency: WatchFrequency;
+  locale: Locale; // Language of the alerts, from the user who created the watch
+  createdAt: number;
+  lastRunAt: number;
+}
+
+interface WatchRow {
+  id: number;
+  chat_id: number;
+  user_id: number;
+  query: string;
+  frequency: WatchFrequency;
+  locale: Locale;
+  created_at: number;
+  last_run_at: number;
+}
+
+export const MAX_WATCHES_PER_CHAT = 10;
+
+const FREQUENCY_MS: Record<WatchFrequency, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000
+};
+// Cron invocations drift a little, so a watch is due slightly before its full interval has passed
+const SCHEDULE_SLACK_MS = 5 * 60 * 1000;
+// Keeps one scheduled run well within the Worker's subrequest limit
+const MAX_WATCHES_PER_RUN = 25;
+// New results beyond this wait for the next run
+const MAX_ALERT_RESULTS = 5;
+
+function toWatch(row: WatchRow): Watch {
+  return {
+    id: row.id,
+    chatId: row.chat_id,
+    userId: row.user_id,
+    query: row.query,
+    frequency: row.frequency,
+    locale: row.locale,
+    createdAt: row.created_at,
+    lastRunAt: row.last_run_at
+  };
+}
+
+// "<query> [daily|hourly]"; without a frequency the watch runs daily
+export function parseWatchArgs(args: string): { query: string; frequency: WatchFrequency } | null {
+  const match = args.trim().match(/^([\s\S]*?)(?:\s+(hourly|daily))?$/i);
+  const query = match?.[1].trim() ?? '';
+  if (!query) {
+    return null;
+  }
+
+  return { query, frequency: (match?.[2]?.toLowerCase() ?? 'daily') as WatchFrequency };
+}
+
+export async function countWatches(chatId: number, db: D1Database): Promise<number> {
+  const row = await db.prepare('SELECT COUNT(*) AS count FROM watches WHERE chat_id = ?').bind(chatId).first<{ count: number }>();
+  return row?.count ?? 0;
+}
+
+export async function listWatches(chatId: number, db: D1Database): Promise<Watch[]> {
+  const { results } = await db.prepare('SELECT * FROM watches WHERE chat_id = ? ORDER BY id').bind(chatId).all<WatchRow>();
+  return results.map(toWatch);
+}
+
+// Only watches of the given chat can be removed from it
+export async function deleteWatch(chatId: number, watchId: number, db: D1Database): Promise<boolean> {
+  const [, deleted] = await db.batch([
+    db.prepare('DELETE FROM watch_seen_urls WHERE watch_id IN (SELECT id FROM watches WHERE id = ? AND chat_id = ?)').bind(watchId, chatId),
+    db.prepare('DELETE FROM watches WHERE id = ? AND chat_id = ?').bind(watchId, chatId)
+  ]);
+  return deleted.meta.changes > 0;
+}
+
+async function deleteChatWatches(chatId: number, db: D1Database): Promise<void> {
+  await db.batch([
+    db.prepare('DELETE FROM watch_seen_urls WHERE watch_id IN (SELECT id FROM watches WHERE chat_id = ?)').bind(chatId),
+    db.prepare('DELETE FROM watches WHERE chat_id = ?').bind(chatId)
+  ]);
+}
+
+export async function dueWatches(now: number, db: D1Database): Promise<Watch[]> {
+  const { results } = await db.prepare(
+    `SELECT * FROM watches
+     WHERE (frequency = 'hourly' AND last_run_at <= ?) OR (frequency = 'daily' AND last_run_at <= ?)
+     ORDER BY last_run_at LIMIT ?`
+  ).bind(
+    now - FREQUENCY_MS.hourly + SCHEDULE_SLACK_MS,
+    now - FREQUENCY_MS.daily + SCHEDULE_SLACK_MS,
+    MAX_WATCHES_PER_RUN
+  ).all<WatchRow>();
+  return results.map(toWatch);
+}
+
+async function seenUrls(watchId: number, urls: string[], db: D1Database): Promise<Set<string>> {
+  if (urls.length === 0) {
+    return new Set();
+  }
+
+  const { results } = await db.prepare(`SELECT url FROM watch_seen_urls WHERE watch_id = ? AND url IN (${urls.map(() => '?').join(', ')})`)
+    .bind(watchId, ...urls)
+    .all<{ url: string }>();
+  return new Set(results.map(row => row.url));
+}
+
+// Records the reported URLs and the run time together
+async function recordRun(watchId: number, urls: string[], now: number, db: D1Database): Promise<void> {
+  await db.batch([
+    ...urls.map(url => db.prepare('INSERT OR IGNORE INTO watch_seen_urls (watch_id, url, first_seen_at) VALUES (?, ?, ?)').bind(watchId, url, now)),
+    db.prepare('UPDATE watches SET last_run_at = ? WHERE id = ?').bind(now, watchId)
+  ]);
+}
+
+// The owner's settings, with the language a search for the query runs in
+async function watchSettings(query: string, userId: number, env: Environment): Promise<UserSettings> {
+  const settings = await loadSettings(userId, env.BOT_KV);
+  return { ...settings, language: resolveLanguage(query, settings.language) ?? 'auto' };
+}
+
+async function searchWatch(query: string, userId: number, env: Environment): Promise<SearchItem[]> {
+  // Queries are validated when the watch is created
+  const dork = parseDork(query);
+  const settings = await watchSettings(query, userId, env);
+  // A cached response would hide anything published since it was stored
+  const { search } = await searchWithFallback(dork, detectSearchType(dork), env, { fresh: true, settings });
+  return search.value.items;
+}
+
+// Saves a watch with the current results as its baseline; returns it with the baseline size
+export async function createWatch(
+  chatId: number,
+  userId: number,
+  query: string,
+  frequency: WatchFrequency,
+  env: Environment,
+  now: number = Date.now(),
+  locale: Locale = 'en'
+): Promise<{ watch: Watch; baseline: number }> {
+  const items = await searchWatch(query, userId, env);
+
+  const row = await env.DB.prepare(
+    'INSERT INTO watches (chat_id, user_id, query, frequency, locale, created_at, last_run_at) VALUES (?, ?, ?, ?, ?, ?, ?) RETURNING *'
+  ).bind(chatId, userId, query, frequency, locale, now, now).first<WatchRow>();
+  if (!row) {
+    throw new Error('Watch insert returned no row');
+  }
+
+  const watch = toWatch(row);
+  await recordRun(watch.id, items.map(item => item.link), now, env.DB);
+  return { watch, baseline: items.length };
+}
+
+// Runs one watch and sends whatever is new; returns how many results were sent
+export async function runWatch(watch: Watch, env: Environment, now: number = Date.now()): Promise<number> {
+  const items = await searchWatch(watch.query, watch.userId, env);
+  const seen = await seenUrls(watch.id, items.map(item => item.link), env.DB);
+  const fresh = items.filter(item => !seen.has(item.link)).slice(0, MAX_ALERT_RESULTS);
+
+  if (fresh.length > 0) {
+    await sendAlert(watch, fresh, env);
+  }
+
+  await recordRun(watch.id, fresh.map(item => item.link), now, env.DB);
+  return fresh.length;
+}
+
+async function sendAlert(watch: Watch, items: SearchItem[], env: Environment): Promise<void> {
+  const dork = parseDork(watch.query);
+  const searchContext = detectSearchType(dork) === 'dork' ? describeDork(dork) : '';
+  const settings = await watchSettings(watch.query, watch.userId, env);
+  const results: EnrichedResult[] = items.map(item => ({ title: item.title, link: item.link, snippet: item.snippet, displayLink: item.displayLink }));
+
+  // Without budget left the new results still go out, just without insights
+  const enriched = settings.aiSummaries && await spendAIBudget(results.length, env) ?
+    await Promise.all(results.map(result => generateAISummary(result, watch.query, searchContext, env, {
+      length: settings.summaryLength,
+      language: settings.language !== 'auto' ? settings.language : undefined
+    }))) :
+    results;
+
+  await telegram.sendMessage({ chat_id: watch.chatId, text: formatWatchAlert(watch, enriched.length, watch.locale), parse_mode: 'HTML' }, env);
+  for (let i = 0; i < enriched.length; i++) {
+    await telegram.sendMessage({
+      chat_id: watch.chatId,
+      text: formatIndividualResult(enriched[i], i + 1, false, watch.locale),
+      parse_mode: 'HTML',
+      disable_web_page_preview: true
+    }, env);
+  }
+}
+
+// Entry point for the Cron Trigger
+export async function runDueWatches(env: Environment, now: number = Date.now()): Promise<void> {
+  const watches = await dueWatches(now, env.DB);
+
+  for (const watch of watches) {
+    try {
+      // The owner may have lost access since creating the watch; it is kept in case they get it back
+      const { decision } = await checkSearchAccess(parseDork(watch.query), watch.userId, watch.chatId, env);
+      if (decision.action !== 'allow') {
+        console.warn(`Skipping watch ${watch.id}: ${decision.reason}`);
+        await recordRun(watch.id, [], now, env.DB);
+        continue;
+      }
+      await runWatch(watch, env, now);
+    } catch (error) {
+      // The bot was blocked or removed from the chat; nobody is left to alert
+      if (error instanceof TelegramApiError && error.errorCode === 403) {
+        console.warn(`Removing watches of chat ${watch.chatId}:`, error.description);
+        await deleteChatWatches(watch.chatId, env.DB);
+        continue;
+      }
+      // Left as due, so the next run tries again
+      console.error(`Watch ${watch.id} failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { parseDork } from '../src/dork';
+import { DEFAULT_POLICY, evaluatePolicy, parsePolicy, blocksAllDorks } from '../src/policy';
+import { resolveRole, grantAccess, revokeAccess, recordDenial, recordInlineDenial, decideApproval, recentDenials, parseAccessArgs } from '../src/access';
+import type { TelegramMessage } from '../src/types';
+
+const accessEnv = { ...env, BOT_ADMINS: '1, 2' };
+
+describe('evaluatePolicy', () => {
+	it('keeps dorks from guests and holds sensitive ones for members', () => {
+		expect(evaluatePolicy(parseDork('best rust web framework'), 'guest', DEFAULT_POLICY)).toEqual({ action: 'allow' });
+		expect(evaluatePolicy(parseDork('site:github.com rate limiter'), 'guest', DEFAULT_POLICY).action).toBe('block');
+		expect(evaluatePolicy(parseDork('site:github.com rate limiter'), 'member', DEFAULT_POLICY)).toEqual({ action: 'allow' });
+		expect(evaluatePolicy(parseDork('intitle:"index of" password'), 'member', DEFAULT_POLICY).action).toBe('approve');
+		expect(evaluatePolicy(parseDork('filetype:log inurl:"/logs/"'), 'member', DEFAULT_POLICY).action).toBe('approve');
+		expect(evaluatePolicy(parseDork('filetype:log inurl:"/logs/"'), 'admin', DEFAULT_POLICY)).toEqual({ action: 'allow' });
+	});
+
+	it('matches every condition of a rule and lets blocking win', () => {
+		const policy = parsePolicy(JSON.stringify({
+			member: [
+				{ action: 'approve', operators: ['site'], reason: 'Site searches are reviewed' },
+				{ action: 'block', operators: ['filetype'], pattern: '\\bsql\\b', reason: 'No database dumps' },
+			],
+		}));
+
+		expect(evaluatePolicy(parseDork('site:example.com news'), 'member', policy)).toEqual({ action: 'approve', reason: 'Site searches are reviewed' });
+		expect(evaluatePolicy(parseDork('site:example.com filetype:sql dump'), 'member', policy)).toEqual({ action: 'block', reason: 'No database dumps' });
+		expect(evaluatePolicy(parseDork('filetype:pdf sql tutorial'), 'member', policy).action).toBe('block');
+		expect(evaluatePolicy(parseDork('sql tutorial'), 'member', policy)).toEqual({ action: 'allow' });
+		// Roles left out have no rules
+		expect(evaluatePolicy(parseDork('filetype:sql dump'), 'guest', policy)).toEqual({ action: 'allow' });
+	});
+
+	it('falls back to the default policy when ACCESS_POLICY does not parse', () => {
+		expect(parsePolicy('{not json')).toBe(DEFAULT_POLICY);
+		expect(parsePolicy(JSON.stringify({ guest: [{ action: 'deny', reason: 'x' }] }))).toBe(DEFAULT_POLICY);
+		expect(parsePolicy(JSON.stringify({ guest: [{ action: 'block', pattern: '(', reason: 'x' }] }))).toBe(DEFAULT_POLICY);
+	});
+
+	it('knows when a role may not run any dork', () => {
+		expect(blocksAllDorks('guest', DEFAULT_POLICY)).toBe(true);
+		expect(blocksAllDorks('member', DEFAULT_POLICY)).toBe(false);
+	});
+});
+
+describe('access list', () => {
+	it('makes listed users and everyone in listed chats members', async () => {
+		expect(await resolveRole(1, undefined, accessEnv)).toBe('admin');
+		expect(await resolveRole(10, -100, accessEnv)).toBe('guest');
+
+		await grantAccess({ subjectType: 'chat', subjectId: -100, role: 'member' }, 1, env.DB);
+		await grantAccess({ subjectType: 'user', subjectId: 11, role: 'admin' }, 1, env.DB);
+		expect(await resolveRole(10, -100, accessEnv)).toBe('member');
+		expect(await resolveRole(10, -200, accessEnv)).toBe('guest');
+		expect(await resolveRole(11, -200, accessEnv)).toBe('admin');
+
+		// Listing again changes the role
+		await grantAccess({ subjectType: 'user', subjectId: 11, role: 'member' }, 1, env.DB);
+		expect(await resolveRole(11, undefined, accessEnv)).toBe('member');
+
+		expect(await revokeAccess('chat', -100, env.DB)).toBe(true);
+		expect(await revokeAccess('chat', -100, env.DB)).toBe(false);
+		expect(await resolveRole(10, -100, accessEnv)).toBe('guest');
+	});
+
+	it('reads targets from arguments or the replied-to message', () => {
+		const message = { message_id: 1, from: { id: 1, first_name: 'Admin' }, chat: { id: -100, type: 'group' } } as TelegramMessage;
+		const reply = { ...message, reply_to_message: { message_id: 2, from: { id: 12, first_name: 'Member' }, chat: message.chat } };
+
+		expect(parseAccessArgs('12', message)).toEqual({ subjectType: 'user', subjectId: 12, role: 'member' });
+		expect(parseAccessArgs('admin 12', message)).toEqual({ subjectType: 'user', subjectId: 12, role: 'admin' });
+		expect(parseAccessArgs('chat', message)).toEqual({ subjectType: 'chat', subjectId: -100, role: 'member' });
+		expect(parseAccessArgs('', reply)).toEqual({ subjectType: 'user', subjectId: 12, role: 'member' });
+		expect(parseAccessArgs('', message)).toBeNull();
+		expect(parseAccessArgs('-100', message)).toBeNull();
+		expect(parseAccessArgs('12 13', message)).toBeNull();
+	});
+});
+
+describe('audit log', () => {
+	it('settles a held search only once', async () => {
+		const entry = await recordDenial({
+			userId: 20, chatId: 20, chatType: 'private', messageId: 5, role: 'member',
+			query: 'intitle:"index of" password', reason: 'Looks for credentials', outcome: 'pending', createdAt: 1000,
+		}, env.DB);
+		expect(entry.outcome).toBe('pending');
+
+		expect(await decideApproval(entry.id, true, 1, env.DB, 2000)).toMatchObject({ outcome: 'approved', decidedBy: 1, decidedAt: 2000 });
+		expect(await decideApproval(entry.id, false, 2, env.DB)).toBeNull();
+	});
+
+	it('keeps one inline denial per user and minute', async () => {
+		await recordInlineDenial(21, 'guest', 'site:a.com', 'No dorks', env.DB, 10_000);
+		await recordInlineDenial(21, 'guest', 'site:a.com x', 'No dorks', env.DB, 20_000);
+		await recordInlineDenial(21, 'guest', 'site:a.com xy', 'No dorks', env.DB, 80_000);
+
+		const entries = (await recentDenials(10, env.DB)).filter(entry => entry.userId === 21);
+		expect(entries.map(entry => entry.query)).toEqual(['site:a.com xy', 'site:a.com']);
+		expect(entries[0]).toMatchObject({ chatId: null, outcome: 'blocked' });
+	});
+});
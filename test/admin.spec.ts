@@ -0,0 +1,115 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { ALLOWED_UPDATES } from '../src/admin';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function adminRequest(url: string, method: string, token: string | null = env.ADMIN_TOKEN) {
+	const headers: Record<string, string> = {};
+	if (token !== null) {
+		headers.Authorization = `Bearer ${token}`;
+	}
+	return new IncomingRequest(url, { method, headers });
+}
+
+async function call(request: Request) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+function telegramMethod(method: string, result: unknown, bodies: unknown[] = []) {
+	return fetchMock
+		.get('https://api.telegram.org')
+		.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/${method}` })
+		.reply(200, (options) => {
+			bodies.push(JSON.parse(String(options.body ?? '{}')));
+			return { ok: true, result };
+		});
+}
+
+describe('Admin endpoints', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('rejects requests without the admin token', async () => {
+		for (const token of [null, 'wrong-token']) {
+			const response = await call(adminRequest('https://bot.example.com/setup', 'POST', token));
+			expect(response.status).toBe(401);
+			expect(await response.json()).toMatchObject({ success: false });
+		}
+	});
+
+	it('only changes the webhook on POST', async () => {
+		const response = await call(adminRequest('https://bot.example.com/setup', 'GET'));
+		expect(response.status).toBe(405);
+		expect(response.headers.get('Allow')).toBe('POST');
+	});
+
+	it('registers the webhook at the request origin and publishes the command menus', async () => {
+		const webhookBodies: any[] = [];
+		const commandBodies: any[] = [];
+		telegramMethod('setWebhook', true, webhookBodies);
+		telegramMethod('setMyCommands', true, commandBodies).times(3);
+
+		const response = await call(adminRequest('https://bot.example.com/setup', 'POST'));
+		expect(response.status).toBe(200);
+		expect(await response.json()).toMatchObject({ success: true, webhook_url: 'https://bot.example.com/webhook' });
+
+		expect(webhookBodies).toEqual([
+			{ url: 'https://bot.example.com/webhook', secret_token: env.TELEGRAM_WEBHOOK_SECRET, allowed_updates: ALLOWED_UPDATES },
+		]);
+		expect(commandBodies.map((body) => body.language_code)).toEqual([undefined, 'es', 'ru']);
+		const english = commandBodies[0].commands;
+		expect(english).toContainEqual({ command: 'search', description: expect.any(String) });
+		expect(commandBodies[2].commands.map((c: any) => c.command)).toEqual(english.map((c: any) => c.command));
+	});
+
+	it('refuses to register a plain HTTP webhook', async () => {
+		const response = await call(adminRequest('http://localhost:8787/setup', 'POST'));
+		expect(response.status).toBe(400);
+	});
+
+	it('reports whether the registered webhook matches this deployment', async () => {
+		telegramMethod('getWebhookInfo', {
+			url: 'https://bot.example.com/webhook',
+			has_custom_certificate: false,
+			pending_update_count: 3,
+			allowed_updates: ALLOWED_UPDATES,
+		});
+		const current = await call(adminRequest('https://bot.example.com/status', 'GET'));
+		expect(await current.json()).toMatchObject({ success: true, up_to_date: true, webhook: { pending_update_count: 3 } });
+
+		telegramMethod('getWebhookInfo', { url: 'https://old.example.com/webhook', has_custom_certificate: false, pending_update_count: 0 });
+		const stale = await call(adminRequest('https://bot.example.com/status', 'GET'));
+		expect(await stale.json()).toMatchObject({ up_to_date: false, expected_url: 'https://bot.example.com/webhook' });
+	});
+
+	it('removes the webhook on teardown', async () => {
+		const bodies: any[] = [];
+		telegramMethod('deleteWebhook', true, bodies);
+
+		const response = await call(adminRequest('https://bot.example.com/teardown?drop_pending_updates=true', 'POST'));
+		expect(await response.json()).toMatchObject({ success: true, webhook_deleted: true, pending_updates_dropped: true });
+		expect(bodies).toEqual([{ drop_pending_updates: true }]);
+	});
+
+	it('reports Telegram failures as JSON', async () => {
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/getWebhookInfo` })
+			.reply(401, { ok: false, error_code: 401, description: 'Unauthorized' });
+
+		const response = await call(adminRequest('https://bot.example.com/status', 'GET'));
+		expect(response.status).toBe(500);
+		expect(await response.json()).toMatchObject({ success: false, error: expect.stringContaining('Unauthorized') });
+	});
+});
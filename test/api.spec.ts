@@ -0,0 +1,152 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { parseSearchParameters } from '../src/api';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+function apiRequest(path: string, method: string, token: string | null, body?: unknown) {
+	const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+	if (token !== null) {
+		headers.Authorization = `Bearer ${token}`;
+	}
+	return new IncomingRequest(`https://bot.example.com${path}`, { method, headers, body: body === undefined ? undefined : JSON.stringify(body) });
+}
+
+async function call(request: Request, callEnv: typeof env = env) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, callEnv, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+async function createKey(name: string): Promise<{ id: number; key: string }> {
+	const response = await call(apiRequest('/api/clients', 'POST', env.ADMIN_TOKEN, { name }));
+	expect(response.status).toBe(201);
+	const body = await response.json<{ client: { id: number }; api_key: string }>();
+	return { id: body.client.id, key: body.api_key };
+}
+
+function googleAnswers(items: Array<{ title: string; link: string; snippet: string; displayLink: string }>) {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+		.reply(200, { items, searchInformation: { totalResults: String(items.length), searchTime: 0.2 } });
+}
+
+describe('HTTP API', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('serves the OpenAPI document without a key', async () => {
+		const response = await call(apiRequest('/api/openapi.json', 'GET', null));
+		expect(response.status).toBe(200);
+		const document = await response.json<any>();
+		expect(document.openapi).toBe('3.1.0');
+		expect(document.servers).toEqual([{ url: 'https://bot.example.com' }]);
+		expect(Object.keys(document.paths)).toEqual(['/api/search', '/api/clients', '/api/clients/{id}']);
+	});
+
+	it('answers a search with the ranked results, their insights and the overview', async () => {
+		const { key } = await createKey('dashboard');
+		googleAnswers([
+			{ title: 'Unrelated', link: 'https://one.example/', snippet: 'Off topic', displayLink: 'one.example' },
+			{ title: 'Edge runtimes', link: 'https://two.example/', snippet: 'On topic', displayLink: 'two.example' },
+		]);
+
+		const aiEnv = {
+			...env,
+			AI: {
+				run: async (_model: string, input: { text?: string[] }) => {
+					if (input.text) {
+						return { shape: [3, 3], data: [[1, 0, 0], [0.2, 1, 0], [1, 0.1, 0]] };
+					}
+					return { response: JSON.stringify({ overview: 'Edge runtimes are covered by [1].', results: [{ n: 1, insight: 'Explains edge runtimes.' }, { n: 2, insight: 'Not about runtimes.' }] }) };
+				},
+			},
+		};
+		const response = await call(apiRequest('/api/search?q=edge%20runtimes%20api&limit=2', 'GET', key), aiEnv);
+		expect(response.status).toBe(200);
+		const body = await response.json<any>();
+
+		expect(body).toMatchObject({
+			success: true,
+			query: 'edge runtimes api',
+			type: 'normal',
+			dork: null,
+			provider: { name: 'google' },
+			total_results: '2',
+			cached_at: null,
+			overview: 'Edge runtimes are covered by [1].',
+			analysis: 'complete',
+		});
+		expect(body.results.map((result: any) => [result.position, result.display_link, result.insight, result.rank.original])).toEqual([
+			[1, 'two.example', 'Explains edge runtimes.', 2],
+			[2, 'one.example', 'Not about runtimes.', 1],
+		]);
+		expect(Object.keys(body.timing)).toEqual(['provider_seconds', 'search_ms', 'rerank_ms', 'analysis_ms', 'total_ms']);
+	});
+
+	it('takes POST bodies and describes dorks', async () => {
+		const { key } = await createKey('slack-bot');
+		googleAnswers([{ title: 'Docs', link: 'https://docs.example/a', snippet: 'Docs page', displayLink: 'docs.example' }]);
+
+		const response = await call(apiRequest('/api/search', 'POST', key, { query: 'site:docs.example durable objects', ai: false }));
+		expect(response.status).toBe(200);
+		const body = await response.json<any>();
+		expect(body.type).toBe('dork');
+		expect(body.dork.context).not.toBe('');
+		expect(body.dork.parameters).toMatchObject({ q: 'durable objects', siteSearch: 'docs.example', siteSearchFilter: 'i' });
+		expect(body.analysis).toBe('off');
+		expect(body.results[0]).toMatchObject({ insight: null, rank: null });
+	});
+
+	it('only lets active clients search', async () => {
+		for (const token of [null, 'mywo_wrong']) {
+			const response = await call(apiRequest('/api/search?q=anything', 'GET', token));
+			expect(response.status).toBe(401);
+		}
+
+		const { id, key } = await createKey('retired-tool');
+		expect((await call(apiRequest(`/api/clients/${id}`, 'DELETE', env.ADMIN_TOKEN))).status).toBe(200);
+		expect((await call(apiRequest('/api/search?q=anything', 'GET', key))).status).toBe(401);
+		expect((await call(apiRequest(`/api/clients/${id}`, 'DELETE', env.ADMIN_TOKEN))).status).toBe(404);
+
+		// The name is free again once revoked, but not while in use
+		await createKey('retired-tool');
+		expect((await call(apiRequest('/api/clients', 'POST', env.ADMIN_TOKEN, { name: 'retired-tool' }))).status).toBe(409);
+
+		const list = await (await call(apiRequest('/api/clients', 'GET', env.ADMIN_TOKEN))).json<any>();
+		expect(list.clients.filter((client: any) => client.name === 'retired-tool').map((client: any) => client.revoked_at === null)).toEqual([true, false]);
+		expect((await call(apiRequest('/api/clients', 'GET', key))).status).toBe(401);
+	});
+
+	it('rejects bad requests before searching', async () => {
+		const { key } = await createKey('validator');
+		const bad = await call(apiRequest('/api/search?q=test&limit=11', 'GET', key));
+		expect(bad.status).toBe(400);
+		expect(await bad.json()).toEqual({ success: false, error: 'limit must be a whole number from 1 to 10' });
+
+		expect((await call(apiRequest('/api/search', 'POST', key, { query: 'intitle:' }))).status).toBe(400);
+		expect((await call(apiRequest('/api/search', 'PUT', key))).headers.get('Allow')).toBe('GET, POST');
+		expect((await call(apiRequest('/api/nothing', 'GET', key))).status).toBe(404);
+	});
+});
+
+describe('parseSearchParameters', () => {
+	it('fills in defaults and reads query strings and JSON alike', () => {
+		expect(parseSearchParameters({ query: ' rust ' })).toEqual({
+			query: 'rust', limit: 3, ai: true, fresh: false, language: 'auto', region: 'auto', safeSearch: 'moderate', summaryLength: 'medium',
+		});
+		expect(parseSearchParameters({ query: 'rust', limit: '5', ai: 'false', safe_search: 'strict' })).toMatchObject({ limit: 5, ai: false, safeSearch: 'strict' });
+		expect(parseSearchParameters({ query: 'rust', limit: 5, ai: false, language: 'de' })).toMatchObject({ limit: 5, ai: false, language: 'de' });
+		expect(() => parseSearchParameters({ query: 'rust', region: 'mars' })).toThrow('region must be one of');
+		expect(() => parseSearchParameters({})).toThrow('query is required');
+	});
+});
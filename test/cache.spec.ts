@@ -0,0 +1,100 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { parseCacheDirective } from '../src/cache';
+import { cachedSearch } from '../src/search';
+import { googleProvider } from '../src/providers/google';
+import { generateAISummary } from '../src/ai';
+
+const googleResponse = {
+	kind: 'customsearch#search',
+	items: [{ title: 'A', link: 'https://a.example', snippet: 'a', displayLink: 'a.example', formattedUrl: 'https://a.example' }],
+	searchInformation: { totalResults: '1', searchTime: 0.1 },
+};
+
+function interceptGoogle() {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+		.reply(200, googleResponse);
+}
+
+describe('parseCacheDirective', () => {
+	it('strips !fresh wherever it appears', () => {
+		expect(parseCacheDirective('rust async !fresh')).toEqual({ query: 'rust async', fresh: true });
+		expect(parseCacheDirective('!FRESH rust')).toEqual({ query: 'rust', fresh: true });
+		expect(parseCacheDirective('rust!fresh')).toEqual({ query: 'rust!fresh', fresh: false });
+	});
+});
+
+describe('cachedSearch', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('answers a repeated query from the cache', async () => {
+		interceptGoogle();
+
+		const first = await cachedSearch(googleProvider, { q: 'Cache  Me' }, env);
+		const second = await cachedSearch(googleProvider, { q: 'cache me' }, env);
+
+		expect(first.fromCache).toBe(false);
+		expect(second.fromCache).toBe(true);
+		expect(second.value.items).toEqual([{ title: 'A', link: 'https://a.example', snippet: 'a', displayLink: 'a.example' }]);
+		expect(second.value.searchInfo.provider).toBe('Google');
+	});
+
+	it('keys pages and parameters separately', async () => {
+		interceptGoogle();
+		interceptGoogle();
+
+		await cachedSearch(googleProvider, { q: 'paged' }, env);
+		expect((await cachedSearch(googleProvider, { q: 'paged' }, env, { start: 11 })).fromCache).toBe(false);
+		expect((await cachedSearch(googleProvider, { q: 'paged' }, env, { start: 11 })).fromCache).toBe(true);
+	});
+
+	it('bypasses the cache when fresh results are requested', async () => {
+		interceptGoogle();
+		interceptGoogle();
+
+		await cachedSearch(googleProvider, { q: 'fresh please' }, env);
+		expect((await cachedSearch(googleProvider, { q: 'fresh please' }, env, { fresh: true })).fromCache).toBe(false);
+	});
+});
+
+describe('generateAISummary', () => {
+	const result = { title: 'A', link: 'https://a.example', snippet: 'a', displayLink: 'a.example' };
+
+	it('reuses a summary for the same result and query', async () => {
+		let calls = 0;
+		const aiEnv = { ...env, AI: { run: async () => ({ response: `summary ${++calls}` }) } };
+
+		const first = await generateAISummary(result, 'cached summary', '', aiEnv);
+		const second = await generateAISummary(result, 'Cached Summary', '', aiEnv);
+
+		expect(calls).toBe(1);
+		expect(first).toMatchObject({ aiSummary: 'summary 1', aiSummaryFromCache: false });
+		expect(second).toMatchObject({ aiSummary: 'summary 1', aiSummaryFromCache: true });
+	});
+
+	it('does not cache failed model calls', async () => {
+		let calls = 0;
+		const failingEnv = {
+			...env,
+			AI: {
+				run: async () => {
+					calls++;
+					throw new Error('model overloaded');
+				},
+			},
+		};
+
+		expect((await generateAISummary(result, 'failing summary', '', failingEnv)).aiSummary).toBe('AI analysis unavailable.');
+		await generateAISummary(result, 'failing summary', '', failingEnv);
+		expect(calls).toBe(2);
+	});
+});
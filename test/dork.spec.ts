@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { parseDork, detectSearchType, describeDork, DorkSyntaxError } from '../src/dork';
+
+function searchTypeOf(query: string) {
+	return detectSearchType(parseDork(query));
+}
+
+describe('detectSearchType', () => {
+	it.each(['covid-19 vaccines', 'C++ tutorials', 'best restaurants in Tokyo', 'what is 10:30 in UTC', 'node.js streams'])(
+		'treats "%s" as a normal search',
+		(query) => {
+			expect(searchTypeOf(query)).toBe('normal');
+		},
+	);
+
+	it.each([
+		'site:github.com machine learning',
+		'"exact phrase"',
+		'python -snake',
+		'pdf OR doc',
+		'python AND tutorial',
+		'price $100..$500',
+		'"admin * panel"',
+		'* security',
+	])('treats "%s" as a dork', (query) => {
+		expect(searchTypeOf(query)).toBe('dork');
+	});
+});
+
+describe('parseDork', () => {
+	it('builds an AST with operators, phrases, negation and OR groups', () => {
+		const { root } = parseDork('intitle:"index of" -site:example.com (pdf OR doc)');
+		expect(root).toEqual({
+			type: 'and',
+			explicit: false,
+			children: [
+				{ type: 'operator', name: 'intitle', value: 'index of', quoted: true },
+				{ type: 'not', operand: { type: 'operator', name: 'site', value: 'example.com', quoted: false } },
+				{
+					type: 'group',
+					child: {
+						type: 'or',
+						children: [
+							{ type: 'term', value: 'pdf', wildcard: false },
+							{ type: 'term', value: 'doc', wildcard: false },
+						],
+					},
+				},
+			],
+		});
+	});
+
+	it('binds OR tighter than the implicit AND', () => {
+		const { root } = parseDork('ext:xlsx "employee" OR "salary"');
+		expect(root).toMatchObject({
+			type: 'and',
+			children: [{ type: 'operator', name: 'ext' }, { type: 'or', children: [{ value: 'employee' }, { value: 'salary' }] }],
+		});
+	});
+
+	it('parses numeric ranges with units', () => {
+		expect(parseDork('$100..$500').root).toEqual({ type: 'range', low: 100, high: 500, unit: '$' });
+		expect(parseDork('numrange:2019-2024').root).toEqual({ type: 'range', low: 2019, high: 2024, unit: '' });
+	});
+
+	it('gives allin* operators every following word', () => {
+		expect(parseDork('allintitle:admin panel login').root).toEqual({
+			type: 'operator',
+			name: 'allintitle',
+			value: 'admin panel login',
+			quoted: false,
+		});
+	});
+
+	it('keeps grouped operator values together', () => {
+		expect(parseDork('-inurl:(htm|html) login').root).toMatchObject({
+			type: 'and',
+			children: [{ type: 'not', operand: { type: 'operator', name: 'inurl', value: '(htm|html)' } }, { type: 'term', value: 'login' }],
+		});
+	});
+
+	it.each([
+		['git push --force', ['git', 'push', '--force']],
+		['node --version output', ['node', '--version', 'output']],
+		['++i vs i++', ['++i', 'vs', 'i++']],
+		['hello :-) world', ['hello', ':-)', 'world']],
+		['tell me more about result 2 :)', ['tell', 'me', 'more', 'about', 'result', '2', ':)']],
+		['oh no :(', ['oh', 'no', ':(']],
+		['OR gate', ['OR', 'gate']],
+		['pdf OR', ['pdf', 'OR']],
+		['C# -- tutorial', ['C#', '--', 'tutorial']],
+		['v1..v2 changes', ['v1..v2', 'changes']],
+		['a 6" screen', ['a', '6"', 'screen']],
+		['a) b', ['a)', 'b']],
+		['see pdf)', ['see', 'pdf)']],
+		['OR pdf', ['OR', 'pdf']],
+	])('reads chat text "%s" as plain words', (query, words) => {
+		const { root } = parseDork(query);
+		expect(root).toEqual({ type: 'and', explicit: false, children: words.map((value) => ({ type: 'term', value, wildcard: false })) });
+		expect(detectSearchType({ source: query, root })).toBe('normal');
+	});
+
+	it('only treats AND and OR as connectives between terms', () => {
+		expect(parseDork('AND gate vs OR gate').root).toMatchObject({
+			type: 'and',
+			children: [{ type: 'term', value: 'AND' }, { type: 'term', value: 'gate' }, { type: 'or', children: [{ value: 'vs' }, { value: 'gate' }] }],
+		});
+	});
+
+	it.each([
+		['"admin panel', 'Unbalanced quote'],
+		['intitle:"index of', 'Unbalanced quote'],
+		['site: example.com', 'Empty site: operator'],
+		['(pdf OR doc', 'Unbalanced parenthesis'],
+		['inurl:(htm|html', 'Unbalanced parenthesis'],
+	])('rejects malformed input %s', (query, message) => {
+		expect(() => parseDork(query)).toThrow(DorkSyntaxError);
+		expect(() => parseDork(query)).toThrow(message);
+	});
+});
+
+describe('describeDork', () => {
+	it('describes operators and logic found in the query', () => {
+		expect(describeDork(parseDork('site:reddit.com "python tips" -beginner'))).toBe(
+			'Google Dork search (searching within specific website, exact phrase matching) with exclusions',
+		);
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { parseCommand, extractGroupQuery } from '../src/group';
+
+function groupMessage(text: string, replyToUsername?: string) {
+	return {
+		message_id: 5,
+		from: { id: 1, first_name: 'Member' },
+		chat: { id: -100, type: 'supergroup' },
+		text,
+		reply_to_message: replyToUsername
+			? { message_id: 4, from: { id: 2, is_bot: true, first_name: 'Bot', username: replyToUsername }, chat: { id: -100, type: 'supergroup' } }
+			: undefined,
+	};
+}
+
+describe('parseCommand', () => {
+	it('reads the command, its target bot and its arguments', () => {
+		expect(parseCommand('/search@Search_Bot  site:github.com  workers')).toEqual({ name: 'search', target: 'search_bot', args: 'site:github.com  workers' });
+		expect(parseCommand('/HELP')).toEqual({ name: 'help', target: undefined, args: '' });
+		expect(parseCommand('not a command')).toBeNull();
+		expect(parseCommand('/ spaced')).toBeNull();
+	});
+});
+
+describe('extractGroupQuery', () => {
+	it('searches when the bot is mentioned or replied to', () => {
+		expect(extractGroupQuery(groupMessage('@search_bot best rust web frameworks'), 'search_bot')).toBe('best rust web frameworks');
+		expect(extractGroupQuery(groupMessage('what about @Search_Bot rust'), 'search_bot')).toBe('what about rust');
+		expect(extractGroupQuery(groupMessage('and for go?', 'search_bot'), 'search_bot')).toBe('and for go?');
+	});
+
+	it('ignores everything else', () => {
+		expect(extractGroupQuery(groupMessage('lunch at noon?'), 'search_bot')).toBeNull();
+		expect(extractGroupQuery(groupMessage('ask @search_bot_two'), 'search_bot')).toBeNull();
+		expect(extractGroupQuery(groupMessage('thanks', 'other_bot'), 'search_bot')).toBeNull();
+	});
+});
@@ -0,0 +1,75 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { recordInlineDenial } from '../src/access';
+import { recordSearch, recentSearches, getSearch, forgetUser, parseExportArgs, toCsv, toJson, type HistoryEntry } from '../src/history';
+
+const entry: Omit<HistoryEntry, 'id'> = {
+	userId: 700,
+	chatId: 700,
+	query: 'site:example.com "quarterly report"',
+	searchType: 'dork',
+	provider: 'google',
+	overview: 'Reports, mostly PDFs.',
+	results: [
+		{ title: 'Q1, "draft"', link: 'https://example.com/q1', snippet: 'First\nquarter', displayLink: 'example.com', aiSummary: 'The Q1 draft.', fromCache: true },
+		{ title: 'Q2', link: 'https://example.com/q2', snippet: 'Second quarter', displayLink: 'example.com' },
+	],
+	createdAt: Date.UTC(2025, 4, 1, 12),
+};
+
+describe('parseExportArgs', () => {
+	it('takes a count and a format in any order', () => {
+		expect(parseExportArgs('')).toEqual({ count: 10, format: 'csv' });
+		expect(parseExportArgs('json 25')).toEqual({ count: 25, format: 'json' });
+		expect(parseExportArgs('500')).toEqual({ count: 100, format: 'csv' });
+		expect(parseExportArgs('xml')).toBeNull();
+	});
+});
+
+describe('export formats', () => {
+	it('writes one CSV row per result and quotes fields that need it', () => {
+		const csv = toCsv([{ ...entry, id: 1 }]).split('\r\n');
+
+		expect(csv[0]).toBe('searched_at,query,search_type,provider,rank,title,url,snippet,ai_insight,overview');
+		expect(csv[1]).toBe('2025-05-01T12:00:00.000Z,"site:example.com ""quarterly report""",dork,google,1,"Q1, ""draft""",https://example.com/q1,"First\nquarter",The Q1 draft.,"Reports, mostly PDFs."');
+		expect(csv[2]).toBe('2025-05-01T12:00:00.000Z,"site:example.com ""quarterly report""",dork,google,2,Q2,https://example.com/q2,Second quarter,,');
+	});
+
+	it('keeps spreadsheets from running titles and queries as formulas', () => {
+		const titles = ['=HYPERLINK("https://evil.example")', '+1+1', '@SUM(A1)', '\tcmd', '\rcmd'];
+		const results = titles.map((title, i) => ({ title, link: `https://example.com/${i}`, snippet: 'ok', displayLink: 'example.com' }));
+		const csv = toCsv([{ ...entry, id: 1, query: '-site:pinterest.com recipes', results }]).split('\r\n');
+
+		expect(csv[1]).toBe(`2025-05-01T12:00:00.000Z,'-site:pinterest.com recipes,dork,google,1,"'=HYPERLINK(""https://evil.example"")",https://example.com/0,ok,,"Reports, mostly PDFs."`);
+		expect(csv.slice(2, 5).map((row) => row.split(',')[5])).toEqual(["'+1+1", "'@SUM(A1)", "'\tcmd"]);
+		expect(csv[5]).toContain(`,5,"'\rcmd",`);
+	});
+
+	it('writes JSON with ranks and insights', () => {
+		const [search] = JSON.parse(toJson([{ ...entry, id: 1 }]));
+		expect(search.results[1]).toEqual({ rank: 2, title: 'Q2', url: 'https://example.com/q2', snippet: 'Second quarter', aiInsight: null });
+	});
+});
+
+describe('search history storage', () => {
+	it('keeps searches per user and deletes them and access requests on request', async () => {
+		await recordSearch(entry, env.DB);
+		await recordSearch({ ...entry, query: 'second search', createdAt: entry.createdAt + 1000 }, env.DB);
+		await recordSearch({ ...entry, userId: 701, chatId: 701 }, env.DB);
+		await recordInlineDenial(700, 'guest', 'blocked query', 'not on the access list', env.DB);
+		await recordInlineDenial(701, 'guest', 'blocked query', 'not on the access list', env.DB);
+
+		const recent = await recentSearches(700, 10, env.DB);
+		expect(recent.map((search) => search.query)).toEqual(['second search', entry.query]);
+		expect(recent[1].results[0]).toEqual({ title: 'Q1, "draft"', link: 'https://example.com/q1', snippet: 'First\nquarter', displayLink: 'example.com', aiSummary: 'The Q1 draft.' });
+
+		expect(await getSearch(701, recent[0].id, env.DB)).toBeNull();
+		expect(await getSearch(700, recent[0].id, env.DB)).toMatchObject({ query: 'second search' });
+
+		expect(await forgetUser(700, env.DB)).toEqual({ searches: 2, watches: 0 });
+		expect(await recentSearches(700, 10, env.DB)).toEqual([]);
+		expect(await recentSearches(701, 10, env.DB)).toHaveLength(1);
+		const { results: audit } = await env.DB.prepare('SELECT user_id FROM access_audit WHERE user_id IN (700, 701)').all();
+		expect(audit).toEqual([{ user_id: 701 }]);
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, resolveLanguage, uiLocale, messages } from '../src/i18n';
+
+describe('detectLanguage', () => {
+	it('recognizes the script or the common words of a query', () => {
+		expect(detectLanguage('cómo funciona la fotosíntesis')).toBe('es');
+		expect(detectLanguage('как работает фотосинтез')).toBe('ru');
+		expect(detectLanguage('як працює фотосинтез і навіщо')).toBe('uk');
+		expect(detectLanguage('what is the best rust web framework')).toBe('en');
+		expect(detectLanguage('wie funktioniert die Photosynthese')).toBe('de');
+		expect(detectLanguage('東京のおすすめ ラーメン')).toBe('ja');
+	});
+
+	it('ignores operators and gives up on queries without a clear language', () => {
+		expect(detectLanguage('site:github.com cómo usar la api')).toBe('es');
+		expect(detectLanguage('site:the.example.com intitle:"what is" python')).toBeUndefined();
+		expect(detectLanguage('python asyncio')).toBeUndefined();
+		expect(detectLanguage('la')).toBeUndefined();
+	});
+});
+
+describe('resolveLanguage', () => {
+	it('prefers the /lang choice, then the query, then the Telegram app', () => {
+		expect(resolveLanguage('what is rust', 'ru')).toBe('ru');
+		expect(resolveLanguage('qué es rust', 'auto', 'ru')).toBe('es');
+		expect(resolveLanguage('rust', 'auto', 'pt-br')).toBe('pt');
+		expect(resolveLanguage('rust', 'auto', 'xx')).toBeUndefined();
+		expect(resolveLanguage('rust', 'auto')).toBeUndefined();
+	});
+});
+
+describe('uiLocale', () => {
+	it('uses a catalog for the chosen or app language and English otherwise', () => {
+		expect(uiLocale('auto', 'es-419')).toBe('es');
+		expect(uiLocale('ru', 'es')).toBe('ru');
+		expect(uiLocale('auto', 'fr')).toBe('en');
+		expect(uiLocale('de', 'ru')).toBe('en');
+		expect(uiLocale('auto')).toBe('en');
+	});
+});
+
+describe('message catalog', () => {
+	it('has every message in every locale', () => {
+		// Messages with parameters are rendered with sample values
+		const render = (value: unknown) => (typeof value === 'function' ? value(2, 3) : value);
+		const english = messages('en');
+		for (const locale of ['es', 'ru'] as const) {
+			const catalog = messages(locale);
+			expect(Object.keys(catalog).sort()).toEqual(Object.keys(english).sort());
+			for (const [key, value] of Object.entries(catalog)) {
+				expect(render(value), `${locale}.${key}`).not.toBe('');
+				expect(render(value), `${locale}.${key}`).not.toBe(render(english[key as keyof typeof english]));
+			}
+			expect(catalog.help).toContain('/lang');
+			expect(Object.keys(catalog.commands)).toEqual(Object.keys(english.commands));
+		}
+	});
+
+	it('declines Russian counts', () => {
+		expect(messages('ru').exportCaption(1)).toContain('1 поиск');
+		expect(messages('ru').exportCaption(3)).toContain('3 поиска');
+		expect(messages('ru').exportCaption(11)).toContain('11 поисков');
+	});
+});
@@ -1,24 +1,491 @@
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect } from 'vitest';
+import { env, createExecutionContext, waitOnExecutionContext, SELF, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
 import worker from '../src/index';
+import { saveSearchState, type SearchState } from '../src/pagination';
+import { saveSession, loadSession } from '../src/session';
+import { loadSettings } from '../src/settings';
+import { LiveMessage } from '../src/live';
 
 // For now, you'll need to do something like this to get a correctly-typed
 // `Request` to pass to `worker.fetch()`.
 const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
 
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
+function webhookRequest(update: unknown, secret: string | null = env.TELEGRAM_WEBHOOK_SECRET) {
+	const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+	if (secret !== null) {
+		headers['X-Telegram-Bot-Api-Secret-Token'] = secret;
+	}
+	return new IncomingRequest('https://example.com/webhook', { method: 'POST', headers, body: JSON.stringify(update) });
+}
+
+function textUpdate(updateId: number, text: string) {
+	return {
+		update_id: updateId,
+		message: { message_id: 1, from: { id: 42, first_name: 'Test' }, chat: { id: 42, type: 'private' }, text },
+	};
+}
+
+function startUpdate(updateId: number) {
+	return textUpdate(updateId, '/start');
+}
+
+async function deliver(request: Request) {
+	const ctx = createExecutionContext();
+	const response = await worker.fetch(request, env, ctx);
+	await waitOnExecutionContext(ctx);
+	return response;
+}
+
+describe('AI Search Bot worker', () => {
+	it('responds with a status line (unit style)', async () => {
 		const request = new IncomingRequest('http://example.com');
 		// Create an empty context to pass to `worker.fetch()`.
 		const ctx = createExecutionContext();
 		const response = await worker.fetch(request, env, ctx);
 		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
 		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+		expect(await response.text()).toMatchInlineSnapshot(`"AI Search Bot is running!"`);
 	});
 
-	it('responds with Hello World! (integration style)', async () => {
+	it('responds with a status line (integration style)', async () => {
 		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
+		expect(await response.text()).toMatchInlineSnapshot(`"AI Search Bot is running!"`);
+	});
+});
+
+describe('Telegram webhook', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('rejects deliveries without the secret token', async () => {
+		const response = await worker.fetch(webhookRequest(startUpdate(1), null), env, createExecutionContext());
+		expect(response.status).toBe(401);
+	});
+
+	it('rejects deliveries with a wrong secret token', async () => {
+		const response = await worker.fetch(webhookRequest(startUpdate(2), 'not-the-secret'), env, createExecutionContext());
+		expect(response.status).toBe(401);
+	});
+
+	it('processes an update only once', async () => {
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, { ok: true, result: {} });
+
+		const first = await deliver(webhookRequest(startUpdate(3)));
+		expect(first.status).toBe(200);
+
+		// A redelivery must not reach Telegram again; there is no interceptor left to answer it
+		const second = await deliver(webhookRequest(startUpdate(3)));
+		expect(second.status).toBe(200);
+		expect(await env.DB.prepare('SELECT update_id FROM processed_updates WHERE update_id = 3').first()).not.toBeNull();
+	});
+
+	it('acknowledges before searching and reports background failures to the chat', async () => {
+		const sent: string[] = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				sent.push(JSON.parse(String(options.body)).text);
+				return { ok: true, result: {} };
+			})
+			.times(2);
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(500, 'backend error');
+
+		const ctx = createExecutionContext();
+		const response = await worker.fetch(webhookRequest(textUpdate(4, 'weather in Paris')), env, ctx);
+		expect(response.status).toBe(200);
+		expect(await response.text()).toBe('OK');
+
+		await waitOnExecutionContext(ctx);
+		expect(sent).toHaveLength(2);
+		expect(sent[1]).toContain('error processing your search');
+	});
+
+	it('falls back to plain text when Telegram rejects the markup', async () => {
+		const payloads: Array<{ text: string; parse_mode?: string }> = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(400, (options) => {
+				payloads.push(JSON.parse(String(options.body)));
+				return { ok: false, error_code: 400, description: "Bad Request: can't parse entities: unexpected end tag" };
+			});
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				payloads.push(JSON.parse(String(options.body)));
+				return { ok: true, result: {} };
+			});
+
+		await deliver(webhookRequest(startUpdate(5)));
+
+		expect(payloads).toHaveLength(2);
+		expect(payloads[0].parse_mode).toBe('HTML');
+		expect(payloads[1].parse_mode).toBeUndefined();
+		expect(payloads[1].text).not.toContain('<b>');
+	});
+
+	it('pages through stored results from the inline keyboard', async () => {
+		const results = Array.from({ length: 10 }, (_, i) => ({
+			title: `Result ${i + 1}`,
+			link: `https://example.com/${i + 1}`,
+			snippet: `Snippet ${i + 1}`,
+			displayLink: 'example.com',
+			aiSummary: i < 3 ? `Insight ${i + 1}` : undefined,
+		}));
+		const state: SearchState = {
+			query: 'paging',
+			searchType: 'normal',
+			searchContext: '',
+			provider: 'google',
+			params: { q: 'paging' },
+			searchInfo: { totalResults: '1000', searchTime: 0.1 },
+			pageSize: 3,
+			aiSummaries: true,
+			summaryLength: 'medium',
+			display: 'classic',
+			language: 'auto',
+			locale: 'en',
+			rankDebug: false,
+			results,
+			fetched: 10,
+			hasMore: true,
+		};
+		const stateId = await saveSearchState(state, env.BOT_KV);
+
+		const sent: Array<{ text: string; reply_markup?: { inline_keyboard: Array<Array<{ text: string; callback_data: string }>> } }> = [];
+		const telegramApi = fetchMock.get('https://api.telegram.org');
+		telegramApi.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery` }).reply(200, { ok: true, result: true });
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				sent.push(JSON.parse(String(options.body)));
+				return { ok: true, result: {} };
+			})
+			.times(4);
+
+		let aiCalls = 0;
+		const aiEnv = { ...env, AI: { run: async () => ({ response: `Fresh insight ${++aiCalls}` }) } };
+		const ctx = createExecutionContext();
+		await worker.fetch(
+			webhookRequest({
+				update_id: 6,
+				callback_query: {
+					id: 'cb1',
+					from: { id: 42, first_name: 'Test' },
+					message: { message_id: 9, from: { id: 1, first_name: 'Bot' }, chat: { id: 77, type: 'private' } },
+					data: `pg:${stateId}:3`,
+				},
+			}),
+			aiEnv,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+
+		// Only the three new results needed insights
+		expect(aiCalls).toBe(3);
+		expect(sent.slice(0, 3).map((message) => message.text)).toEqual([
+			expect.stringContaining('Result 4'),
+			expect.stringContaining('Result 5'),
+			expect.stringContaining('Result 6'),
+		]);
+		const buttons = sent[3].reply_markup!.inline_keyboard.flat().map((button) => button.callback_data);
+		expect(buttons).toEqual([`pg:${stateId}:0`, `pg:${stateId}:6`, `ln:${stateId}`]);
+	});
+
+	it('answers follow-up questions from the last search and forgets it on /new', async () => {
+		const state: SearchState = {
+			query: 'edge runtimes',
+			searchType: 'normal',
+			searchContext: '',
+			provider: 'google',
+			params: { q: 'edge runtimes' },
+			searchInfo: { totalResults: '2', searchTime: 0.1 },
+			pageSize: 3,
+			aiSummaries: true,
+			summaryLength: 'medium',
+			display: 'classic',
+			language: 'auto',
+			locale: 'en',
+			rankDebug: false,
+			results: [
+				{ title: 'Workers', link: 'https://a.example', snippet: 'Runs on V8 isolates', displayLink: 'a.example' },
+				{ title: 'Lambda@Edge', link: 'https://b.example', snippet: 'Runs in regional caches', displayLink: 'b.example' },
+			],
+			fetched: 2,
+			hasMore: false,
+		};
+		const stateId = await saveSearchState(state, env.BOT_KV);
+		await saveSession(42, { stateId, overview: 'Two ways to run code at the edge.', turns: [] }, env.BOT_KV);
+
+		const sent: string[] = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				sent.push(JSON.parse(String(options.body)).text);
+				return { ok: true, result: {} };
+			})
+			.times(2);
+
+		const prompts: string[] = [];
+		const aiEnv = {
+			...env,
+			AI: {
+				run: async (_model: string, input: { messages: Array<{ content: string }> }) => {
+					prompts.push(input.messages[0].content);
+					return { response: 'Result [2] runs in regional caches, while [1] uses isolates.' };
+				},
+			},
+		};
+		const ctx = createExecutionContext();
+		await worker.fetch(webhookRequest(textUpdate(7, 'compare the first two')), aiEnv, ctx);
+		await waitOnExecutionContext(ctx);
+
+		// No search was made; the stored results were the context
+		expect(prompts).toHaveLength(1);
+		expect(prompts[0]).toContain('[2] Title: Lambda@Edge');
+		expect(sent[0]).toContain('regional caches');
+		expect((await loadSession(42, env.BOT_KV))?.turns).toHaveLength(1);
+
+		await deliver(webhookRequest(textUpdate(8, '/new')));
+		expect(await loadSession(42, env.BOT_KV)).toBeNull();
+	});
+
+	it('fills in a single results message as the analysis arrives', async () => {
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(200, {
+				items: Array.from({ length: 3 }, (_, i) => ({
+					title: `Live ${i + 1}`,
+					link: `https://live.example/${i + 1}`,
+					snippet: `Snippet ${i + 1}`,
+					displayLink: 'live.example',
+				})),
+				searchInformation: { totalResults: '3', searchTime: 0.1 },
+			});
+
+		const sent: string[] = [];
+		const edits: Array<{ message_id: number; text: string; reply_markup?: { inline_keyboard: Array<Array<{ callback_data: string }>> } }> = [];
+		const telegramApi = fetchMock.get('https://api.telegram.org');
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				sent.push(JSON.parse(String(options.body)).text);
+				return { ok: true, result: { message_id: 50, chat: { id: 42, type: 'private' } } };
+			});
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/editMessageText` })
+			.reply(200, (options) => {
+				edits.push(JSON.parse(String(options.body)));
+				return { ok: true, result: true };
+			})
+			.times(2);
+
+		const reply = JSON.stringify({
+			overview: 'Three live pages.',
+			results: [1, 2, 3].map((n) => ({ n, insight: `Insight ${n}` })),
+		});
+		const aiEnv = { ...env, AI: { run: async () => ({ response: reply }) } };
+		const ctx = createExecutionContext();
+		await worker.fetch(webhookRequest(textUpdate(13, 'live results please')), aiEnv, ctx);
+		await waitOnExecutionContext(ctx);
+
+		// Only the loading message is sent; it is edited with the raw results, then the analysis
+		expect(sent).toEqual([expect.stringContaining('Searching')]);
+		expect(edits.map((edit) => edit.message_id)).toEqual([50, 50]);
+		expect(edits[0].text).toContain('Live 1');
+		expect(edits[0].text).toContain('Analyzing…');
+		expect(edits[1].text).toContain('Three live pages.');
+		expect(edits[1].text).toContain('Insight 3');
+		expect(edits[1].reply_markup!.inline_keyboard[0].map((button) => button.callback_data)).toEqual([
+			expect.stringMatching(/^rd:\w+:0$/),
+			expect.stringMatching(/^rd:\w+:1$/),
+			expect.stringMatching(/^rd:\w+:2$/),
+		]);
+	});
+
+	it('edits the results message as plain text when Telegram rejects the markup', async () => {
+		const edits: Array<{ text: string; parse_mode?: string }> = [];
+		const telegramApi = fetchMock.get('https://api.telegram.org');
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/editMessageText` })
+			.reply(400, (options) => {
+				edits.push(JSON.parse(String(options.body)));
+				return { ok: false, error_code: 400, description: "Bad Request: can't parse entities: unsupported start tag" };
+			});
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/editMessageText` })
+			.reply(200, (options) => {
+				edits.push(JSON.parse(String(options.body)));
+				return { ok: true, result: true };
+			});
+
+		await new LiveMessage(42, 60, env).finish('<b>1.</b> Fish &amp; chips');
+
+		expect(edits.map((edit) => edit.parse_mode)).toEqual(['HTML', undefined]);
+		expect(edits[1].text).toBe('1. Fish & chips');
+	});
+
+	it('changes settings from the /settings menu in place', async () => {
+		const edits: Array<{ message_id: number; text: string; reply_markup: { inline_keyboard: Array<Array<{ text: string; callback_data: string }>> } }> = [];
+		const telegramApi = fetchMock.get('https://api.telegram.org');
+		telegramApi.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery` }).reply(200, { ok: true, result: true });
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/editMessageText` })
+			.reply(200, (options) => {
+				edits.push(JSON.parse(String(options.body)));
+				return { ok: true, result: true };
+			});
+
+		const ctx = createExecutionContext();
+		await worker.fetch(
+			webhookRequest({
+				update_id: 12,
+				callback_query: {
+					id: 'cb2',
+					from: { id: 44, first_name: 'Test' },
+					message: { message_id: 30, from: { id: 1, first_name: 'Bot' }, chat: { id: 44, type: 'private' } },
+					data: 'st:set:resultCount:5',
+				},
+			}),
+			env,
+			ctx,
+		);
+		await waitOnExecutionContext(ctx);
+
+		expect(await loadSettings(44, env.BOT_KV)).toMatchObject({ resultCount: 5 });
+		expect(edits).toHaveLength(1);
+		expect(edits[0].message_id).toBe(30);
+		expect(edits[0].text).toContain('Results per page: 5');
+		expect(edits[0].reply_markup.inline_keyboard[0][0].callback_data).toBe('st:open:resultCount');
+	});
+
+	it('answers in the language chosen with /lang, or else the Telegram app language', async () => {
+		const sent: string[] = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				sent.push(JSON.parse(String(options.body)).text);
+				return { ok: true, result: {} };
+			})
+			.times(3);
+
+		const command = (updateId: number, text: string, languageCode: string) => ({
+			update_id: updateId,
+			message: { message_id: 1, from: { id: 46, first_name: 'Test', language_code: languageCode }, chat: { id: 46, type: 'private' }, text },
+		});
+		await deliver(webhookRequest(command(14, '/help', 'ru')));
+		await deliver(webhookRequest(command(15, '/lang es', 'ru')));
+		await deliver(webhookRequest(command(16, '/start', 'ru')));
+
+		expect(sent[0]).toContain('Справка');
+		expect(sent[1]).toContain('Español');
+		expect(sent[2]).toContain('Bienvenido');
+		expect(await loadSettings(46, env.BOT_KV)).toMatchObject({ language: 'es' });
+	});
+
+	it('stays quiet in groups unless addressed and threads its replies', async () => {
+		const payloads: Array<{ text: string; reply_to_message_id?: number }> = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				payloads.push(JSON.parse(String(options.body)));
+				return { ok: true, result: {} };
+			});
+
+		const groupEnv = { ...env, TELEGRAM_BOT_USERNAME: 'search_bot' };
+		const groupUpdate = (updateId: number, messageId: number, text: string) => ({
+			update_id: updateId,
+			message: { message_id: messageId, from: { id: 43, first_name: 'Member' }, chat: { id: -1001, type: 'supergroup' }, text },
+		});
+
+		for (const [updateId, messageId, text] of [
+			[9, 20, 'anyone up for lunch?'],
+			[10, 21, '/help@other_bot'],
+			[11, 22, '/help@search_bot'],
+		] as const) {
+			const ctx = createExecutionContext();
+			await worker.fetch(webhookRequest(groupUpdate(updateId, messageId, text)), groupEnv, ctx);
+			await waitOnExecutionContext(ctx);
+		}
+
+		expect(payloads).toHaveLength(1);
+		expect(payloads[0].text).toContain('Bot Help');
+		expect(payloads[0].reply_to_message_id).toBe(22);
+	});
+
+	it('keeps dorks for members and sends sensitive ones to an admin', async () => {
+		const payloads: Array<{ chat_id: number; text: string; reply_markup?: any }> = [];
+		const telegramApi = fetchMock.get('https://api.telegram.org');
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				payloads.push(JSON.parse(String(options.body)));
+				return { ok: true, result: {} };
+			})
+			.times(7);
+		telegramApi.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/answerCallbackQuery` }).reply(200, { ok: true, result: true });
+		const edits: string[] = [];
+		telegramApi
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/editMessageText` })
+			.reply(200, (options) => {
+				edits.push(JSON.parse(String(options.body)).text);
+				return { ok: true, result: true };
+			});
+
+		const accessEnv = { ...env, BOT_ADMINS: '7' };
+		const send = async (update: unknown) => {
+			const ctx = createExecutionContext();
+			await worker.fetch(webhookRequest(update), accessEnv, ctx);
+			await waitOnExecutionContext(ctx);
+		};
+		const message = (updateId: number, userId: number, text: string) => ({
+			update_id: updateId,
+			message: { message_id: updateId, from: { id: userId, first_name: 'Test' }, chat: { id: userId, type: 'private' }, text },
+		});
+
+		await send(message(17, 50, 'site:example.com quarterly report'));
+		await send(message(18, 50, '/allow 51'));
+		await send(message(19, 7, '/allow 50'));
+		await send(message(20, 50, 'intitle:"index of" password'));
+
+		expect(payloads[0]).toMatchObject({ chat_id: 50, text: expect.stringContaining('not allowed') });
+		expect(payloads[1].text).toContain('Only bot admins');
+		expect(payloads[2].text).toContain('User 50 can now run dork searches');
+		// The admin is asked first, then the user is told
+		expect(payloads[3].chat_id).toBe(7);
+		expect(payloads[3].text).toContain('index of');
+		const [approve, decline] = payloads[3].reply_markup.inline_keyboard[0];
+		expect(approve.callback_data).toMatch(/^ap:\d+:y$/);
+		expect(payloads[4]).toMatchObject({ chat_id: 50, text: expect.stringContaining('approval') });
+
+		await send({
+			update_id: 21,
+			callback_query: { id: 'cb-decline', from: { id: 7, first_name: 'Admin' }, message: { message_id: 3, from: { id: 1, first_name: 'Bot' }, chat: { id: 7, type: 'private' } }, data: decline.callback_data },
+		});
+		expect(edits[0]).toContain('Declined by Admin');
+		expect(payloads[5]).toMatchObject({ chat_id: 50, text: expect.stringContaining('declined your search') });
+
+		await send(message(22, 7, '/audit'));
+		expect(payloads[6].text).toContain('site:example.com quarterly report');
+		expect(payloads[6].text).toContain('/allow 51');
+		expect(payloads[6].text).toContain('rejected by 7');
 	});
 });
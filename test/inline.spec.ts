@@ -0,0 +1,163 @@
+import { env, createExecutionContext, waitOnExecutionContext, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import worker from '../src/index';
+import { checkSearchAllowance } from '../src/rate-limit';
+
+const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+
+const googleResponse = {
+	kind: 'customsearch#search',
+	items: Array.from({ length: 10 }, (_, i) => ({
+		title: `Inline ${i + 1}`,
+		link: `https://inline.example/${i + 1}`,
+		snippet: `Snippet ${i + 1}`,
+		displayLink: 'inline.example',
+		formattedUrl: `https://inline.example/${i + 1}`,
+	})),
+	searchInformation: { totalResults: '50', searchTime: 0.2 },
+};
+
+async function deliver(update: unknown, workerEnv: typeof env = env) {
+	const request = new IncomingRequest('https://example.com/webhook', {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json', 'X-Telegram-Bot-Api-Secret-Token': env.TELEGRAM_WEBHOOK_SECRET },
+		body: JSON.stringify(update),
+	});
+	const ctx = createExecutionContext();
+	await worker.fetch(request, workerEnv, ctx);
+	await waitOnExecutionContext(ctx);
+}
+
+describe('inline mode', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('answers with articles and adds the AI insight once a result is chosen', async () => {
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(200, googleResponse);
+
+		let answer: any;
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/answerInlineQuery` })
+			.reply(200, (options) => {
+				answer = JSON.parse(String(options.body));
+				return { ok: true, result: true };
+			});
+
+		await deliver({ update_id: 100, inline_query: { id: 'iq1', from: { id: 501, first_name: 'Inline' }, query: 'inline testing', offset: '' } });
+
+		expect(answer.inline_query_id).toBe('iq1');
+		expect(answer.results).toHaveLength(10);
+		expect(answer.results[1]).toMatchObject({ type: 'article', id: 'google:1', title: 'Inline 2', url: 'https://inline.example/2' });
+		expect(answer.results[1].input_message_content.message_text).toContain('AI insight on its way');
+		expect(answer.next_offset).toBe('google:11');
+
+		let edit: any;
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/editMessageText` })
+			.reply(200, (options) => {
+				edit = JSON.parse(String(options.body));
+				return { ok: true, result: true };
+			});
+
+		// The search is answered from the cache this time, so no Google interceptor is needed
+		const aiEnv = { ...env, AI: { run: async () => ({ response: 'A useful page about inline testing.' }) } };
+		await deliver(
+			{ update_id: 101, chosen_inline_result: { result_id: 'google:1', from: { id: 501, first_name: 'Inline' }, query: 'inline testing', inline_message_id: 'im1' } },
+			aiEnv,
+		);
+
+		expect(edit.inline_message_id).toBe('im1');
+		expect(edit.text).toContain('Inline 2');
+		expect(edit.text).toContain('A useful page about inline testing.');
+		expect(edit.text).not.toContain('on its way');
+	});
+
+	it('checks the limits before asking the provider and still answers from the cache', async () => {
+		const strict = { ...env, INLINE_SEARCHES_PER_MINUTE: '1' };
+		const answers: any[] = [];
+		const answerInline = () =>
+			fetchMock
+				.get('https://api.telegram.org')
+				.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/answerInlineQuery` })
+				.reply(200, (options) => {
+					answers.push(JSON.parse(String(options.body)));
+					return { ok: true, result: true };
+				});
+
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(200, googleResponse);
+		answerInline();
+		await deliver({ update_id: 103, inline_query: { id: 'iq3', from: { id: 502, first_name: 'Limited' }, query: 'inline limits', offset: '' } }, strict);
+
+		// No Google interceptor: the limited search must not reach the provider
+		answerInline();
+		await deliver({ update_id: 104, inline_query: { id: 'iq4', from: { id: 502, first_name: 'Limited' }, query: 'another inline search', offset: '' } }, strict);
+
+		answerInline();
+		await deliver({ update_id: 105, inline_query: { id: 'iq5', from: { id: 502, first_name: 'Limited' }, query: 'inline limits', offset: '' } }, strict);
+
+		expect(answers.map((answer) => answer.results[0]?.id)).toEqual(['google:0', 'rate-limited', 'google:0']);
+		expect(answers[1].results[0].title).toBe('⏳ Search limit reached');
+	});
+
+	it('only searches once the user stops typing, without using up their chat searches', async () => {
+		const strict = { ...env, USER_SEARCHES_PER_MINUTE: '1' };
+		let searches = 0;
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(200, () => {
+				searches++;
+				return googleResponse;
+			});
+		const answered: string[] = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/answerInlineQuery` })
+			.reply(200, (options) => {
+				answered.push(JSON.parse(String(options.body)).inline_query_id);
+				return { ok: true, result: true };
+			});
+
+		const prefixes = ['typ', 'typi', 'typin', 'typing', 'typing f', 'typing fa', 'typing fast'];
+		await Promise.all(
+			prefixes.map((query, i) =>
+				deliver({ update_id: 110 + i, inline_query: { id: `iq-typing-${i}`, from: { id: 503, first_name: 'Typist' }, query, offset: '' } }, strict),
+			),
+		);
+
+		expect(searches).toBe(1);
+		expect(answered).toHaveLength(1);
+
+		// The user's one chat search of the minute is still there
+		expect((await checkSearchAllowance(503, 503, strict)).allowed).toBe(true);
+	});
+
+	it('does not search for queries that are too short', async () => {
+		let answer: any;
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/answerInlineQuery` })
+			.reply(200, (options) => {
+				answer = JSON.parse(String(options.body));
+				return { ok: true, result: true };
+			});
+
+		await deliver({ update_id: 102, inline_query: { id: 'iq2', from: { id: 501, first_name: 'Inline' }, query: 'ab', offset: '' } });
+
+		expect(answer.results).toEqual([]);
+	});
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { parseDork } from '../src/dork';
+import { buildSearchRequest, buildQueryRequest, describeSearchParameters } from '../src/query-builder';
+
+const NOW = new Date('2024-07-01T00:00:00Z');
+
+function build(query: string) {
+	return buildSearchRequest(parseDork(query), NOW);
+}
+
+describe('buildSearchRequest', () => {
+	it('maps site:, filetype: and an exact phrase onto structured parameters', () => {
+		expect(build('site:example.com filetype:pdf "annual report" revenue')).toEqual({
+			params: { q: 'revenue', siteSearch: 'example.com', siteSearchFilter: 'i', fileType: 'pdf', exactTerms: 'annual report' },
+			warnings: [],
+		});
+	});
+
+	it('excludes a negated site and term', () => {
+		expect(build('data breach -site:wikipedia.org -rumor').params).toEqual({
+			q: 'data breach',
+			siteSearch: 'wikipedia.org',
+			siteSearchFilter: 'e',
+			excludeTerms: 'rumor',
+		});
+	});
+
+	it('turns a plain OR group into orTerms', () => {
+		expect(build('python (tutorial OR course)').params).toEqual({ q: 'python', orTerms: 'tutorial course' });
+	});
+
+	it('maps numeric ranges and dateranges', () => {
+		expect(build('laptop $300..$800').params).toEqual({ q: 'laptop', lowRange: '$300', highRange: '$800' });
+		expect(build('launch daterange:2024-06-01..2024-07-01').params).toEqual({ q: 'launch', dateRestrict: 'd30' });
+	});
+
+	it('keeps a second site: in the query text', () => {
+		expect(build('site:a.com site:b.com news').params).toEqual({
+			q: 'site:b.com news',
+			siteSearch: 'a.com',
+			siteSearchFilter: 'i',
+		});
+	});
+
+	it('drops unsupported operators with a warning', () => {
+		const request = build('cache:example.com homepage');
+		expect(request.params).toEqual({ q: 'homepage' });
+		expect(request.warnings).toEqual(['cache: is not supported by the Custom Search API and was left out']);
+	});
+
+	it('never sends an empty q', () => {
+		expect(build('"exact phrase only"').params).toEqual({ q: '"exact phrase only"' });
+		expect(build('info:example.com').params.q).toBe('example.com');
+	});
+});
+
+describe('buildQueryRequest', () => {
+	const supported = new Set(['site', 'filetype'] as const);
+
+	it('keeps supported operators inline and rewrites the rest as plain text', () => {
+		expect(buildQueryRequest(parseDork('site:example.com inurl:admin "login page"'), 'Brave Search', supported)).toEqual({
+			params: { q: 'site:example.com admin "login page"' },
+			warnings: ['inurl: is not supported by Brave Search, "admin" was searched as plain text'],
+		});
+	});
+
+	it('drops ranges the provider cannot express', () => {
+		const request = buildQueryRequest(parseDork('laptop $300..$800 daterange:2460000-2460100'), 'Bing', supported);
+		expect(request.params.q).toBe('laptop');
+		expect(request.warnings).toHaveLength(2);
+	});
+});
+
+describe('describeSearchParameters', () => {
+	it('lists every parameter that is sent', () => {
+		expect(describeSearchParameters({ q: 'revenue', siteSearch: 'example.com', siteSearchFilter: 'e', fileType: 'pdf' })).toEqual([
+			'q: revenue',
+			'siteSearch: example.com (exclude)',
+			'fileType: pdf',
+		]);
+	});
+});
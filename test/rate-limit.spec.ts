@@ -0,0 +1,90 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { checkSearchAllowance, spendAIBudget, formatRateLimitMessage, type RateLimit } from '../src/rate-limit';
+
+function limiter(name: string) {
+	return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(name));
+}
+
+describe('RateLimiter', () => {
+	it('blocks once a window is full and reports when the oldest hit expires', async () => {
+		const limits: RateLimit[] = [{ windowMs: 60_000, max: 2, period: 'minute', label: 'per minute' }];
+		const stub = limiter('test:window');
+
+		expect((await stub.consume(limits)).allowed).toBe(true);
+		expect((await stub.consume(limits)).allowed).toBe(true);
+
+		const denied = await stub.consume(limits);
+		expect(denied.allowed).toBe(false);
+		if (!denied.allowed) {
+			expect(denied.limit.label).toBe('per minute');
+			expect(denied.retryAt - Date.now()).toBeGreaterThan(55_000);
+			expect(denied.retryAt - Date.now()).toBeLessThanOrEqual(60_000);
+		}
+	});
+
+	it('refunds exactly the hit it is given', async () => {
+		const limits: RateLimit[] = [{ windowMs: 60_000, max: 2, period: 'minute', label: 'per minute' }];
+		const stub = limiter('test:refund');
+
+		const first = await stub.consume(limits);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const second = await stub.consume(limits);
+		if (!first.allowed || !second.allowed) {
+			throw new Error('expected both hits to be allowed');
+		}
+		expect(second.hit).toBeGreaterThan(first.hit);
+
+		await stub.refund(first.hit);
+		expect((await stub.consume(limits)).allowed).toBe(true);
+		// The second hit is now the oldest one left
+		const denied = await stub.consume(limits);
+		expect(denied).toMatchObject({ allowed: false, retryAt: second.hit + 60_000 });
+	});
+
+	it('checks the user and, in groups, the chat', async () => {
+		const strict = { ...env, USER_SEARCHES_PER_MINUTE: '10', CHAT_SEARCHES_PER_MINUTE: '1' };
+
+		expect((await checkSearchAllowance(1001, -500, strict)).allowed).toBe(true);
+		// Another member of the same group runs into the chat limit
+		const denied = await checkSearchAllowance(1002, -500, strict);
+		expect(denied.allowed).toBe(false);
+		// Private chats are only limited per user
+		expect((await checkSearchAllowance(1003, 1003, strict)).allowed).toBe(true);
+	});
+
+	it('does not count a search the chat turned away against the user', async () => {
+		const strict = { ...env, USER_SEARCHES_PER_MINUTE: '1', CHAT_SEARCHES_PER_MINUTE: '1' };
+
+		expect((await checkSearchAllowance(1004, -501, strict)).allowed).toBe(true);
+		expect((await checkSearchAllowance(1005, -501, strict)).allowed).toBe(false);
+		// 1005's only search of the minute was never run, so it is still available in private
+		expect((await checkSearchAllowance(1005, 1005, strict)).allowed).toBe(true);
+	});
+
+	it('stops spending once the daily AI budget is used up', async () => {
+		const small = { ...env, DAILY_AI_CALL_BUDGET: '5' };
+
+		expect(await spendAIBudget(4, small)).toBe(true);
+		expect(await spendAIBudget(4, small)).toBe(false);
+		expect(await spendAIBudget(1, small)).toBe(true);
+	});
+
+	it('tells the user when they can search again', () => {
+		const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+		const message = formatRateLimitMessage(
+			{ allowed: false, retryAt: now + 42_000, limit: { windowMs: 60_000, max: 5, period: 'minute', label: 'per minute' } },
+			'en',
+			now
+		);
+		expect(message).toContain('limit of 5 searches per minute');
+		expect(message).toContain('in 42 seconds (at 12:00 UTC)');
+
+		const spanish = formatRateLimitMessage(
+			{ allowed: false, retryAt: now + 3 * 60_000, limit: { windowMs: 60_000, max: 10, period: 'chatMinute', label: 'per minute in this chat' } },
+			'es',
+			now
+		);
+		expect(spanish).toBe('⏳ Has alcanzado el límite de 10 búsquedas por minuto en este chat.\n\nPodrás volver a buscar dentro de 3 minutos (a las 12:03 UTC).');
+	});
+});
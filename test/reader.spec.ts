@@ -0,0 +1,88 @@
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { extractArticle, chunkText, parseReadableUrl, readPage, PageReadError } from '../src/reader';
+import { parsePageSummary } from '../src/ai';
+
+const paragraph = 'Workers run JavaScript at the edge, close to users, without servers to manage. '.repeat(4);
+
+const articleHtml = `<!doctype html>
+<html>
+<head><title>Edge computing &amp; you</title><style>body { color: red }</style></head>
+<body>
+	<nav><a href="/">Home</a> <a href="/blog">Blog</a></nav>
+	<div class="cookie-banner">We use cookies</div>
+	<article>
+		<h1>Edge computing</h1>
+		<p>${paragraph}</p>
+		<div class="share-buttons">Share on social</div>
+		<p>Second&nbsp;paragraph &#8212; with entities.</p>
+	</article>
+	<footer>© 2025 Example</footer>
+	<script>trackVisitor()</script>
+</body>
+</html>`;
+
+describe('extractArticle', () => {
+	it('keeps the article text and drops navigation and boilerplate', async () => {
+		const { title, text } = await extractArticle(articleHtml);
+
+		expect(title).toBe('Edge computing & you');
+		expect(text).toContain('Edge computing\n\nWorkers run JavaScript');
+		expect(text).toContain('Second paragraph — with entities.');
+		for (const boilerplate of ['Home', 'cookies', 'Share on social', '© 2025', 'trackVisitor', 'color: red']) {
+			expect(text).not.toContain(boilerplate);
+		}
+	});
+});
+
+describe('chunkText', () => {
+	it('splits on paragraph boundaries within the size limit', () => {
+		const chunks = chunkText(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(150)].join('\n\n'), 100);
+		expect(chunks).toEqual(['a'.repeat(40) + '\n\n' + 'b'.repeat(40), 'c'.repeat(100), 'c'.repeat(50)]);
+	});
+});
+
+describe('parseReadableUrl', () => {
+	it('only accepts public http(s) links', () => {
+		expect(parseReadableUrl(' https://example.com/a ').hostname).toBe('example.com');
+		expect(() => parseReadableUrl('not a link')).toThrow(PageReadError);
+		expect(() => parseReadableUrl('ftp://example.com/file')).toThrow('Only http and https');
+		expect(() => parseReadableUrl('http://192.168.1.1/admin')).toThrow('not publicly reachable');
+	});
+});
+
+describe('readPage', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('reads an HTML page into chunks', async () => {
+		fetchMock.get('https://blog.example').intercept({ path: '/edge' }).reply(200, articleHtml, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+
+		const page = await readPage('https://blog.example/edge');
+		expect(page.title).toBe('Edge computing & you');
+		expect(page.chunks).toHaveLength(1);
+		expect(page.truncated).toBe(false);
+	});
+
+	it('refuses content that is not a web page', async () => {
+		fetchMock.get('https://files.example').intercept({ path: '/report.pdf' }).reply(200, '%PDF-1.7', { headers: { 'Content-Type': 'application/pdf' } });
+
+		await expect(readPage('https://files.example/report.pdf')).rejects.toThrow('this link is application/pdf');
+	});
+});
+
+describe('parsePageSummary', () => {
+	it('reads the TL;DR line and the key points', () => {
+		expect(parsePageSummary('**TL;DR:** Edge runtimes are fast.\nKey points:\n- Low latency\n* No servers\n3. Pay per request')).toEqual({
+			tldr: 'Edge runtimes are fast.',
+			keyPoints: ['Low latency', 'No servers', 'Pay per request'],
+		});
+		expect(parsePageSummary('Just a paragraph.')).toEqual({ tldr: 'Just a paragraph.', keyPoints: [] });
+	});
+});
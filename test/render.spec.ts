@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import { escapeHtml, link, splitMessage, toPlainText } from '../src/render';
+import {
+	formatAIOverview,
+	formatApprovalRequest,
+	formatAuditLog,
+	formatIndividualResult,
+	formatLiveResults,
+	formatSearchHeader,
+	formatWatchAlert,
+	formatWatchCreated,
+	type ResultsView,
+} from '../src/format';
+import { formatDorkError, parseDork, DorkSyntaxError } from '../src/dork';
+import { buildQueryRequest } from '../src/query-builder';
+import { buildApprovalKeyboard, type AuditEntry } from '../src/access';
+import type { Watch } from '../src/watch';
+
+describe('formatIndividualResult', () => {
+	it('escapes untrusted titles, snippets and links', () => {
+		const message = formatIndividualResult(
+			{
+				title: 'snake_case <vs> *camelCase*',
+				snippet: 'Use `code` & [brackets]',
+				displayLink: 'example.com',
+				link: 'https://example.com/?a=1&b="2"',
+				aiSummary: 'Compares <b>naming</b>',
+			},
+			1,
+		);
+
+		expect(message).toContain('<b>Result 1: snake_case &lt;vs&gt; *camelCase*</b>');
+		expect(message).toContain('Use `code` &amp; [brackets]');
+		expect(message).toContain('<i>Compares &lt;b&gt;naming&lt;/b&gt;</i>');
+		expect(message).toContain('<a href="https://example.com/?a=1&amp;b=&quot;2&quot;">Read Full Article</a>');
+	});
+
+	it('shows the provider rank next to the reranked one in debug mode', () => {
+		const result = {
+			title: 'Syndicated story',
+			snippet: 'The same text',
+			displayLink: 'news.example',
+			link: 'https://news.example/story',
+			rank: { original: 4, relevance: 0.8123, merged: ['mirror.example', 'copy.example'] },
+		};
+
+		expect(formatIndividualResult(result, 1)).not.toContain('🧪');
+		expect(formatIndividualResult(result, 1, true)).toContain('🧪 #4 → #1 · relevance 0.812 · merged mirror.example, copy.example');
+		expect(formatIndividualResult({ ...result, rank: undefined }, 5, true)).toContain('🧪 #5 · provider order');
+	});
+
+	it('writes its own labels in the chosen locale', () => {
+		const message = formatIndividualResult(
+			{ title: 'Guía de Rust', snippet: 'Aprende Rust', displayLink: 'rust.example', link: 'https://rust.example/', aiSummary: 'Una guía.', aiSummaryFromCache: true },
+			2,
+			false,
+			'es',
+		);
+
+		expect(message).toContain('<b>Resultado 2: Guía de Rust</b>');
+		expect(message).toContain('<b>Fuente:</b> rust.example');
+		expect(message).toContain('<b>Análisis de IA (en caché):</b>');
+		expect(message).toContain('>Leer el artículo completo</a>');
+		expect(message).not.toMatch(/Result |Source|Read Full Article/);
+	});
+});
+
+describe('dork parameters', () => {
+	const view: ResultsView = {
+		query: 'site:example.com filetype:pdf report',
+		searchType: 'dork',
+		searchContext: 'PDF files on example.com',
+		searchInfo: { totalResults: '12', searchTime: 0.2, provider: 'Google' },
+		results: [{ title: 'Report', link: 'https://example.com/report.pdf', snippet: 'Annual report', displayLink: 'example.com' }],
+		overview: '',
+		request: { params: { q: 'report', siteSearch: 'example.com', siteSearchFilter: 'i', fileType: 'pdf' }, warnings: [] },
+	};
+	const sent = '🧾 <b>Sent to Google:</b>\n• <code>q: report</code>\n• <code>siteSearch: example.com (include)</code>\n• <code>fileType: pdf</code>\n';
+
+	it('shows what was sent to the provider in both display modes', () => {
+		expect(formatSearchHeader(view)).toContain(sent);
+		expect(formatLiveResults(view)).toContain(sent);
+	});
+
+	it('leaves them out of plain searches', () => {
+		expect(formatLiveResults({ ...view, searchType: 'normal' })).not.toContain('🧾');
+	});
+});
+
+describe('formatAIOverview', () => {
+	it('links citations to the cited results', () => {
+		const results = [
+			{ title: 'A', link: 'https://a.example/?x=1&y=2', snippet: '', displayLink: 'a.example' },
+			{ title: 'B', link: 'javascript:alert(1)', snippet: '', displayLink: 'b.example' },
+		];
+
+		const message = formatAIOverview('Fast <and> cheap [1], risky [2], unknown [3].', results);
+
+		expect(message).toContain('Fast &lt;and&gt; cheap <a href="https://a.example/?x=1&amp;y=2">[1]</a>, risky [2], unknown [3].');
+	});
+});
+
+describe('other messages in the chosen locale', () => {
+	const watch: Watch = { id: 7, chatId: 1, userId: 1, query: 'rust wasm', frequency: 'daily', locale: 'en', createdAt: 0, lastRunAt: 0 };
+	const entry: AuditEntry = {
+		id: 3,
+		userId: 42,
+		chatId: -100,
+		chatType: 'supergroup',
+		messageId: 1,
+		role: 'guest',
+		query: 'inurl:admin',
+		reason: 'Guests may not use inurl:',
+		outcome: 'pending',
+		decidedBy: null,
+		createdAt: 0,
+		decidedAt: null,
+	};
+
+	it('explains dork syntax errors', () => {
+		let error: DorkSyntaxError | undefined;
+		try {
+			parseDork('site:');
+		} catch (caught) {
+			error = caught as DorkSyntaxError;
+		}
+
+		expect(error?.message).toBe('Empty site: operator');
+		expect(formatDorkError(error!, 'es')).toContain('Operador site: vacío');
+		expect(formatDorkError(error!, 'ru')).toContain('пустой оператор site:');
+		expect(formatDorkError(error!, 'ru')).not.toMatch(/understand|Put a value/);
+	});
+
+	it('writes search warnings', () => {
+		const request = buildQueryRequest(parseDork('laptop $300..$800'), 'Bing', new Set(), 'es');
+		expect(request.warnings).toEqual(['Bing no admite intervalos de números y se han omitido']);
+	});
+
+	it('labels the overview, watches and admin messages', () => {
+		expect(formatAIOverview('Short.', [], 'ru')).toContain('<b>Подробные результаты:</b>');
+		expect(formatWatchCreated(watch, 1, 'es')).toContain('Comprobaré una vez al día');
+		expect(formatWatchAlert(watch, 3, 'ru')).toContain('3 новых результата по запросу:');
+		expect(formatWatchAlert(watch, 3, 'es')).toContain('/unwatch 7 para detenerla');
+		expect(formatApprovalRequest(entry, { id: 42, first_name: 'Ana' }, { id: -100, type: 'supergroup' }, 'es')).toContain(
+			'Búsqueda pendiente de aprobación:',
+		);
+		expect(formatAuditLog([entry], 'ru')).toContain('пользователь 42 (guest) · чат -100');
+		expect(buildApprovalKeyboard(3, 'es').inline_keyboard[0].map(button => button.text)).toEqual(['✅ Aprobar', '❌ Rechazar']);
+	});
+});
+
+describe('link', () => {
+	it('refuses non-http urls', () => {
+		expect(link('click', 'javascript:alert(1)')).toBe('click');
+	});
+});
+
+describe('splitMessage', () => {
+	it('leaves short messages alone', () => {
+		expect(splitMessage('<b>hi</b>', { html: true })).toEqual(['<b>hi</b>']);
+	});
+
+	it('splits on line breaks and reopens tags that span the cut', () => {
+		const html = `<i>${'word '.repeat(10)}\n${'more '.repeat(10)}</i>`;
+		const parts = splitMessage(html, { html: true, limit: 60 });
+
+		expect(parts).toHaveLength(2);
+		for (const part of parts) {
+			expect(part.startsWith('<i>')).toBe(true);
+			expect(part.endsWith('</i>')).toBe(true);
+			expect(toPlainText(part).length).toBeLessThanOrEqual(60);
+		}
+		expect(toPlainText(parts[0]).trim()).toBe('word '.repeat(10).trim());
+		expect(toPlainText(parts[1]).trim()).toBe('more '.repeat(10).trim());
+	});
+
+	it('never cuts an entity in half', () => {
+		const html = escapeHtml('&'.repeat(30));
+		const parts = splitMessage(html, { html: true, limit: 7 });
+
+		expect(parts.join('')).toBe(html);
+		for (const part of parts) {
+			expect(part).toMatch(/^(&amp;)+$/);
+			expect(toPlainText(part).length).toBeLessThanOrEqual(7);
+		}
+	});
+
+	it('splits plain text at the limit', () => {
+		const parts = splitMessage('a'.repeat(10_000), { html: false });
+		expect(parts.map((part) => part.length)).toEqual([4096, 4096, 1808]);
+	});
+});
+
+describe('toPlainText', () => {
+	it('strips markup and keeps link targets', () => {
+		expect(toPlainText('<b>Tom &amp; Jerry</b> <a href="https://example.com">site</a>')).toBe('Tom & Jerry site (https://example.com)');
+	});
+});
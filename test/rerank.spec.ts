@@ -0,0 +1,76 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { parseDork } from '../src/dork';
+import { planRanking, rankingText, rerankResults, usesSiteOperator } from '../src/rerank';
+
+function item(displayLink: string, path = ''): { title: string; link: string; snippet: string; displayLink: string } {
+	return { title: `Page on ${displayLink}${path}`, link: `https://${displayLink}/${path}`, snippet: 'Snippet', displayLink };
+}
+
+const query = [1, 0, 0];
+
+describe('planRanking', () => {
+	it('merges near-duplicates into the most relevant copy and keeps one result per site', () => {
+		const items = [item('c.example'), item('www.a.example', 'two'), item('a.example', 'one'), item('b.example')];
+		const vectors = [[0.5, 0.5, 0.5], [0.8, 0, 0.6], [0.9, 0.1, 0], [0.9, 0.1, 0.001]];
+
+		const plan = planRanking(query, vectors, items, true);
+		expect(plan.map(entry => entry.index)).toEqual([2, 0]);
+		expect(plan[0].merged).toEqual([3]);
+
+		// Without the site limit the second page of a.example stays
+		expect(planRanking(query, vectors, items, false).map(entry => entry.index)).toContain(1);
+	});
+
+	it('puts a different result above a slightly more relevant but similar one', () => {
+		const items = [item('x.example'), item('y.example'), item('z.example')];
+		const vectors = [[1, 0.6, 0.4], [1, 0.5, 0], [1, -0.3, 0.7]];
+
+		expect(planRanking(query, vectors, items, true).map(entry => entry.index)).toEqual([1, 2, 0]);
+	});
+});
+
+describe('ranking query', () => {
+	it('keeps the words a dork is looking for', () => {
+		expect(rankingText(parseDork('site:example.com intitle:"rate limiter" durable objects -cache'))).toBe('rate limiter durable objects');
+		expect(rankingText(parseDork('site:example.com'))).toBe('site:example.com');
+	});
+
+	it('notices searches limited to sites', () => {
+		expect(usesSiteOperator(parseDork('site:example.com news'))).toBe(true);
+		expect(usesSiteOperator(parseDork('news -site:example.com'))).toBe(false);
+	});
+});
+
+describe('rerankResults', () => {
+	it('reorders the page and remembers where each result came from', async () => {
+		const items = [item('x.example'), item('y.example'), item('z.example')];
+		let calls = 0;
+		const aiEnv = {
+			...env,
+			AI: {
+				run: async (model: string, input: { text: string[] }) => {
+					calls++;
+					expect(model).toBe('@cf/baai/bge-base-en-v1.5');
+					expect(input.text).toHaveLength(4);
+					return { shape: [4, 3], data: [query, [1, 0.6, 0.4], [1, 0.5, 0], [1, -0.3, 0.7]] };
+				}
+			}
+		};
+
+		const ranked = await rerankResults(parseDork('rerank order test'), items, aiEnv);
+		expect(ranked.map(result => result.displayLink)).toEqual(['y.example', 'z.example', 'x.example']);
+		expect(ranked[0].rank).toMatchObject({ original: 2, merged: [] });
+
+		// The plan is cached for the same page
+		await rerankResults(parseDork('rerank order test'), items, aiEnv);
+		expect(calls).toBe(1);
+	});
+
+	it('keeps the provider order when the model fails', async () => {
+		const items = [item('x.example'), item('y.example')];
+		const aiEnv = { ...env, AI: { run: async () => { throw new Error('model unavailable'); } } };
+
+		expect(await rerankResults(parseDork('rerank failure test'), items, aiEnv)).toEqual(items);
+	});
+});
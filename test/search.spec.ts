@@ -0,0 +1,96 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { parseDork } from '../src/dork';
+import { configuredProviders, searchWithFallback } from '../src/search';
+
+const braveResponse = {
+	query: { more_results_available: true },
+	web: {
+		results: [
+			{ title: 'Rust &amp; WebAssembly', url: 'https://rustwasm.example/book', description: 'The <strong>Rust</strong> and WebAssembly book', meta_url: { hostname: 'rustwasm.example' } },
+		],
+	},
+};
+
+function interceptBrave(path: (path: string) => boolean = () => true) {
+	fetchMock
+		.get('https://api.search.brave.com')
+		.intercept({ path: (p) => p.startsWith('/res/v1/web/search') && path(p) })
+		.reply(200, braveResponse);
+}
+
+describe('configuredProviders', () => {
+	it('keeps the configured order and skips providers without credentials', () => {
+		const providers = configuredProviders({ ...env, SEARCH_PROVIDERS: 'brave, bing, nope, google', BRAVE_SEARCH_API_KEY: 'brave-key' });
+		expect(providers.map((provider) => provider.name)).toEqual(['brave', 'google']);
+	});
+});
+
+describe('searchWithFallback', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('falls back to the next provider when Google is out of quota', async () => {
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(429, { error: { code: 429, message: 'Quota exceeded' } });
+		interceptBrave();
+
+		const { provider, request, search } = await searchWithFallback(parseDork('rust wasm fallback'), 'normal', {
+			...env,
+			SEARCH_PROVIDERS: 'google,brave',
+			BRAVE_SEARCH_API_KEY: 'brave-key',
+		});
+
+		expect(provider.name).toBe('brave');
+		expect(request.warnings).toEqual(['Google is out of quota, so Brave Search answered instead']);
+		expect(search.value.searchInfo.provider).toBe('Brave Search');
+		expect(search.value.hasMore).toBe(true);
+		expect(search.value.items).toEqual([
+			{ title: 'Rust & WebAssembly', link: 'https://rustwasm.example/book', snippet: 'The Rust and WebAssembly book', displayLink: 'rustwasm.example' },
+		]);
+	});
+
+	it('translates dorks for the provider that answers', async () => {
+		interceptBrave((path) => new URL(path, 'https://x').searchParams.get('q') === 'site:docs.rs tokio');
+
+		const { request } = await searchWithFallback(parseDork('site:docs.rs inurl:tokio'), 'dork', {
+			...env,
+			SEARCH_PROVIDERS: 'brave',
+			BRAVE_SEARCH_API_KEY: 'brave-key',
+		});
+
+		expect(request.params).toEqual({ q: 'site:docs.rs tokio' });
+	});
+
+	it('gives Google results without a snippet an empty one', async () => {
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(200, {
+				kind: 'customsearch#search',
+				items: [{ title: 'Scanned report', link: 'https://example.com/scan.pdf', displayLink: 'example.com', formattedUrl: 'https://example.com/scan.pdf' }],
+				searchInformation: { totalResults: '1', searchTime: 0.1 },
+			});
+
+		const { search } = await searchWithFallback(parseDork('scanned report'), 'normal', env);
+
+		expect(search.value.items[0].snippet).toBe('');
+	});
+
+	it('reports the last error when every provider fails', async () => {
+		fetchMock
+			.get('https://www.googleapis.com')
+			.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+			.reply(500, 'backend error');
+
+		await expect(searchWithFallback(parseDork('nobody home'), 'normal', env)).rejects.toThrow('Google API error: 500');
+	});
+});
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { classifyMessage } from '../src/session';
+
+describe('classifyMessage', () => {
+	it('recognises references to earlier results', () => {
+		for (const text of ['tell me more about result 2', 'compare the first two', 'what does #3 say', 'which one of these is free', 'summarize them']) {
+			expect(classifyMessage(text)).toBe('followup');
+		}
+	});
+
+	it('leaves open questions to the model and treats the rest as searches', () => {
+		expect(classifyMessage('is it safe to use in production?')).toBe('unsure');
+		expect(classifyMessage('why is the sky blue')).toBe('unsure');
+		expect(classifyMessage('best hiking trails in Oregon')).toBe('search');
+	});
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { applySearchSettings, buildSettingsKeyboard, parseSettingsData, updateSettings, DEFAULT_SETTINGS } from '../src/settings';
+
+describe('parseSettingsData', () => {
+	it('reads menu buttons and valid choices', () => {
+		expect(parseSettingsData('st:menu')).toEqual({ action: 'menu' });
+		expect(parseSettingsData('st:ai')).toEqual({ action: 'toggleAI' });
+		expect(parseSettingsData('st:debug')).toEqual({ action: 'toggleRankDebug' });
+		expect(parseSettingsData('st:open:region')).toEqual({ action: 'open', field: 'region' });
+		expect(parseSettingsData('st:set:resultCount:7')).toEqual({ action: 'set', field: 'resultCount', value: '7' });
+	});
+
+	it('rejects unknown fields and values outside the menu', () => {
+		expect(parseSettingsData('st:set:resultCount:11')).toBeNull();
+		expect(parseSettingsData('st:set:safeSearch:maximum')).toBeNull();
+		expect(parseSettingsData('st:open:constructor')).toBeNull();
+		expect(parseSettingsData('pg:abc:3')).toBeNull();
+	});
+});
+
+describe('settings keyboard', () => {
+	it('marks the current choice and links back to the menu', () => {
+		const settings = updateSettings(DEFAULT_SETTINGS, 'resultCount', '5');
+		const rows = buildSettingsKeyboard(settings, 'resultCount').inline_keyboard;
+
+		expect(rows.flat().find((button) => button.text.startsWith('✅'))?.callback_data).toBe('st:set:resultCount:5');
+		expect(rows[rows.length - 1]).toEqual([{ text: '⬅️ Back', callback_data: 'st:menu' }]);
+		expect(rows.flat().every((button) => new TextEncoder().encode(button.callback_data).length <= 64)).toBe(true);
+	});
+});
+
+describe('applySearchSettings', () => {
+	it('adds language, region and SafeSearch unless left on auto', () => {
+		expect(applySearchSettings({ q: 'news' }, DEFAULT_SETTINGS)).toEqual({ q: 'news', safe: 'moderate' });
+		expect(applySearchSettings({ q: 'news' }, { ...DEFAULT_SETTINGS, language: 'de', region: 'at', safeSearch: 'strict' })).toEqual({
+			q: 'news',
+			lr: 'lang_de',
+			hl: 'de',
+			gl: 'at',
+			safe: 'strict',
+		});
+	});
+});
@@ -0,0 +1,79 @@
+import { fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { callTelegram, sendDocument, sendMessage, TelegramApiError } from '../src/telegram';
+
+// A fake Bot API server standing in for api.telegram.org
+const config = { TELEGRAM_BOT_TOKEN: 'fake-token', TELEGRAM_API_BASE: 'https://telegram.test' };
+const fakeTelegram = () => fetchMock.get('https://telegram.test');
+
+describe('Telegram client', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('returns the result of successful calls', async () => {
+		fakeTelegram()
+			.intercept({ method: 'POST', path: '/botfake-token/sendMessage' })
+			.reply(200, { ok: true, result: { message_id: 7, chat: { id: 1, type: 'private' } } });
+
+		const message = await sendMessage({ chat_id: 1, text: 'hi' }, config);
+		expect(message.message_id).toBe(7);
+	});
+
+	it('throws a TelegramApiError when ok is false', async () => {
+		fakeTelegram()
+			.intercept({ method: 'POST', path: '/botfake-token/sendMessage' })
+			.reply(403, { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' });
+
+		const error = await sendMessage({ chat_id: 2, text: 'hi' }, config).catch((e) => e);
+		expect(error).toBeInstanceOf(TelegramApiError);
+		expect(error.errorCode).toBe(403);
+		expect(error.description).toContain('blocked');
+	});
+
+	it('waits for retry_after on 429 before retrying', async () => {
+		fakeTelegram()
+			.intercept({ method: 'POST', path: '/botfake-token/getMe' })
+			.reply(429, { ok: false, error_code: 429, description: 'Too Many Requests: retry after 1', parameters: { retry_after: 1 } });
+		fakeTelegram()
+			.intercept({ method: 'POST', path: '/botfake-token/getMe' })
+			.reply(200, { ok: true, result: { id: 1 } });
+
+		const started = Date.now();
+		expect(await callTelegram('getMe', {}, config)).toEqual({ id: 1 });
+		expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+	});
+
+	it('retries transient server errors', async () => {
+		fakeTelegram().intercept({ method: 'POST', path: '/botfake-token/getMe' }).reply(502, 'Bad Gateway').times(2);
+		fakeTelegram()
+			.intercept({ method: 'POST', path: '/botfake-token/getMe' })
+			.reply(200, { ok: true, result: { id: 1 } });
+
+		expect(await callTelegram('getMe', {}, config)).toEqual({ id: 1 });
+	});
+
+	it('gives up after repeated server errors', async () => {
+		fakeTelegram().intercept({ method: 'POST', path: '/botfake-token/getMe' }).reply(500, { ok: false, error_code: 500, description: 'Internal' }).times(4);
+
+		await expect(callTelegram('getMe', {}, config)).rejects.toThrow('Telegram getMe failed (500)');
+	});
+
+	it('uploads documents as multipart form data', async () => {
+		let contentType = '';
+		fakeTelegram()
+			.intercept({ method: 'POST', path: '/botfake-token/sendDocument' })
+			.reply(200, (options) => {
+				contentType = String(new Headers(options.headers as HeadersInit).get('content-type'));
+				return { ok: true, result: { message_id: 9, chat: { id: 3, type: 'private' } } };
+			});
+
+		await sendDocument({ chat_id: 3, document: new Blob(['a,b\n']), filename: 'export.csv' }, config);
+		expect(contentType).toContain('multipart/form-data');
+	});
+});
@@ -0,0 +1,130 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { parseWatchArgs, createWatch, deleteWatch, listWatches, runDueWatches } from '../src/watch';
+
+const HOUR = 60 * 60 * 1000;
+
+function googleResponse(ids: number[]) {
+	return {
+		kind: 'customsearch#search',
+		items: ids.map((id) => ({
+			title: `Paste ${id}`,
+			link: `https://pastebin.example/${id}`,
+			snippet: `Mentions ourcompany ${id}`,
+			displayLink: 'pastebin.example',
+			formattedUrl: `https://pastebin.example/${id}`,
+		})),
+		searchInformation: { totalResults: String(ids.length), searchTime: 0.1 },
+	};
+}
+
+function mockGoogle(ids: number[]) {
+	fetchMock
+		.get('https://www.googleapis.com')
+		.intercept({ path: (path) => path.startsWith('/customsearch/v1') })
+		.reply(200, googleResponse(ids));
+}
+
+describe('parseWatchArgs', () => {
+	it('reads an optional trailing frequency', () => {
+		expect(parseWatchArgs('site:pastebin.com "ourcompany" hourly')).toEqual({ query: 'site:pastebin.com "ourcompany"', frequency: 'hourly' });
+		expect(parseWatchArgs('rust release notes')).toEqual({ query: 'rust release notes', frequency: 'daily' });
+		expect(parseWatchArgs('  ')).toBeNull();
+	});
+});
+
+describe('scheduled watches', () => {
+	beforeAll(() => {
+		fetchMock.activate();
+		fetchMock.disableNetConnect();
+	});
+
+	afterEach(() => {
+		fetchMock.assertNoPendingInterceptors();
+	});
+
+	it('sends only results that were not there before, with AI insights', async () => {
+		const created = Date.UTC(2025, 0, 1, 8);
+		mockGoogle([1, 2, 3]);
+		const { watch, baseline } = await createWatch(900, 901, 'site:pastebin.com "ourcompany"', 'hourly', env, created);
+		expect(baseline).toBe(3);
+
+		const sent: Array<{ chat_id: number; text: string }> = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				sent.push(JSON.parse(String(options.body)));
+				return { ok: true, result: {} };
+			})
+			.times(3);
+
+		const aiEnv = { ...env, AI: { run: async () => ({ response: 'A new paste mentions the company.' }) } };
+
+		// Not due yet: nothing is searched
+		await runDueWatches(aiEnv, created + 30 * 60 * 1000);
+
+		mockGoogle([4, 1, 5, 2]);
+		await runDueWatches(aiEnv, created + HOUR);
+
+		expect(sent.map((message) => message.chat_id)).toEqual([900, 900, 900]);
+		expect(sent[0].text).toContain('2 new results');
+		expect(sent[0].text).toContain(`/unwatch ${watch.id}`);
+		expect(sent[1].text).toContain('Paste 4');
+		expect(sent[1].text).toContain('A new paste mentions the company.');
+		expect(sent[2].text).toContain('Paste 5');
+
+		// Everything is known now, so the next run stays quiet
+		mockGoogle([1, 4, 5]);
+		await runDueWatches(aiEnv, created + 2 * HOUR);
+		expect(sent).toHaveLength(3);
+	});
+
+	it('writes alerts in the language of the user who created the watch', async () => {
+		const created = Date.UTC(2024, 5, 1, 8);
+		mockGoogle([1]);
+		await createWatch(930, 931, 'ourcompany filtración', 'daily', env, created, 'es');
+
+		const sent: Array<{ text: string }> = [];
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(200, (options) => {
+				sent.push(JSON.parse(String(options.body)));
+				return { ok: true, result: {} };
+			})
+			.times(2);
+
+		mockGoogle([1, 2]);
+		await runDueWatches({ ...env, AI: { run: async () => ({ response: 'Un nuevo paste.' }) } }, created + 24 * HOUR);
+
+		expect(sent[0].text).toContain('1 resultado nuevo de:');
+		expect(sent[1].text).toContain('Resultado 1: Paste 2');
+		expect(sent.map((message) => message.text).join('\n')).not.toMatch(/new result|Result 1|Source/);
+	});
+
+	it('drops the watches of chats that blocked the bot', async () => {
+		const created = Date.UTC(2025, 0, 2, 8);
+		mockGoogle([1]);
+		await createWatch(910, 911, 'ourcompany leak', 'daily', env, created);
+
+		mockGoogle([1, 2]);
+		fetchMock
+			.get('https://api.telegram.org')
+			.intercept({ method: 'POST', path: `/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage` })
+			.reply(403, { ok: false, error_code: 403, description: 'Forbidden: bot was blocked by the user' });
+
+		await runDueWatches({ ...env, AI: { run: async () => ({ response: 'Insight' }) } }, created + 24 * HOUR);
+
+		expect(await listWatches(910, env.DB)).toEqual([]);
+	});
+
+	it('only lets a chat remove its own watches', async () => {
+		mockGoogle([1]);
+		const { watch } = await createWatch(920, 921, 'cloudflare workers', 'daily', env);
+
+		expect(await deleteWatch(999, watch.id, env.DB)).toBe(false);
+		expect(await deleteWatch(920, watch.id, env.DB)).toBe(true);
+		expect(await listWatches(920, env.DB)).toEqual([]);
+	});
+});
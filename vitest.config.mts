@@ -1,11 +1,28 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { fileURLToPath } from 'node:url';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
-	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+export default defineWorkersConfig(async () => {
+	// Applied to the test D1 database before each test file
+	const migrations = await readD1Migrations(fileURLToPath(new URL('./migrations', import.meta.url)));
+
+	return {
+		test: {
+			setupFiles: ['./test/apply-migrations.ts'],
+			poolOptions: {
+				workers: {
+					wrangler: { configPath: './wrangler.jsonc' },
+					miniflare: {
+						bindings: {
+							TELEGRAM_BOT_TOKEN: 'test-token',
+							TELEGRAM_WEBHOOK_SECRET: 'test-secret',
+							ADMIN_TOKEN: 'test-admin-token',
+							GOOGLE_SEARCH_API_KEY: 'test-google-key',
+							GOOGLE_SEARCH_ENGINE_ID: 'test-engine',
+							TEST_MIGRATIONS: migrations,
+						},
+					},
+				},
 			},
 		},
-	},
+	};
 });
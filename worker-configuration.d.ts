@@ -3,6 +3,26 @@
 // Runtime types generated with workerd@1.20250803.0 2025-08-05 
 declare namespace Cloudflare {
 	interface Env {
+		AI: Ai;
+		BOT_KV: KVNamespace;
+		DB: D1Database;
+		TELEGRAM_BOT_TOKEN: string;
+		TELEGRAM_WEBHOOK_SECRET: string;
+		ADMIN_TOKEN: string;
+		GOOGLE_SEARCH_API_KEY: string;
+		GOOGLE_SEARCH_ENGINE_ID: string;
+		SEARCH_CACHE_TTL: string;
+		SUMMARY_CACHE_TTL: string;
+		AI_MODEL: string;
+		SEARCH_PROVIDERS: string;
+		USER_SEARCHES_PER_MINUTE: string;
+		USER_SEARCHES_PER_DAY: string;
+		CHAT_SEARCHES_PER_MINUTE: string;
+		CHAT_SEARCHES_PER_DAY: string;
+		API_SEARCHES_PER_MINUTE: string;
+		API_SEARCHES_PER_DAY: string;
+		DAILY_AI_CALL_BUDGET: string;
+		RATE_LIMITER: DurableObjectNamespace<import("./src/index").RateLimiter>;
 	}
 }
 interface Env extends Cloudflare.Env {}